@@ -1,9 +1,181 @@
 const vscode = acquireVsCodeApi()
 
-function startRecording() {
-	vscode.postMessage({ type: 'startRecording' })
+// Gaps between events longer than this are shortened during playback
+const MAX_FRAME_DELAY_MS = 2000
+
+let frames = []
+let currentIndex = 0
+// Index of the frame whose file state is shown or requested, contents are sent on request
+let fileStateIndex = -1
+let playing = false
+let playTimeout = null
+
+const elements = {
+	play: document.getElementById('play'),
+	stepBack: document.getElementById('step-back'),
+	stepForward: document.getElementById('step-forward'),
+	seek: document.getElementById('seek'),
+	speed: document.getElementById('speed'),
+	position: document.getElementById('position'),
+	actionLabel: document.getElementById('action-label'),
+	editorTitle: document.getElementById('editor-title'),
+	editor: document.getElementById('editor'),
+	terminalTitle: document.getElementById('terminal-title'),
+	terminal: document.getElementById('terminal'),
+	fileStateTitle: document.getElementById('file-state-title'),
+	fileState: document.getElementById('file-state'),
+}
+
+function formatOffset(ms) {
+	const seconds = Math.floor(ms / 1000)
+	const minutes = Math.floor(seconds / 60)
+	return `${String(minutes).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+function renderEditor(viewport) {
+	elements.editor.replaceChildren()
+	if (!viewport) {
+		elements.editorTitle.textContent = 'Editor'
+		return
+	}
+
+	elements.editorTitle.textContent = `Editor: ${viewport.file} (lines ${viewport.startLine}-${viewport.endLine})`
+	const cursorLine = viewport.cursorPosition ? viewport.cursorPosition.line + 1 : null
+	const lines = viewport.content.split('\n')
+
+	lines.forEach((text, offset) => {
+		const lineNumber = viewport.startLine + offset
+		const line = document.createElement('div')
+		line.className = lineNumber === cursorLine ? 'line cursor-line' : 'line'
+
+		const gutter = document.createElement('span')
+		gutter.className = 'gutter'
+		gutter.textContent = String(lineNumber)
+		line.appendChild(gutter)
+
+		if (lineNumber === cursorLine) {
+			const column = viewport.cursorPosition.character
+			line.appendChild(document.createTextNode(text.slice(0, column)))
+			const cursor = document.createElement('span')
+			cursor.className = 'cursor'
+			cursor.textContent = text.charAt(column) || ' '
+			line.appendChild(cursor)
+			line.appendChild(document.createTextNode(text.slice(column + 1)))
+		} else {
+			line.appendChild(document.createTextNode(text))
+		}
+		elements.editor.appendChild(line)
+	})
+}
+
+function renderTerminal(terminal) {
+	if (!terminal) {
+		elements.terminalTitle.textContent = 'Terminal'
+		elements.terminal.textContent = ''
+		return
+	}
+	elements.terminalTitle.textContent = `Terminal: ${terminal.name}`
+	elements.terminal.textContent = terminal.viewport.join('\n')
+}
+
+function renderFileState(fileState) {
+	if (!fileState) {
+		elements.fileStateTitle.textContent = 'Reconstructed file'
+		elements.fileState.textContent = ''
+		return
+	}
+	elements.fileStateTitle.textContent = `Reconstructed file: ${fileState.file}`
+	elements.fileState.textContent = fileState.content
 }
 
-function stopRecording() {
-	vscode.postMessage({ type: 'stopRecording' })
+function render() {
+	const frame = frames[currentIndex]
+	if (!frame) {
+		elements.position.textContent = 'No events'
+		return
+	}
+
+	const observation = frame.observationFrame >= 0 ? frames[frame.observationFrame].observation : null
+
+	elements.seek.value = String(currentIndex)
+	elements.position.textContent = `${currentIndex + 1}/${frames.length} · ${formatOffset(frame.offsetMs)}`
+	elements.actionLabel.textContent = `#${frame.sequence} ${frame.label}`
+	renderEditor(observation ? observation.viewport : null)
+	renderTerminal(observation ? observation.activeTerminal : null)
+	requestFileState(frame.fileStateFrame)
+}
+
+function requestFileState(index) {
+	if (index === fileStateIndex) {
+		return
+	}
+	fileStateIndex = index
+	if (index < 0) {
+		renderFileState(null)
+		return
+	}
+	vscode.postMessage({ type: 'fileState', index })
+}
+
+function setPlaying(value) {
+	playing = value
+	elements.play.innerHTML = playing ? '&#10074;&#10074;' : '&#9654;'
+	if (playTimeout) {
+		clearTimeout(playTimeout)
+		playTimeout = null
+	}
+	if (playing) {
+		scheduleNextFrame()
+	}
+}
+
+function scheduleNextFrame() {
+	if (currentIndex >= frames.length - 1) {
+		setPlaying(false)
+		return
+	}
+	const speed = Number(elements.speed.value) || 1
+	const gap = frames[currentIndex + 1].offsetMs - frames[currentIndex].offsetMs
+	const delay = Math.min(Math.max(gap, 0), MAX_FRAME_DELAY_MS) / speed
+
+	playTimeout = setTimeout(() => {
+		currentIndex++
+		render()
+		scheduleNextFrame()
+	}, delay)
+}
+
+function seek(index) {
+	currentIndex = Math.min(Math.max(index, 0), Math.max(frames.length - 1, 0))
+	render()
+	if (playing) {
+		setPlaying(true)
+	}
 }
+
+elements.play.addEventListener('click', () => setPlaying(!playing))
+elements.stepBack.addEventListener('click', () => seek(currentIndex - 1))
+elements.stepForward.addEventListener('click', () => seek(currentIndex + 1))
+elements.seek.addEventListener('input', () => seek(Number(elements.seek.value)))
+elements.speed.addEventListener('change', () => {
+	if (playing) {
+		setPlaying(true)
+	}
+})
+
+window.addEventListener('message', event => {
+	const message = event.data
+	if (message.type === 'load') {
+		frames = message.frames
+		fileStateIndex = -1
+		renderFileState(null)
+		elements.seek.max = String(Math.max(frames.length - 1, 0))
+		setPlaying(false)
+		seek(0)
+	} else if (message.type === 'fileState' && message.index === fileStateIndex) {
+		// Answers to earlier requests are dropped while playing
+		renderFileState(message.fileState)
+	}
+})
+
+vscode.postMessage({ type: 'ready' })
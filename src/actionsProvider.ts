@@ -4,6 +4,7 @@ import * as path from 'node:path'
 import { getConfig } from './utilities'
 import { getConsentStatusMessage } from './consent'
 import { commands } from './recording'
+import type { UploadQueueStatus } from './uploadQueue'
 
 export class ActionItem extends vscode.TreeItem {
 	constructor(
@@ -28,6 +29,7 @@ export class ActionsProvider implements vscode.TreeDataProvider<ActionItem> {
 	private _timer = 0
 	private _isRecording = false
 	private _currentFile = ''
+	private _uploadQueueStatus: UploadQueueStatus | null = null
 	private _gitignoreWatcher: vscode.FileSystemWatcher | undefined
 
 	constructor() {
@@ -79,6 +81,11 @@ export class ActionsProvider implements vscode.TreeDataProvider<ActionItem> {
 		this.refresh()
 	}
 
+	setUploadQueueStatus(status: UploadQueueStatus): void {
+		this._uploadQueueStatus = status
+		this.refresh()
+	}
+
 	formatTime(seconds: number): string {
 		const hours = Math.floor(seconds / 3600)
 		const minutes = Math.floor((seconds % 3600) / 60)
@@ -176,6 +183,25 @@ export class ActionsProvider implements vscode.TreeDataProvider<ActionItem> {
 			items.push(addToGitignoreButton)
 		}
 
+		// Upload queue status (only when parts are waiting to be uploaded)
+		if (this._uploadQueueStatus && this._uploadQueueStatus.pending > 0) {
+			const { pending, failing, nextAttemptAt } = this._uploadQueueStatus
+			const retryInfo = failing > 0 && nextAttemptAt
+				? `, next retry ${new Date(nextAttemptAt).toLocaleTimeString()}`
+				: ''
+			const uploadQueue = new ActionItem(
+				`Upload queue: ${pending} pending${retryInfo}`,
+				vscode.TreeItemCollapsibleState.None,
+				{
+					command: 'crowd-code.retryUploads',
+					title: 'Retry Uploads Now',
+				},
+				failing > 0 ? 'cloud-upload' : 'sync'
+			)
+			uploadQueue.tooltip = 'Click to retry pending uploads now'
+			items.push(uploadQueue)
+		}
+
 		// Data collection consent status and management
 		const consentStatus = new ActionItem(
 			getConsentStatusMessage(),
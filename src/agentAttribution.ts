@@ -0,0 +1,243 @@
+/**
+ * Agent Attribution for crowd-code 2.0
+ * Fingerprints which agent most likely produced an agent edit
+ * Signals: CLI agents running in terminals, active agent extensions, the host editor
+ * and how the change was written (through the editor or directly to disk)
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'node:path'
+import { getRunningTerminalCommands } from './capture'
+
+export interface AgentAttribution {
+	agentId: string
+	// 0..1, how sure we are that agentId produced the change
+	agentConfidence: number
+}
+
+export interface AgentChangeSignals {
+	// CLI agents running in a terminal, from the command lines of shell integration
+	runningCliAgents: string[]
+	// CLI agents only recognized by the name of a terminal, which may have exited or be a coincidence
+	namedCliAgents: string[]
+	// Agent extensions that are active
+	extensionAgents: string[]
+	// The agent built into the host editor
+	hostAgent: string | null
+	// Whether the change was made through the editor (extensions) or directly on disk (processes)
+	writtenThroughEditor: boolean
+}
+
+// CLI agent executables (also matched against npm package names without scope)
+const CLI_AGENTS: Record<string, string> = {
+	'claude': 'claude-code',
+	'claude-code': 'claude-code',
+	'codex': 'codex',
+	'aider': 'aider',
+	'gemini': 'gemini-cli',
+	'gemini-cli': 'gemini-cli',
+	'cursor-agent': 'cursor',
+	'opencode': 'opencode',
+	'goose': 'goose',
+	'amp': 'amp',
+	'qwen': 'qwen-code',
+	'crush': 'crush',
+	'copilot': 'copilot-cli',
+}
+
+// Launchers and prefixes skipped when looking for the executable of a command line
+const COMMAND_PREFIXES = new Set(['npx', 'bunx', 'pnpx', 'uvx', 'sudo', 'env', 'exec', 'time', 'nohup'])
+
+// Extension ID -> agent ID, in order of preference for inline completions
+const AGENT_EXTENSIONS: Record<string, string> = {
+	'github.copilot': 'copilot',
+	'github.copilot-chat': 'copilot',
+	'anthropic.claude-code': 'claude-code',
+	'openai.chatgpt': 'codex',
+	'saoudrizwan.claude-dev': 'cline',
+	'rooveterinaryinc.roo-cline': 'roo-code',
+	'kilocode.kilo-code': 'kilo-code',
+	'continue.continue': 'continue',
+	'codeium.codeium': 'windsurf',
+	'sourcegraph.cody-ai': 'cody',
+	'tabnine.tabnine-vscode': 'tabnine',
+	'amazonwebservices.amazon-q-vscode': 'amazon-q',
+	'google.geminicodeassist': 'gemini-code-assist',
+}
+
+// Editors with a built-in agent
+const HOST_AGENTS: [RegExp, string][] = [
+	[/cursor/i, 'cursor'],
+	[/windsurf/i, 'windsurf'],
+]
+
+// Confidence of each signal for disk writes and for edits through the editor, split between the agents sharing the signal
+// A running CLI agent is the strongest sign of a disk write, a terminal only named after one is weaker
+// Edits through the editor's API come from extensions first, then the host editor's agent, rarely from CLI agents
+const CONFIDENCE_WEIGHTS: Record<Exclude<keyof AgentChangeSignals, 'writtenThroughEditor'>, { disk: number, editor: number }> = {
+	runningCliAgents: { disk: 0.9, editor: 0.3 },
+	namedCliAgents: { disk: 0.5, editor: 0.15 },
+	extensionAgents: { disk: 0.2, editor: 0.7 },
+	hostAgent: { disk: 0.2, editor: 0.6 },
+}
+// Inline completions come from completion extensions (or the host editor), split between the active ones
+const INLINE_COMPLETION_CONFIDENCE = 0.9
+// No known completion provider is active
+const UNKNOWN_PROVIDER_CONFIDENCE = 0.5
+
+// Edits through the editor followed by a file change within this window were written by an extension
+const EDITOR_WRITE_WINDOW_MS = 10 * 60 * 1000
+const MAX_TRACKED_EDITOR_EDITS = 500
+
+// Relative path -> time of the last edit made through the editor outside the active editor
+const recentEditorEdits = new Map<string, number>()
+
+/**
+ * Identify the CLI agent started by a terminal command line, if any
+ */
+export function identifyCliAgent(commandLine: string): string | null {
+	const tokens = commandLine.trim().split(/\s+/)
+	const executable = tokens.find(token =>
+		token.length > 0 && !COMMAND_PREFIXES.has(token) && !/^\w+=/.test(token) && !token.startsWith('-')
+	)
+	if (!executable) {
+		return null
+	}
+
+	// /usr/local/bin/claude, @anthropic-ai/claude-code@latest -> claude, claude-code
+	const name = path.posix.basename(executable.replace(/\\/g, '/'))
+		.replace(/@[^@/]*$/, '')
+		.toLowerCase()
+	return CLI_AGENTS[name] ?? null
+}
+
+function getActiveAgentExtensions(): string[] {
+	const agents = new Set<string>()
+	for (const [extensionId, agentId] of Object.entries(AGENT_EXTENSIONS)) {
+		if (vscode.extensions.getExtension(extensionId)?.isActive) {
+			agents.add(agentId)
+		}
+	}
+	return [...agents]
+}
+
+function getHostAgent(): string | null {
+	const match = HOST_AGENTS.find(([pattern]) => pattern.test(vscode.env.appName))
+	return match ? match[1] : null
+}
+
+function getRunningCliAgents(): string[] {
+	const agents = new Set<string>()
+	for (const running of getRunningTerminalCommands()) {
+		const agentId = identifyCliAgent(running.command)
+		if (agentId) {
+			agents.add(agentId)
+		}
+	}
+	return [...agents]
+}
+
+// Agents launched without shell integration are only recognized by their terminal name
+function getNamedCliAgents(): string[] {
+	const agents = new Set<string>()
+	for (const terminal of vscode.window.terminals) {
+		for (const word of terminal.name.toLowerCase().split(/[\s()[\]:]+/)) {
+			if (CLI_AGENTS[word]) {
+				agents.add(CLI_AGENTS[word])
+			}
+		}
+	}
+	return [...agents]
+}
+
+/**
+ * Note an edit made through the editor to a document that is not the active editor
+ * (agent extensions edit documents this way, CLI agents write to disk)
+ */
+export function noteEditorEdit(file: string): void {
+	const now = Date.now()
+	if (recentEditorEdits.size > MAX_TRACKED_EDITOR_EDITS) {
+		for (const [trackedFile, editedAt] of recentEditorEdits) {
+			if (now - editedAt > EDITOR_WRITE_WINDOW_MS) {
+				recentEditorEdits.delete(trackedFile)
+			}
+		}
+	}
+	recentEditorEdits.set(file, now)
+}
+
+function roundConfidence(confidence: number): number {
+	return Math.round(confidence * 100) / 100
+}
+
+/**
+ * Pick the most likely agent of a change from its signals, null if no agent could be identified
+ * On equal confidence, running CLI agents win over named terminals, extensions and the host editor
+ */
+export function scoreAgentChange(signals: AgentChangeSignals): AgentAttribution | null {
+	const write = signals.writtenThroughEditor ? 'editor' : 'disk'
+	// A terminal named after an agent that is running adds nothing
+	const namedCliAgents = signals.namedCliAgents.filter((agentId) => !signals.runningCliAgents.includes(agentId))
+
+	const candidates: AgentAttribution[] = []
+	const addCandidates = (agentIds: string[], weight: number): void => {
+		for (const agentId of agentIds) {
+			candidates.push({ agentId, agentConfidence: weight / agentIds.length })
+		}
+	}
+	addCandidates(signals.runningCliAgents, CONFIDENCE_WEIGHTS.runningCliAgents[write])
+	addCandidates(namedCliAgents, CONFIDENCE_WEIGHTS.namedCliAgents[write])
+	addCandidates(signals.extensionAgents, CONFIDENCE_WEIGHTS.extensionAgents[write])
+	addCandidates(signals.hostAgent ? [signals.hostAgent] : [], CONFIDENCE_WEIGHTS.hostAgent[write])
+
+	if (candidates.length === 0) {
+		return null
+	}
+	const best = candidates.reduce((a, b) => (b.agentConfidence > a.agentConfidence ? b : a))
+	return { agentId: best.agentId, agentConfidence: roundConfidence(best.agentConfidence) }
+}
+
+/**
+ * Pick the most likely provider of an inline completion, the first active completion extension, then the host editor
+ */
+export function scoreInlineCompletion(extensionAgents: string[], hostAgent: string | null): AgentAttribution {
+	const providers = hostAgent && !extensionAgents.includes(hostAgent) ? [...extensionAgents, hostAgent] : extensionAgents
+	if (providers.length === 0) {
+		return { agentId: 'unknown', agentConfidence: UNKNOWN_PROVIDER_CONFIDENCE }
+	}
+	return {
+		agentId: providers[0],
+		agentConfidence: roundConfidence(INLINE_COMPLETION_CONFIDENCE / providers.length),
+	}
+}
+
+/**
+ * Attribute an agent file change to the most likely agent
+ * Returns null if no agent could be identified
+ */
+export function attributeAgentChange(file: string): AgentAttribution | null {
+	const editedAt = recentEditorEdits.get(file)
+	recentEditorEdits.delete(file)
+
+	return scoreAgentChange({
+		runningCliAgents: getRunningCliAgents(),
+		namedCliAgents: getNamedCliAgents(),
+		extensionAgents: getActiveAgentExtensions(),
+		hostAgent: getHostAgent(),
+		writtenThroughEditor: editedAt !== undefined && Date.now() - editedAt <= EDITOR_WRITE_WINDOW_MS,
+	})
+}
+
+/**
+ * Attribute an accepted inline completion to the most likely completion provider
+ */
+export function attributeInlineCompletion(): AgentAttribution {
+	return scoreInlineCompletion(getActiveAgentExtensions(), getHostAgent())
+}
+
+/**
+ * Reset attribution state (useful when starting a new recording)
+ */
+export function resetAgentAttributionState(): void {
+	recentEditorEdits.clear()
+}
@@ -0,0 +1,190 @@
+/**
+ * Command Capture Module
+ * Captures workbench/editor commands invoked by the user (format document, rename, go to definition, ...)
+ *
+ * VS Code has no stable API to observe executed commands, so commands are captured from two sources:
+ * - crowd-code.recordCommand, bound in package.json to the default keybindings of common commands while recording
+ *   (RECORDING_CONTEXT_KEY), which records the command and forwards it
+ * - the proposed commands.onDidExecuteCommand event, when the host exposes it
+ */
+
+import * as vscode from 'vscode'
+import type { CommandAction, CommandArgument, CommandSearch } from '../types'
+
+export const RECORD_COMMAND_ID = 'crowd-code.recordCommand'
+// Keybindings of RECORD_COMMAND_ID only apply while this context key is set
+export const RECORDING_CONTEXT_KEY = 'crowdCode.isRecording'
+
+const MAX_ARGUMENT_LENGTH = 200
+
+// Commands fired for every keystroke or cursor move, or internal to VS Code and extensions
+const IGNORED_COMMAND_PREFIXES = [
+	'type',
+	'default:',
+	'compositionType',
+	'replacePreviousChar',
+	'cursor',
+	'setContext',
+	'getContext',
+	'vscode.',
+	'_',
+	'crowd-code.',
+]
+
+// Commands whose options argument can hold a workspace search (query, include/exclude patterns, ...)
+const SEARCH_COMMANDS = new Set(['workbench.action.findInFiles'])
+
+export type CommandTrigger = CommandAction['trigger']
+
+export interface CommandCallbacks {
+	// search is the workspace search passed to find in files, null for other commands and find in files without a query
+	onCommand: (command: string, args: CommandArgument[], trigger: CommandTrigger, search: CommandSearch | null) => void
+	// Called after a forwarded command has finished executing
+	onCommandComplete: (command: string) => void
+}
+
+interface ExecutedCommandEvent {
+	command: string
+	arguments: unknown[]
+}
+
+let onCommandCallback: CommandCallbacks['onCommand'] | null = null
+let onCommandCompleteCallback: CommandCallbacks['onCommandComplete'] | null = null
+let commandEventDisposable: vscode.Disposable | null = null
+
+// Command currently being forwarded, so the command event does not record it twice
+let forwardingCommand: string | null = null
+
+function isIgnoredCommand(command: string): boolean {
+	return IGNORED_COMMAND_PREFIXES.some(prefix => command.startsWith(prefix))
+}
+
+function truncateArgument(text: string): string {
+	return text.length > MAX_ARGUMENT_LENGTH ? `${text.slice(0, MAX_ARGUMENT_LENGTH)}…` : text
+}
+
+/**
+ * Keep only arguments that are safe to record: primitives (truncated) and URIs (as relative paths)
+ * Objects are dropped, they may hold arbitrary editor state
+ */
+function toSafeArgument(arg: unknown): CommandArgument {
+	if (typeof arg === 'string') {
+		return truncateArgument(arg)
+	}
+	if (typeof arg === 'number' || typeof arg === 'boolean') {
+		return arg
+	}
+	if (arg instanceof vscode.Uri) {
+		return vscode.workspace.asRelativePath(arg)
+	}
+	return null
+}
+
+/**
+ * Read the workspace search from the options argument of find in files (a keybinding's args, another extension, ...)
+ * Returns null if the command is no search or has no query: the default keybinding opens the search view, whose
+ * query is not exposed to extensions
+ */
+export function getCommandSearch(command: string, args: unknown[]): CommandSearch | null {
+	const options: unknown = args[0]
+	if (!SEARCH_COMMANDS.has(command) || typeof options !== 'object' || options === null) {
+		return null
+	}
+
+	const fields = options as Record<string, unknown>
+	if (typeof fields.query !== 'string' || fields.query === '') {
+		return null
+	}
+	const readPattern = (value: unknown) => typeof value === 'string' ? truncateArgument(value) : ''
+	return {
+		query: truncateArgument(fields.query),
+		options: {
+			regex: fields.isRegex === true,
+			caseSensitive: fields.isCaseSensitive === true,
+			wholeWord: fields.matchWholeWord === true,
+			include: readPattern(fields.filesToInclude),
+			exclude: readPattern(fields.filesToExclude),
+		},
+	}
+}
+
+/**
+ * The proposed onDidExecuteCommand event, if the host exposes it
+ * Accessing a proposed API that is not enabled throws
+ */
+function getCommandEvent(): vscode.Event<ExecutedCommandEvent> | null {
+	try {
+		const event = (vscode.commands as { onDidExecuteCommand?: vscode.Event<ExecutedCommandEvent> }).onDidExecuteCommand
+		return typeof event === 'function' ? event : null
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Record a command invoked through one of the contributed keybindings and execute it
+ */
+export async function forwardCommand(options?: { command?: string, args?: unknown[] }): Promise<unknown> {
+	const command = options?.command
+	if (!command) {
+		return undefined
+	}
+	const args = options.args ?? []
+
+	onCommandCallback?.(command, args.map(toSafeArgument), 'keybinding', getCommandSearch(command, args))
+
+	forwardingCommand = command
+	try {
+		return await vscode.commands.executeCommand(command, ...args)
+	} finally {
+		forwardingCommand = null
+		onCommandCompleteCallback?.(command)
+	}
+}
+
+/**
+ * Enable or disable the contributed keybindings, so core keys are only rebound while recording
+ */
+export function setRecordingContext(isRecording: boolean): void {
+	void vscode.commands.executeCommand('setContext', RECORDING_CONTEXT_KEY, isRecording)
+}
+
+/**
+ * Initialize the command capture module
+ */
+export function initializeCommandCapture(context: vscode.ExtensionContext, callbacks: CommandCallbacks): void {
+	onCommandCallback = callbacks.onCommand
+	onCommandCompleteCallback = callbacks.onCommandComplete
+
+	if (commandEventDisposable) {
+		return
+	}
+
+	const onDidExecuteCommand = getCommandEvent()
+	if (!onDidExecuteCommand) {
+		return
+	}
+
+	commandEventDisposable = onDidExecuteCommand((event) => {
+		if (event.command === forwardingCommand || isIgnoredCommand(event.command)) {
+			return
+		}
+		const args = event.arguments ?? []
+		onCommandCallback?.(event.command, args.map(toSafeArgument), 'unknown', getCommandSearch(event.command, args))
+	})
+	context.subscriptions.push(commandEventDisposable)
+}
+
+/**
+ * Cleanup the command capture module
+ * The forwarding command stays registered, a keybinding pressed while the recording stops still runs its command
+ */
+export function cleanupCommandCapture(): void {
+	if (commandEventDisposable) {
+		commandEventDisposable.dispose()
+		commandEventDisposable = null
+	}
+	onCommandCallback = null
+	onCommandCompleteCallback = null
+	forwardingCommand = null
+}
@@ -0,0 +1,53 @@
+/**
+ * Cursor Capture Module
+ * Groups the changes of multi-cursor edits by cursor and describes the selections of multiple cursors
+ */
+
+import * as vscode from 'vscode'
+import type { SelectionRange } from '../types'
+
+export interface CursorChange {
+	change: vscode.TextDocumentContentChangeEvent
+	// Index of the cursor (in the selections, primary first) that made the change
+	cursorIndex?: number
+}
+
+/**
+ * Index of the cursor a change was made at: the first cursor whose selection touches the changed range
+ */
+export function findCursorIndex(selections: readonly vscode.Selection[], range: vscode.Range): number | undefined {
+	const cursorIndex = selections.findIndex((selection) => selection.intersection(range) !== undefined)
+	return cursorIndex === -1 ? undefined : cursorIndex
+}
+
+/**
+ * Order the changes of a multi-cursor edit by cursor, null if the changes are not a multi-cursor edit
+ * The selections are the editor's when the text document change fires, which are still the selections before the edit
+ * Changes of one edit are all relative to the document before it, in descending offset order they apply one after another
+ */
+export function groupCursorChanges(
+	changes: readonly vscode.TextDocumentContentChangeEvent[],
+	selections: readonly vscode.Selection[]
+): CursorChange[] | null {
+	if (changes.length < 2 || selections.length < 2) {
+		return null
+	}
+
+	return [...changes]
+		.sort((a, b) => b.rangeOffset - a.rangeOffset)
+		.map((change) => {
+			const cursorIndex = findCursorIndex(selections, change.range)
+			return cursorIndex === undefined ? { change } : { change, cursorIndex }
+		})
+}
+
+/**
+ * All selections with their text, primary first
+ */
+export function describeSelections(document: vscode.TextDocument, selections: readonly vscode.Selection[]): SelectionRange[] {
+	return selections.map((selection) => ({
+		start: { line: selection.start.line, character: selection.start.character },
+		end: { line: selection.end.line, character: selection.end.character },
+		selectedText: document.getText(selection),
+	}))
+}
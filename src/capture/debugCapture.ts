@@ -0,0 +1,377 @@
+/**
+ * Debug Capture Module
+ * Captures debug sessions, breakpoints, stepping and the paused state (call stack, variables, watches)
+ * Stepping and paused state are read from the Debug Adapter Protocol traffic of each session
+ */
+
+import * as vscode from 'vscode'
+import type {
+	DebugObservation,
+	DebugScope,
+	DebugStackFrame,
+	DebugStepKind,
+	DebugVariable,
+	BreakpointAction,
+} from '../types'
+
+const MAX_STACK_FRAMES = 20
+const MAX_VARIABLES_PER_SCOPE = 50
+const MAX_VALUE_LENGTH = 200
+
+// DAP request commands that correspond to stepping actions
+const STEP_COMMANDS: Record<string, DebugStepKind> = {
+	next: 'step_over',
+	stepIn: 'step_into',
+	stepOut: 'step_out',
+	continue: 'continue',
+	pause: 'pause',
+}
+
+export interface DebugSessionInfo {
+	id: string
+	name: string
+	type: string
+}
+
+export type BreakpointInfo = Omit<BreakpointAction, 'kind' | 'source' | 'change'>
+
+export interface DebugCallbacks {
+	onSessionChange: (change: 'start' | 'stop', session: DebugSessionInfo) => void
+	onBreakpointChange: (change: BreakpointAction['change'], breakpoint: BreakpointInfo) => void
+	onStep: (step: DebugStepKind, sessionId: string) => void
+	onStackFrameSelect: (sessionId: string, threadId: number, frame: DebugStackFrame) => void
+	// Called once the paused state has been read after the debuggee stopped
+	onPaused: () => void
+}
+
+interface SessionState {
+	session: vscode.DebugSession
+	observation: DebugObservation
+	// Frame IDs of the call stack, parallel to observation.callStack
+	frameIds: number[]
+	selectedFrameId: number | null
+	// Latest value of each watch expression
+	watches: Map<string, string>
+	// Pending watch evaluate requests (request seq -> expression)
+	pendingWatchRequests: Map<number, string>
+	refresh: Promise<void> | null
+}
+
+const sessionStates = new Map<string, SessionState>()
+const breakpointEnabled = new Map<string, boolean>()
+
+let callbacks: DebugCallbacks | null = null
+let disposables: vscode.Disposable[] = []
+
+function truncate(value: string): string {
+	return value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}…` : value
+}
+
+function getSessionState(session: vscode.DebugSession): SessionState {
+	let state = sessionStates.get(session.id)
+	if (!state) {
+		state = {
+			session,
+			observation: {
+				sessionId: session.id,
+				sessionName: session.name,
+				pausedLocation: null,
+				stopReason: null,
+				callStack: [],
+				scopes: [],
+				watches: [],
+			},
+			frameIds: [],
+			selectedFrameId: null,
+			watches: new Map(),
+			pendingWatchRequests: new Map(),
+			refresh: null,
+		}
+		sessionStates.set(session.id, state)
+	}
+	return state
+}
+
+function toBreakpointInfo(breakpoint: vscode.Breakpoint): BreakpointInfo {
+	const location = breakpoint instanceof vscode.SourceBreakpoint ? breakpoint.location : null
+	return {
+		enabled: breakpoint.enabled,
+		file: location ? vscode.workspace.asRelativePath(location.uri) : null,
+		line: location ? location.range.start.line + 1 : null,
+		functionName: breakpoint instanceof vscode.FunctionBreakpoint ? breakpoint.functionName : null,
+		condition: breakpoint.condition ?? null,
+	}
+}
+
+/**
+ * Read the variables of the given frame's (inexpensive) scopes, as shown in the Variables view
+ */
+async function readScopes(session: vscode.DebugSession, frameId: number): Promise<DebugScope[]> {
+	const { scopes } = await session.customRequest('scopes', { frameId })
+	const result: DebugScope[] = []
+
+	for (const scope of scopes ?? []) {
+		if (scope.expensive) {
+			result.push({ name: scope.name, variables: [] })
+			continue
+		}
+		const { variables } = await session.customRequest('variables', {
+			variablesReference: scope.variablesReference,
+			count: MAX_VARIABLES_PER_SCOPE,
+		})
+		result.push({
+			name: scope.name,
+			variables: (variables ?? []).slice(0, MAX_VARIABLES_PER_SCOPE).map((variable: { name: string, value: string, type?: string }): DebugVariable => ({
+				name: variable.name,
+				value: truncate(variable.value),
+				type: variable.type ?? null,
+			})),
+		})
+	}
+
+	return result
+}
+
+/**
+ * Read the call stack and the top frame's variables after the debuggee stopped
+ */
+async function refreshPausedState(state: SessionState, threadId: number | undefined, reason: string): Promise<void> {
+	const { stackFrames } = await state.session.customRequest('stackTrace', {
+		threadId,
+		startFrame: 0,
+		levels: MAX_STACK_FRAMES,
+	})
+
+	const frames: { id: number, name: string, line: number, column: number, source?: { path?: string, name?: string } }[] = stackFrames ?? []
+	state.frameIds = frames.map(frame => frame.id)
+	state.observation.callStack = frames.map(frame => ({
+		name: frame.name,
+		file: frame.source?.path
+			? vscode.workspace.asRelativePath(frame.source.path)
+			: frame.source?.name ?? null,
+		line: frame.line,
+		column: frame.column,
+	}))
+	state.observation.pausedLocation = state.observation.callStack[0] ?? null
+	state.observation.stopReason = reason
+	state.selectedFrameId = state.frameIds[0] ?? null
+	state.observation.scopes = state.selectedFrameId !== null
+		? await readScopes(state.session, state.selectedFrameId)
+		: []
+}
+
+function clearPausedState(state: SessionState): void {
+	state.observation.pausedLocation = null
+	state.observation.stopReason = null
+	state.observation.callStack = []
+	state.observation.scopes = []
+	state.frameIds = []
+	state.selectedFrameId = null
+}
+
+/**
+ * Handle a DAP message sent from the editor to the debug adapter
+ */
+function handleRequest(state: SessionState, message: { seq: number, command: string, arguments?: { context?: string, expression?: string } }): void {
+	const step = STEP_COMMANDS[message.command]
+	if (step) {
+		callbacks?.onStep(step, state.session.id)
+		return
+	}
+	if (message.command === 'evaluate' && message.arguments?.context === 'watch' && message.arguments.expression) {
+		state.pendingWatchRequests.set(message.seq, message.arguments.expression)
+	}
+}
+
+/**
+ * Read a property of a DAP message body, whose shape depends on the message and is not checked by the editor
+ */
+export function getBodyProperty(body: unknown, key: string): unknown {
+	return typeof body === 'object' && body !== null ? (body as Record<string, unknown>)[key] : undefined
+}
+
+/**
+ * Handle a DAP message sent from the debug adapter to the editor
+ */
+function handleAdapterMessage(
+	state: SessionState,
+	message: { type: string, event?: string, body?: unknown, request_seq?: number, success?: boolean, message?: string }
+): void {
+	if (message.type === 'response' && message.request_seq !== undefined) {
+		const expression = state.pendingWatchRequests.get(message.request_seq)
+		if (expression !== undefined) {
+			state.pendingWatchRequests.delete(message.request_seq)
+			const result = getBodyProperty(message.body, 'result')
+			const value = message.success ? String(result ?? '') : message.message ?? 'not available'
+			state.watches.set(expression, truncate(value))
+			state.observation.watches = [...state.watches].map(([watchExpression, watchValue]) => ({
+				expression: watchExpression,
+				value: watchValue,
+			}))
+		}
+		return
+	}
+
+	if (message.type !== 'event') {
+		return
+	}
+
+	if (message.event === 'stopped') {
+		const threadId = getBodyProperty(message.body, 'threadId')
+		const reason = getBodyProperty(message.body, 'reason')
+		const refresh = refreshPausedState(
+			state,
+			typeof threadId === 'number' ? threadId : undefined,
+			typeof reason === 'string' ? reason : 'unknown'
+		)
+			.then(() => callbacks?.onPaused())
+			.catch(() => {
+				// The session may have resumed or ended while reading the paused state
+			})
+			.finally(() => {
+				if (state.refresh === refresh) {
+					state.refresh = null
+				}
+			})
+		state.refresh = refresh
+	} else if (message.event === 'continued') {
+		clearPausedState(state)
+	}
+}
+
+/**
+ * Handle the user selecting a different stack frame in the Call Stack view
+ */
+async function handleActiveStackItemChange(item: vscode.DebugThread | vscode.DebugStackFrame | undefined): Promise<void> {
+	if (!(item instanceof vscode.DebugStackFrame)) {
+		return
+	}
+	const state = sessionStates.get(item.session.id)
+	if (!state) {
+		return
+	}
+
+	// The editor focuses the top frame itself when stopping, wait for the paused state first
+	await state.refresh
+	if (item.frameId === state.selectedFrameId) {
+		return
+	}
+
+	const frameIndex = state.frameIds.indexOf(item.frameId)
+	if (frameIndex === -1) {
+		return
+	}
+
+	state.selectedFrameId = item.frameId
+	try {
+		state.observation.scopes = await readScopes(state.session, item.frameId)
+	} catch {
+		state.observation.scopes = []
+	}
+	callbacks?.onStackFrameSelect(state.session.id, item.threadId, state.observation.callStack[frameIndex])
+}
+
+function handleBreakpointsChange(event: vscode.BreakpointsChangeEvent): void {
+	for (const breakpoint of event.added) {
+		breakpointEnabled.set(breakpoint.id, breakpoint.enabled)
+		callbacks?.onBreakpointChange('add', toBreakpointInfo(breakpoint))
+	}
+	for (const breakpoint of event.removed) {
+		breakpointEnabled.delete(breakpoint.id)
+		callbacks?.onBreakpointChange('remove', toBreakpointInfo(breakpoint))
+	}
+	for (const breakpoint of event.changed) {
+		// Changes also fire when breakpoints are verified or edited, only report enabling/disabling
+		if (breakpointEnabled.get(breakpoint.id) === breakpoint.enabled) {
+			continue
+		}
+		breakpointEnabled.set(breakpoint.id, breakpoint.enabled)
+		callbacks?.onBreakpointChange('toggle', toBreakpointInfo(breakpoint))
+	}
+}
+
+/**
+ * Track the DAP messages of a debug session, for stepping and the paused state
+ */
+export function createDebugAdapterTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker {
+	const state = getSessionState(session)
+	return {
+		onWillReceiveMessage: (message) => {
+			if (message?.type === 'request') {
+				handleRequest(state, message)
+			}
+		},
+		onDidSendMessage: (message) => handleAdapterMessage(state, message),
+	}
+}
+
+/**
+ * Get the state of a debug session, as shown in the debug views
+ * Returns null if the session is not tracked
+ */
+export function getSessionObservation(sessionId: string): DebugObservation | null {
+	const state = sessionStates.get(sessionId)
+	if (!state) {
+		return null
+	}
+	return {
+		...state.observation,
+		callStack: [...state.observation.callStack],
+		scopes: [...state.observation.scopes],
+		watches: [...state.observation.watches],
+	}
+}
+
+/**
+ * Get the state of the active debug session, as shown in the debug views
+ * Returns null if no debug session is active
+ */
+export function getDebugObservation(): DebugObservation | null {
+	const session = vscode.debug.activeDebugSession
+	return session ? getSessionObservation(session.id) : null
+}
+
+/**
+ * Initialize the debug capture module
+ */
+export function initializeDebugCapture(context: vscode.ExtensionContext, debugCallbacks: DebugCallbacks): void {
+	callbacks = debugCallbacks
+
+	if (disposables.length > 0) {
+		return
+	}
+
+	disposables = [
+		vscode.debug.onDidStartDebugSession((session) => {
+			getSessionState(session)
+			callbacks?.onSessionChange('start', { id: session.id, name: session.name, type: session.type })
+		}),
+		vscode.debug.onDidTerminateDebugSession((session) => {
+			sessionStates.delete(session.id)
+			callbacks?.onSessionChange('stop', { id: session.id, name: session.name, type: session.type })
+		}),
+		vscode.debug.onDidChangeBreakpoints(handleBreakpointsChange),
+		vscode.debug.onDidChangeActiveStackItem((item) => {
+			void handleActiveStackItemChange(item)
+		}),
+		vscode.debug.registerDebugAdapterTrackerFactory('*', { createDebugAdapterTracker }),
+	]
+	context.subscriptions.push(...disposables)
+
+	for (const breakpoint of vscode.debug.breakpoints) {
+		breakpointEnabled.set(breakpoint.id, breakpoint.enabled)
+	}
+}
+
+/**
+ * Cleanup the debug capture module
+ */
+export function cleanupDebugCapture(): void {
+	for (const disposable of disposables) {
+		disposable.dispose()
+	}
+	disposables = []
+	callbacks = null
+	sessionStates.clear()
+	breakpointEnabled.clear()
+}
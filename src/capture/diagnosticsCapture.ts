@@ -0,0 +1,127 @@
+/**
+ * Diagnostics Capture Module
+ * Captures the diagnostics (errors, warnings, ...) shown as squiggles in the visible ranges of the active and all visible editors
+ */
+
+import * as vscode from 'vscode'
+import type { DiagnosticSeverity, DiagnosticState } from '../types'
+
+const MAX_DIAGNOSTICS = 50
+
+const SEVERITIES: Record<vscode.DiagnosticSeverity, DiagnosticSeverity> = {
+	[vscode.DiagnosticSeverity.Error]: 'error',
+	[vscode.DiagnosticSeverity.Warning]: 'warning',
+	[vscode.DiagnosticSeverity.Information]: 'information',
+	[vscode.DiagnosticSeverity.Hint]: 'hint',
+}
+
+// Diagnostics of the visible editors at the last observation, to report only changes of what is visible
+let lastDiagnosticsKey = '[]'
+
+let onChangeCallback: (() => void) | null = null
+let diagnosticsDisposable: vscode.Disposable | null = null
+
+function getDiagnosticCode(diagnostic: vscode.Diagnostic): string | null {
+	if (diagnostic.code === undefined) {
+		return null
+	}
+	return String(typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code)
+}
+
+/**
+ * Capture the diagnostics intersecting the visible ranges of an editor, most severe first
+ */
+export function getEditorDiagnostics(editor: vscode.TextEditor): DiagnosticState[] {
+	const visibleRanges = editor.visibleRanges
+	return vscode.languages.getDiagnostics(editor.document.uri)
+		.filter((diagnostic) => visibleRanges.some((range) => range.intersection(diagnostic.range) !== undefined))
+		.sort((a, b) => a.severity - b.severity || a.range.start.compareTo(b.range.start))
+		.slice(0, MAX_DIAGNOSTICS)
+		.map((diagnostic) => ({
+			severity: SEVERITIES[diagnostic.severity],
+			message: diagnostic.message,
+			source: diagnostic.source ?? null,
+			code: getDiagnosticCode(diagnostic),
+			start: { line: diagnostic.range.start.line, character: diagnostic.range.start.character },
+			end: { line: diagnostic.range.end.line, character: diagnostic.range.end.character },
+		}))
+}
+
+/**
+ * Key of a list of diagnostics that ignores their ranges
+ * Edits above a diagnostic shift its range without changing what is shown
+ */
+export function getDiagnosticsKey(diagnostics: DiagnosticState[]): string {
+	return JSON.stringify(diagnostics
+		.map((diagnostic) => [diagnostic.severity, diagnostic.source, diagnostic.code, diagnostic.message].join('\n'))
+		.sort())
+}
+
+function getVisibleDiagnosticsKey(): string {
+	return JSON.stringify(vscode.window.visibleTextEditors.map((editor) => [
+		editor.document.uri.toString(),
+		getDiagnosticsKey(getEditorDiagnostics(editor)),
+	]))
+}
+
+/**
+ * Capture the diagnostics intersecting the visible ranges of the active editor, most severe first
+ */
+export function getVisibleDiagnostics(): DiagnosticState[] {
+	lastDiagnosticsKey = getVisibleDiagnosticsKey()
+	const editor = vscode.window.activeTextEditor
+	return editor ? getEditorDiagnostics(editor) : []
+}
+
+function handleDiagnosticsChange(event: vscode.DiagnosticChangeEvent): void {
+	if (!onChangeCallback) {
+		return
+	}
+	const changed = new Set(event.uris.map((uri) => uri.toString()))
+	if (!vscode.window.visibleTextEditors.some((editor) => changed.has(editor.document.uri.toString()))) {
+		return
+	}
+
+	// Diagnostics outside the visible range change often (e.g. while typing) and are not observed, neither are
+	// diagnostics that only moved with the text
+	if (getVisibleDiagnosticsKey() === lastDiagnosticsKey) {
+		return
+	}
+	onChangeCallback()
+}
+
+/**
+ * Initialize the diagnostics capture module
+ */
+export function initializeDiagnosticsCapture(
+	context: vscode.ExtensionContext,
+	onVisibleDiagnosticsChange: () => void
+): void {
+	onChangeCallback = onVisibleDiagnosticsChange
+
+	if (diagnosticsDisposable) {
+		return
+	}
+
+	diagnosticsDisposable = vscode.languages.onDidChangeDiagnostics(handleDiagnosticsChange)
+	context.subscriptions.push(diagnosticsDisposable)
+}
+
+/**
+ * Cleanup the diagnostics capture module
+ */
+export function cleanupDiagnosticsCapture(): void {
+	if (diagnosticsDisposable) {
+		diagnosticsDisposable.dispose()
+		diagnosticsDisposable = null
+	}
+	onChangeCallback = null
+	resetDiagnosticsState()
+}
+
+/**
+ * Reset diagnostics state (useful when starting a new recording)
+ */
+export function resetDiagnosticsState(): void {
+	lastDiagnosticsKey = '[]'
+}
@@ -8,79 +8,96 @@ import * as fs from 'node:fs'
 import * as path from 'node:path'
 import ignore, { type Ignore } from 'ignore'
 import { LRUCache } from 'lru-cache'
+import { findInnermostFolder, logToOutput } from '../utilities'
 
 // Configuration
-const MAX_CACHE_SIZE = 5000
+const MAX_CACHE_SIZE = 5000 // Per workspace folder
 const MAX_FILE_SIZE_BYTES = 100 * 1024 // 100KB
 
 export type FileChangeCallback = (
 	file: string,
 	changeType: 'create' | 'change' | 'delete',
 	oldContent: string | null,
-	newContent: string | null
+	newContent: string | null,
+	workspaceFolder: string
 ) => void | Promise<void>
 
 let fileChangeCallback!: FileChangeCallback
 
-let gitignoreMatcher: Ignore | null = null
-let workspaceRoot: string | null = null
-let workspaceFolder: vscode.WorkspaceFolder | null = null
+/**
+ * Per workspace folder state: each folder has its own gitignore matcher,
+ * file cache partition and filesystem watcher
+ */
+interface FolderState {
+	folder: vscode.WorkspaceFolder
+	gitignoreMatcher: Ignore
+	// File content cache for diff computation (using lru-cache)
+	fileCache: LRUCache<string, string>
+	fileWatcher: vscode.FileSystemWatcher
+}
 
-// File content cache for diff computation (using lru-cache)
-const fileCache = new LRUCache<string, string>({ max: MAX_CACHE_SIZE })
+// Keyed by workspace folder URI
+const folderStates = new Map<string, FolderState>()
 
-// Filesystem watcher
-let fileWatcher: vscode.FileSystemWatcher | null = null
+let workspaceFoldersDisposable: vscode.Disposable | null = null
 
 /**
- * Check if a file path should be excluded from watching
+ * Get the state of the watched workspace folder containing a file, the innermost one for nested folders
  */
-function isExcluded(filePath: string): boolean {
-	if (!workspaceRoot || !gitignoreMatcher) {
-		return false
+function getFolderState(filePath: string): FolderState | undefined {
+	const folder = findInnermostFolder([...folderStates.values()].map((state) => state.folder), filePath)
+	if (!folder) {
+		return undefined
 	}
+	return folderStates.get(folder.uri.toString())
+}
 
-	const relativePath = path.relative(workspaceRoot, filePath).replace(/\\/g, '/')
-	return gitignoreMatcher.ignores(relativePath)
+/**
+ * Get the watched workspace folder a file belongs to
+ */
+export function getWatchedFolder(filePath: string): vscode.WorkspaceFolder | undefined {
+	return getFolderState(filePath)?.folder
 }
 
 /**
- * Load gitignore patterns from workspace
+ * Check if a file path should be excluded from watching
  */
-function loadGitignore(): void {
-	const folder = vscode.workspace.workspaceFolders?.[0]
-	if (!folder) {
-		return
+function isExcluded(state: FolderState, filePath: string): boolean {
+	const relativePath = path.relative(state.folder.uri.fsPath, filePath).replace(/\\/g, '/')
+	if (!relativePath || relativePath.startsWith('..')) {
+		return true
 	}
+	return state.gitignoreMatcher.ignores(relativePath)
+}
 
-	workspaceFolder = folder
-	workspaceRoot = folder.uri.fsPath
-	
+/**
+ * Load gitignore patterns from a workspace folder
+ */
+function loadGitignore(folder: vscode.WorkspaceFolder): Ignore {
 	const ig = ignore()
 	ig.add('.git')
 	
 	try {
-		const gitignorePath = path.join(workspaceRoot, '.gitignore')
+		const gitignorePath = path.join(folder.uri.fsPath, '.gitignore')
 		const content = fs.readFileSync(gitignorePath, 'utf-8')
 		ig.add(content)
 	} catch {
 		// .gitignore doesn't exist or can't be read
 	}
 	
-	gitignoreMatcher = ig
+	return ig
 }
 
 /**
  * Check if a file should be tracked (respects VS Code's files.exclude)
  */
-async function shouldTrackFile(filePath: string): Promise<boolean> {
-	if (fileCache.has(filePath)) {return true}
-	if (isExcluded(filePath)) {return false}
-	if (!workspaceRoot || !workspaceFolder) {return false}
+async function shouldTrackFile(state: FolderState, filePath: string): Promise<boolean> {
+	if (state.fileCache.has(filePath)) {return true}
+	if (isExcluded(state, filePath)) {return false}
 	
-	const relativePath = path.relative(workspaceRoot, filePath).replace(/\\/g, '/')
+	const relativePath = path.relative(state.folder.uri.fsPath, filePath).replace(/\\/g, '/')
 	const matches = await vscode.workspace.findFiles(
-		new vscode.RelativePattern(workspaceFolder, relativePath)
+		new vscode.RelativePattern(state.folder, relativePath)
 	)
 	return matches.length > 0
 }
@@ -114,12 +131,16 @@ async function readFileContent(filePath: string): Promise<string | null> {
  * Process a file change event
  */
 async function processFileChange(
+	state: FolderState,
 	filePath: string,
 	changeType: 'create' | 'change' | 'delete'
 ): Promise<void> {
+	const { fileCache } = state
+	const folderName = state.folder.name
+
 	// For new files not in cache, check if we should track them
 	if (!fileCache.has(filePath) && changeType !== 'delete') {
-		const shouldTrack = await shouldTrackFile(filePath)
+		const shouldTrack = await shouldTrackFile(state, filePath)
 		if (!shouldTrack) {
 			return
 		}
@@ -128,7 +149,7 @@ async function processFileChange(
 	if (changeType === 'delete') {
 		const oldContent = fileCache.get(filePath) ?? null
 		fileCache.delete(filePath)
-		fileChangeCallback(filePath, changeType, oldContent, null)
+		fileChangeCallback(filePath, changeType, oldContent, null, folderName)
 		return
 	}
 
@@ -154,30 +175,34 @@ async function processFileChange(
 	}
 
 	fileCache.set(filePath, newContent)
-	fileChangeCallback(filePath, changeType, oldContent, newContent)
+	fileChangeCallback(filePath, changeType, oldContent, newContent, folderName)
 }
 
 /**
- * Handle a file system event
+ * Handle a file system event reported by a folder's watcher
  */
-function handleFileEvent(uri: vscode.Uri, eventType: 'create' | 'change' | 'delete'): void {
+function handleFileEvent(state: FolderState, uri: vscode.Uri, eventType: 'create' | 'change' | 'delete'): void {
 	const filePath = uri.fsPath
 
-	if (isExcluded(filePath)) {
+	// Nested workspace folders: only the innermost folder handles the event
+	if (getFolderState(filePath) !== state || isExcluded(state, filePath)) {
 		return
 	}
 
-	processFileChange(filePath, eventType)
+	processFileChange(state, filePath, eventType)
 }
 
 /**
- * Background initialization: cache all workspace files
+ * Background initialization: cache all files of a workspace folder
  */
-async function initializeCacheBackground(): Promise<void> {
-	const files = await vscode.workspace.findFiles('**/*')
+async function initializeCacheBackground(state: FolderState): Promise<void> {
+	const files = await vscode.workspace.findFiles(new vscode.RelativePattern(state.folder, '**/*'))
 	
 	for (const file of files) {
-		if (isExcluded(file.fsPath)) {continue}
+		// Folder was removed while caching
+		if (folderStates.get(state.folder.uri.toString()) !== state) {return}
+		if (isExcluded(state, file.fsPath)) {continue}
+		if (getFolderState(file.fsPath) !== state) {continue}
 		
 		// Yield to event loop between files to avoid blocking
 		await new Promise(resolve => setImmediate(resolve))
@@ -188,16 +213,72 @@ async function initializeCacheBackground(): Promise<void> {
 			if (!withinLimit) {continue}
 
 			const content = await vscode.workspace.fs.readFile(file)
-			fileCache.set(file.fsPath, content.toString())
+			state.fileCache.set(file.fsPath, content.toString())
 		} catch {
 			// File might have been deleted or is unreadable, ignore
 		}
 	}
 }
 
+/**
+ * Start watching a workspace folder
+ */
+function addWorkspaceFolder(folder: vscode.WorkspaceFolder): FolderState {
+	const key = folder.uri.toString()
+	const existing = folderStates.get(key)
+	if (existing) {
+		existing.gitignoreMatcher = loadGitignore(folder)
+		return existing
+	}
+
+	const state: FolderState = {
+		folder,
+		gitignoreMatcher: loadGitignore(folder),
+		fileCache: new LRUCache<string, string>({ max: MAX_CACHE_SIZE }),
+		fileWatcher: vscode.workspace.createFileSystemWatcher(
+			new vscode.RelativePattern(folder, '**/*')
+		),
+	}
+
+	state.fileWatcher.onDidCreate((uri) => handleFileEvent(state, uri, 'create'))
+	state.fileWatcher.onDidChange((uri) => handleFileEvent(state, uri, 'change'))
+	state.fileWatcher.onDidDelete((uri) => handleFileEvent(state, uri, 'delete'))
+
+	folderStates.set(key, state)
+	return state
+}
+
+/**
+ * Stop watching a workspace folder and drop its cache partition
+ */
+function removeWorkspaceFolder(folder: vscode.WorkspaceFolder): void {
+	const key = folder.uri.toString()
+	const state = folderStates.get(key)
+	if (!state) {
+		return
+	}
+	state.fileWatcher.dispose()
+	state.fileCache.clear()
+	folderStates.delete(key)
+}
+
+/**
+ * Handle workspace folders being added or removed (also while recording)
+ */
+export function handleWorkspaceFoldersChange(event: vscode.WorkspaceFoldersChangeEvent): void {
+	for (const folder of event.removed) {
+		logToOutput(`Workspace folder removed: ${folder.name}`, 'info')
+		removeWorkspaceFolder(folder)
+	}
+	for (const folder of event.added) {
+		logToOutput(`Workspace folder added: ${folder.name}`, 'info')
+		initializeCacheBackground(addWorkspaceFolder(folder))
+	}
+}
+
 
 /**
- * Initialize the filesystem watcher
+ * Initialize the filesystem watcher for all workspace folders
  */
 export async function initializeFilesystemWatcher(
 	context: vscode.ExtensionContext,
@@ -205,52 +286,51 @@ export async function initializeFilesystemWatcher(
 ): Promise<void> {
 	fileChangeCallback = onFileChange
 
-	const folder = vscode.workspace.workspaceFolders?.[0]
-	if (!folder) {
-		return
+	for (const folder of vscode.workspace.workspaceFolders ?? []) {
+		initializeCacheBackground(addWorkspaceFolder(folder))
 	}
 
-	loadGitignore()
-
-	initializeCacheBackground()
-
-	if (fileWatcher) {
+	if (workspaceFoldersDisposable) {
 		return
 	}
 
-	fileWatcher = vscode.workspace.createFileSystemWatcher(
-		new vscode.RelativePattern(folder, '**/*')
-	)
-
-	fileWatcher.onDidCreate((uri) => handleFileEvent(uri, 'create'))
-	fileWatcher.onDidChange((uri) => handleFileEvent(uri, 'change'))
-	fileWatcher.onDidDelete((uri) => handleFileEvent(uri, 'delete'))
-
-	context.subscriptions.push(fileWatcher)
+	workspaceFoldersDisposable = vscode.workspace.onDidChangeWorkspaceFolders(handleWorkspaceFoldersChange)
+	context.subscriptions.push(workspaceFoldersDisposable)
 }
 
 /**
  * Cleanup the filesystem watcher
  */
 export function cleanupFilesystemWatcher(): void {
-	if (fileWatcher) {
-		fileWatcher.dispose()
-		fileWatcher = null
+	for (const state of folderStates.values()) {
+		state.fileWatcher.dispose()
+	}
+	folderStates.clear()
+	if (workspaceFoldersDisposable) {
+		workspaceFoldersDisposable.dispose()
+		workspaceFoldersDisposable = null
 	}
 }
 
 /**
- * Reset the filesystem watcher state (invalidate cache)
+ * Reset the filesystem watcher state (invalidate all cache partitions)
  */
 export function resetFilesystemState(): void {
-	fileCache.clear()
+	for (const state of folderStates.values()) {
+		state.fileCache.clear()
+	}
 }
 
 /**
- * Get a snapshot of the current file cache
+ * Get a snapshot of the current file cache across all workspace folders
  * Returns a new Map to avoid external mutation of the cache
  */
 export function getFileCacheSnapshot(): Map<string, string> {
-	return new Map(fileCache.entries())
+	const snapshot = new Map<string, string>()
+	for (const state of folderStates.values()) {
+		for (const [filePath, content] of state.fileCache.entries()) {
+			snapshot.set(filePath, content)
+		}
+	}
+	return snapshot
 }
-
@@ -6,9 +6,13 @@
 // Viewport capture
 export {
 	captureViewportState,
+	captureVisibleEditors,
 	captureObservation,
+	isCapturedDocument,
 	initializeViewportCapture,
 	cleanupViewportCapture,
+	stopViewportPolling,
+	startViewportPolling,
 	resetObservationState,
 	resetViewportChanged
 } from './viewportCapture'
@@ -16,11 +20,72 @@ export {
 // Terminal capture
 export {
 	getActiveTerminalViewport,
+	getRunningTerminalCommands,
+	matchShellPrompt,
+	applyTerminalScrollCommand,
 	initializeTerminalCapture,
 	cleanupTerminalCapture,
+	stopTerminalPolling,
+	startTerminalPolling,
 	resetTerminalState
 } from './terminalCapture'
-export type { TerminalCallbacks, TerminalViewport } from './terminalCapture'
+export type { TerminalCallbacks, TerminalCommandCompletion, TerminalViewport, RunningTerminalCommand } from './terminalCapture'
+
+// Terminal input capture
+export {
+	initializeTerminalInputCapture,
+	cleanupTerminalInputCapture,
+	resetTerminalInputState
+} from './terminalInputCapture'
+
+// Notebook capture
+export {
+	NOTEBOOK_CELL_SCHEME,
+	findNotebookCell,
+	isOpenNotebook,
+	noteNotebookFileChange,
+	getNotebookReloadSource,
+	getNotebookObservation,
+	initializeNotebookCapture,
+	cleanupNotebookCapture,
+	resetNotebookState
+} from './notebookCapture'
+export type { NotebookCallbacks } from './notebookCapture'
+
+// Diagnostics capture
+export {
+	getVisibleDiagnostics,
+	initializeDiagnosticsCapture,
+	cleanupDiagnosticsCapture,
+	resetDiagnosticsState
+} from './diagnosticsCapture'
+
+// Cursor capture
+export {
+	groupCursorChanges,
+	describeSelections
+} from './cursorCapture'
+export type { CursorChange } from './cursorCapture'
+
+// Navigation capture
+export {
+	getEditorLocation,
+	noteNavigationCommand,
+	takeNavigation,
+	noteCursorMove,
+	resetNavigationState
+} from './navigationCapture'
+export type { NavigationIntent } from './navigationCapture'
+
+// Search capture
+export {
+	SEARCH_EDITOR_SCHEME,
+	parseSearchEditor,
+	initializeSearchCapture,
+	cleanupSearchCapture,
+	resetSearchState
+} from './searchCapture'
+export type { ParsedSearch } from './searchCapture'
 
 // Filesystem watcher
 export {
@@ -30,3 +95,39 @@ export {
 	getFileCacheSnapshot
 } from './filesystemWatcher'
 export type { FileChangeCallback } from './filesystemWatcher'
+
+// Debug capture
+export {
+	getDebugObservation,
+	initializeDebugCapture,
+	cleanupDebugCapture
+} from './debugCapture'
+export type { DebugCallbacks, DebugSessionInfo, BreakpointInfo } from './debugCapture'
+
+// Command capture
+export {
+	RECORD_COMMAND_ID,
+	forwardCommand,
+	setRecordingContext,
+	initializeCommandCapture,
+	cleanupCommandCapture
+} from './commandCapture'
+export type { CommandCallbacks, CommandTrigger } from './commandCapture'
+
+// Inline completion capture
+export {
+	detectInlineCompletion,
+	noteInlineCompletionCommand,
+	initializeInlineCompletionCapture,
+	cleanupInlineCompletionCapture,
+	resetInlineCompletionState
+} from './inlineCompletionCapture'
+export type { InlineCompletionDetection } from './inlineCompletionCapture'
+
+// Refactor capture
+export {
+	noteRefactorCommand,
+	noteRefactorCommandComplete,
+	takeRefactorBatch,
+	resetRefactorState
+} from './refactorCapture'
@@ -0,0 +1,184 @@
+/**
+ * Inline Completion Capture Module
+ * Detects accepted inline completions (ghost text) among document changes in the active editor
+ *
+ * The API does not expose other providers' suggestions, so acceptances are detected from:
+ * - accept commands (when captured), which also tell whether the acceptance was partial (word/line-wise)
+ * - a heuristic: a single large insertion right after a typing pause that is not a paste, a suggest widget completion
+ *   or a snippet
+ */
+
+import * as vscode from 'vscode'
+import type { InlineCompletionAction } from '../types'
+
+// Accept commands -> whether they accept only part of the suggestion
+const ACCEPT_COMMANDS: Record<string, boolean> = {
+	'editor.action.inlineSuggest.commit': false,
+	'editor.action.inlineSuggest.acceptNextWord': true,
+	'editor.action.inlineSuggest.acceptNextLine': true,
+}
+
+// Commands inserting snippets at the cursor, which look like completions to the heuristic
+const SNIPPET_COMMANDS = new Set([
+	'editor.action.insertSnippet',
+	'insertSnippet',
+	'editor.action.showSnippets',
+])
+
+// The insertion following an accept command must arrive within this window
+const ACCEPT_WINDOW_MS = 1000
+// Suggestions show up after the user stops typing, inserts right after typing are not completions
+const TYPING_PAUSE_MS = 250
+// Insertions within this window after a paste are pastes
+const PASTE_WINDOW_MS = 1000
+// The suggest widget stays open while the user browses it, insertions at its position within this window are its completions
+const SUGGEST_WINDOW_MS = 30 * 1000
+// Characters that open the suggest widget without a typed prefix in common languages
+const SUGGEST_TRIGGER_CHARACTERS = ['.', ':', '>', '/', '@', '<', '"', '\'', '`', '#']
+// Minimum number of non-whitespace characters for the heuristic (skips auto-closing and auto-indent)
+const MIN_INSERTED_CHARACTERS = 8
+
+export type InlineCompletionDetection = Pick<InlineCompletionAction, 'partial' | 'detection'>
+
+let lastAccept: { time: number, partial: boolean } | null = null
+let lastSnippetTime = 0
+let lastPasteTime = 0
+// Where the suggest widget was last opened
+let lastSuggest: { document: string, offset: number, time: number } | null = null
+
+// Document URI -> time of its last change
+const lastEditTimes = new Map<string, number>()
+
+let pasteProviderDisposable: vscode.Disposable | null = null
+let completionProviderDisposable: vscode.Disposable | null = null
+
+/**
+ * Note a captured command, remembering inline completion acceptances
+ */
+export function noteInlineCompletionCommand(command: string): void {
+	const partial = ACCEPT_COMMANDS[command]
+	if (partial !== undefined) {
+		lastAccept = { time: Date.now(), partial }
+	} else if (SNIPPET_COMMANDS.has(command)) {
+		lastSnippetTime = Date.now()
+	}
+}
+
+/**
+ * Note that the suggest widget was opened at an offset of a document
+ */
+export function noteSuggestWidget(document: string, offset: number): void {
+	lastSuggest = { document, offset, time: Date.now() }
+}
+
+/**
+ * Check whether a change of the active document is an accepted inline completion
+ * Must be called for every change of the active document, to track typing pauses
+ */
+export function detectInlineCompletion(event: vscode.TextDocumentChangeEvent): InlineCompletionDetection | null {
+	const now = Date.now()
+	const key = event.document.uri.toString()
+	const previousEditTime = lastEditTimes.get(key)
+	lastEditTimes.set(key, now)
+
+	if (event.reason !== undefined || event.contentChanges.length !== 1) {
+		return null
+	}
+	const change = event.contentChanges[0]
+	if (change.text.length === 0) {
+		return null
+	}
+
+	if (lastAccept && now - lastAccept.time <= ACCEPT_WINDOW_MS) {
+		const { partial } = lastAccept
+		lastAccept = null
+		return { partial, detection: 'command' }
+	}
+
+	if (now - lastPasteTime <= PASTE_WINDOW_MS || now - lastSnippetTime <= ACCEPT_WINDOW_MS) {
+		return null
+	}
+	if (previousEditTime !== undefined && now - previousEditTime < TYPING_PAUSE_MS) {
+		return null
+	}
+	// Suggest widget completions and snippets replace the typed prefix, ghost text is inserted at the cursor
+	if (change.rangeLength > 0 || change.text.replace(/\s/g, '').length < MIN_INSERTED_CHARACTERS) {
+		return null
+	}
+	// Without a typed prefix (e.g. after a '.') they are inserted where the suggest widget was opened
+	if (lastSuggest && lastSuggest.document === key && lastSuggest.offset === change.rangeOffset && now - lastSuggest.time <= SUGGEST_WINDOW_MS) {
+		return null
+	}
+
+	return { partial: false, detection: 'heuristic' }
+}
+
+/**
+ * Initialize the inline completion capture module
+ * A completion provider and a paste edit provider (which never provide anything) tell suggest widget completions and
+ * pastes apart from inline completions
+ */
+export function initializeInlineCompletionCapture(context: vscode.ExtensionContext): void {
+	if (completionProviderDisposable) {
+		return
+	}
+
+	completionProviderDisposable = vscode.languages.registerCompletionItemProvider(
+		{ scheme: 'file' },
+		{
+			provideCompletionItems: (document, position) => {
+				// Completions of a typed prefix replace it, only positions without one are needed
+				const word = document.getWordRangeAtPosition(position)
+				if (!word || word.start.isEqual(position)) {
+					noteSuggestWidget(document.uri.toString(), document.offsetAt(position))
+				}
+				return undefined
+			},
+		},
+		...SUGGEST_TRIGGER_CHARACTERS
+	)
+	context.subscriptions.push(completionProviderDisposable)
+
+	// Paste edit providers are only available in newer VS Code versions
+	if (typeof vscode.languages.registerDocumentPasteEditProvider !== 'function') {
+		return
+	}
+
+	pasteProviderDisposable = vscode.languages.registerDocumentPasteEditProvider(
+		{ scheme: 'file' },
+		{
+			provideDocumentPasteEdits: () => {
+				lastPasteTime = Date.now()
+				return undefined
+			},
+		},
+		{ providedPasteEditKinds: [], pasteMimeTypes: ['text/plain'] }
+	)
+	context.subscriptions.push(pasteProviderDisposable)
+}
+
+/**
+ * Cleanup the inline completion capture module
+ */
+export function cleanupInlineCompletionCapture(): void {
+	if (completionProviderDisposable) {
+		completionProviderDisposable.dispose()
+		completionProviderDisposable = null
+	}
+	if (pasteProviderDisposable) {
+		pasteProviderDisposable.dispose()
+		pasteProviderDisposable = null
+	}
+	resetInlineCompletionState()
+}
+
+/**
+ * Reset inline completion state (useful when starting a new recording)
+ */
+export function resetInlineCompletionState(): void {
+	lastAccept = null
+	lastSnippetTime = 0
+	lastPasteTime = 0
+	lastSuggest = null
+	lastEditTimes.clear()
+}
@@ -0,0 +1,101 @@
+/**
+ * Navigation Capture Module
+ * Correlates navigation commands (go to definition, find references, symbol search, quick open, workspace search, back/forward)
+ * with the editor change or cursor jump they cause, so the jump is recorded as a navigation instead of a plain
+ * tab switch or selection
+ */
+
+import type * as vscode from 'vscode'
+import type { NavigationAction, NavigationKind, NavigationLocation } from '../types'
+
+const NAVIGATION_COMMANDS: Record<string, NavigationKind> = {
+	'editor.action.revealDefinition': 'definition',
+	'editor.action.goToDeclaration': 'definition',
+	'editor.action.goToTypeDefinition': 'definition',
+	'editor.action.goToReferences': 'references',
+	'references-view.findReferences': 'references',
+	'editor.action.goToImplementation': 'implementation',
+	'workbench.action.gotoSymbol': 'symbol',
+	'workbench.action.showAllSymbols': 'symbol',
+	'workbench.action.quickOpen': 'quick-open',
+	'workbench.action.findInFiles': 'search',
+	'workbench.action.navigateBack': 'back',
+	'workbench.action.navigateForward': 'forward',
+}
+
+// Closing a picker without a choice (Escape)
+const CANCEL_COMMANDS = new Set(['workbench.action.closeQuickOpen'])
+
+// Jumps must follow the command within this window: direct jumps wait for the language server,
+// pickers (references, symbols, quick open, search) for the user's choice
+const JUMP_WINDOW_MS = 5 * 1000
+const PICK_WINDOW_MS = 30 * 1000
+const PICKER_KINDS = new Set<NavigationKind>(['references', 'symbol', 'quick-open', 'search'])
+
+export type NavigationIntent = Pick<NavigationAction, 'navigation' | 'command' | 'from'>
+
+let pendingNavigation: (NavigationIntent & { time: number }) | null = null
+
+/**
+ * The active file and cursor position of an editor
+ */
+export function getEditorLocation(file: string, editor: vscode.TextEditor): NavigationLocation {
+	const position = editor.selection.active
+	return { file, position: { line: position.line, character: position.character } }
+}
+
+/**
+ * Note a captured command, remembering navigation commands and where they were triggered
+ * Navigation commands in a search editor (e.g. go to definition on a result) open a search result
+ */
+export function noteNavigationCommand(command: string, from: NavigationLocation | null, inSearchEditor = false): void {
+	if (CANCEL_COMMANDS.has(command)) {
+		pendingNavigation = null
+		return
+	}
+	const navigation = NAVIGATION_COMMANDS[command]
+	if (navigation !== undefined) {
+		pendingNavigation = { navigation: inSearchEditor ? 'search' : navigation, command, from, time: Date.now() }
+	}
+}
+
+/**
+ * Note a cursor move by keyboard or mouse, cancelling the pending navigation
+ * Navigation commands that found nothing (no definition, a picker closed by clicking elsewhere) are followed by
+ * plain cursor moves, which are not their jump
+ */
+export function noteCursorMove(): void {
+	pendingNavigation = null
+}
+
+/**
+ * Take the pending navigation that led to a new editor location, null if the location was not reached by one
+ */
+export function takeNavigation(to: NavigationLocation): NavigationIntent | null {
+	if (!pendingNavigation) {
+		return null
+	}
+
+	const { time, ...intent } = pendingNavigation
+	const window = PICKER_KINDS.has(intent.navigation) ? PICK_WINDOW_MS : JUMP_WINDOW_MS
+	if (Date.now() - time > window) {
+		pendingNavigation = null
+		return null
+	}
+
+	// Selections that stay at the starting point (e.g. the command focusing the editor) are not the jump
+	const from = intent.from
+	if (from && from.file === to.file && from.position.line === to.position.line && from.position.character === to.position.character) {
+		return null
+	}
+
+	pendingNavigation = null
+	return intent
+}
+
+/**
+ * Reset navigation state (useful when starting a new recording)
+ */
+export function resetNavigationState(): void {
+	pendingNavigation = null
+}
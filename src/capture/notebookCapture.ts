@@ -0,0 +1,303 @@
+/**
+ * Notebook Capture Module
+ * Captures Jupyter notebook structure changes (cell add/delete/move), cell executions with their outputs,
+ * and the visible cells of the active notebook editor
+ * Cell text edits arrive as regular text document changes of vscode-notebook-cell documents
+ */
+
+import * as vscode from 'vscode'
+import type {
+	ActionSource,
+	NotebookCellChangeAction,
+	NotebookCellExecutionAction,
+	NotebookCellKind,
+	NotebookCellOutput,
+	NotebookCellState,
+	NotebookObservation,
+} from '../types'
+
+const MAX_VISIBLE_CELLS = 20
+const MAX_OUTPUTS_PER_CELL = 10
+const MAX_OUTPUT_LENGTH = 2000
+// A change on disk this soon after a save of the notebook is that save
+const SAVE_WINDOW_MS = 2000
+// VS Code reloads a notebook changed on disk once it has read and deserialized the file
+const RELOAD_WINDOW_MS = 5000
+
+export const NOTEBOOK_CELL_SCHEME = 'vscode-notebook-cell'
+
+// Output mime types recorded as text, other outputs (images, widgets) are recorded without content
+const TEXT_OUTPUT_MIME = /^text\/|^application\/(json|vnd\.code\.notebook\.(stdout|stderr|error))$/
+
+export interface NotebookCellStructureChange {
+	change: NotebookCellChangeAction['change']
+	cell: vscode.NotebookCell
+	cellIndex: number
+	// Index before a move
+	previousIndex?: number
+}
+
+export interface NotebookCallbacks {
+	onCellChange: (action: NotebookCellChangeAction) => void
+	onCellExecution: (action: NotebookCellExecutionAction) => void
+}
+
+// Last recorded execution of each cell, to record every execution once
+const recordedExecutions = new WeakMap<vscode.NotebookCell, string>()
+
+// Last save of each open notebook, and the last write of another process with its source, by file path
+const notebookSaves = new Map<string, number>()
+const notebookReloads = new Map<string, { time: number, source: ActionSource }>()
+
+let callbacks: NotebookCallbacks | null = null
+let notebookChangeDisposable: vscode.Disposable | null = null
+let notebookSaveDisposable: vscode.Disposable | null = null
+
+const textDecoder = new TextDecoder()
+
+function getCellKind(cell: vscode.NotebookCell): NotebookCellKind {
+	return cell.kind === vscode.NotebookCellKind.Markup ? 'markdown' : 'code'
+}
+
+function readOutputs(cell: vscode.NotebookCell): NotebookCellOutput[] {
+	return cell.outputs.slice(0, MAX_OUTPUTS_PER_CELL).flatMap((output) => {
+		const item = output.items.find((candidate) => TEXT_OUTPUT_MIME.test(candidate.mime)) ?? output.items[0]
+		if (!item) {
+			return []
+		}
+		const text = TEXT_OUTPUT_MIME.test(item.mime)
+			? textDecoder.decode(item.data).slice(0, MAX_OUTPUT_LENGTH)
+			: null
+		return [{ mime: item.mime, text }]
+	})
+}
+
+function describeCell(cell: vscode.NotebookCell): NotebookCellState {
+	return {
+		index: cell.index,
+		kind: getCellKind(cell),
+		language: cell.document.languageId,
+		content: cell.document.getText(),
+		outputs: readOutputs(cell),
+	}
+}
+
+function getNotebookFile(notebook: vscode.NotebookDocument): string {
+	return vscode.workspace.asRelativePath(notebook.uri.fsPath)
+}
+
+/**
+ * Find the notebook cell of a vscode-notebook-cell document
+ */
+export function findNotebookCell(document: vscode.TextDocument): vscode.NotebookCell | null {
+	for (const notebook of vscode.workspace.notebookDocuments) {
+		const cell = notebook.getCells().find((candidate) => candidate.document === document)
+		if (cell) {
+			return cell
+		}
+	}
+	return null
+}
+
+/**
+ * Whether a file is a notebook open in VS Code, whose changes are recorded as cell events
+ */
+export function isOpenNotebook(file: string): boolean {
+	return vscode.workspace.notebookDocuments.some((notebook) => notebook.uri.fsPath === file)
+}
+
+/**
+ * Note a save of an open notebook, the change on disk that follows it is not a reload
+ */
+export function noteNotebookSave(file: string, now = Date.now()): void {
+	notebookSaves.set(file, now)
+}
+
+/**
+ * Note a change on disk of an open notebook, returns whether it was written by another process (not saved by VS Code)
+ * VS Code reloads the notebook, its cell changes and edits until then are attributed to the writer
+ */
+export function noteNotebookFileChange(file: string, source: ActionSource, now = Date.now()): boolean {
+	const savedAt = notebookSaves.get(file)
+	if (savedAt !== undefined && now - savedAt <= SAVE_WINDOW_MS) {
+		return false
+	}
+	notebookReloads.set(file, { time: now, source })
+	return true
+}
+
+/**
+ * The source of a notebook change that is part of a reload from disk, null for changes made in VS Code
+ * Edits made in VS Code leave the notebook dirty, a reloaded notebook matches the file on disk
+ */
+export function getNotebookReloadSource(notebook: vscode.NotebookDocument, now = Date.now()): ActionSource | null {
+	const file = notebook.uri.fsPath
+	const reload = notebookReloads.get(file)
+	if (!reload) {
+		return null
+	}
+	if (notebook.isDirty || now - reload.time > RELOAD_WINDOW_MS) {
+		notebookReloads.delete(file)
+		return null
+	}
+	return reload.source
+}
+
+/**
+ * Capture the visible cells of the active notebook editor, null if no notebook editor is active
+ */
+export function getNotebookObservation(): NotebookObservation | null {
+	const editor = vscode.window.activeNotebookEditor
+	if (!editor) {
+		return null
+	}
+
+	const notebook = editor.notebook
+	const visibleCells = editor.visibleRanges
+		.flatMap((range) => notebook.getCells(range))
+		.slice(0, MAX_VISIBLE_CELLS)
+		.map(describeCell)
+
+	return {
+		file: getNotebookFile(notebook),
+		activeCell: editor.selection.isEmpty ? null : editor.selection.start,
+		visibleCells,
+	}
+}
+
+/**
+ * Find the cell additions, deletions and moves of notebook content changes
+ * A move is reported as the removal and re-insertion of the same cell object
+ */
+export function getCellStructureChanges(
+	contentChanges: readonly vscode.NotebookDocumentContentChange[]
+): NotebookCellStructureChange[] {
+	const structureChanges: NotebookCellStructureChange[] = []
+	const removedIndexes = new Map<vscode.NotebookCell, number>()
+	for (const change of contentChanges) {
+		change.removedCells.forEach((cell, offset) => removedIndexes.set(cell, change.range.start + offset))
+	}
+
+	for (const change of contentChanges) {
+		for (const cell of change.addedCells) {
+			const previousIndex = removedIndexes.get(cell)
+			if (previousIndex !== undefined) {
+				removedIndexes.delete(cell)
+				structureChanges.push({ change: 'move', cell, cellIndex: cell.index, previousIndex })
+				continue
+			}
+			structureChanges.push({ change: 'add', cell, cellIndex: cell.index })
+		}
+	}
+
+	for (const [cell, cellIndex] of removedIndexes) {
+		structureChanges.push({ change: 'delete', cell, cellIndex })
+	}
+	return structureChanges
+}
+
+/**
+ * Record cell additions, deletions and moves
+ */
+function handleContentChanges(event: vscode.NotebookDocumentChangeEvent): void {
+	if (!callbacks || event.contentChanges.length === 0) {
+		return
+	}
+
+	const file = getNotebookFile(event.notebook)
+	// Reloads from disk are attributed to the writer, structure changes of a notebook that is not focused come from extensions (agents)
+	const source = getNotebookReloadSource(event.notebook)
+		?? (vscode.window.activeNotebookEditor?.notebook === event.notebook ? 'user' : 'agent')
+
+	for (const { change, cell, cellIndex, previousIndex } of getCellStructureChanges(event.contentChanges)) {
+		callbacks.onCellChange({
+			kind: 'notebook_cell_change',
+			source,
+			file,
+			change,
+			cellIndex,
+			...(change === 'move' ? { previousIndex } : { content: cell.document.getText() }),
+			cellKind: getCellKind(cell),
+		})
+	}
+}
+
+/**
+ * Record finished cell executions, once the kernel reports their end time or result
+ */
+function handleCellChanges(event: vscode.NotebookDocumentChangeEvent): void {
+	if (!callbacks) {
+		return
+	}
+
+	for (const change of event.cellChanges) {
+		const summary = change.executionSummary
+		if (!summary || (!summary.timing && summary.success === undefined)) {
+			continue
+		}
+
+		const cell = change.cell
+		const key = `${summary.executionOrder}:${summary.timing?.endTime}:${summary.success}`
+		if (recordedExecutions.get(cell) === key) {
+			continue
+		}
+		recordedExecutions.set(cell, key)
+
+		callbacks.onCellExecution({
+			kind: 'notebook_cell_execution',
+			source: 'user',
+			file: getNotebookFile(event.notebook),
+			cellIndex: cell.index,
+			executionOrder: summary.executionOrder ?? null,
+			success: summary.success ?? null,
+			durationMs: summary.timing ? summary.timing.endTime - summary.timing.startTime : null,
+			outputs: readOutputs(cell),
+		})
+	}
+}
+
+/**
+ * Initialize the notebook capture module
+ */
+export function initializeNotebookCapture(context: vscode.ExtensionContext, notebookCallbacks: NotebookCallbacks): void {
+	callbacks = notebookCallbacks
+
+	if (notebookChangeDisposable) {
+		return
+	}
+
+	notebookSaveDisposable = vscode.workspace.onWillSaveNotebookDocument((event) => {
+		noteNotebookSave(event.notebook.uri.fsPath)
+	})
+	context.subscriptions.push(notebookSaveDisposable)
+
+	notebookChangeDisposable = vscode.workspace.onDidChangeNotebookDocument((event) => {
+		handleContentChanges(event)
+		handleCellChanges(event)
+	})
+	context.subscriptions.push(notebookChangeDisposable)
+}
+
+/**
+ * Cleanup the notebook capture module
+ */
+export function cleanupNotebookCapture(): void {
+	if (notebookChangeDisposable) {
+		notebookChangeDisposable.dispose()
+		notebookChangeDisposable = null
+	}
+	if (notebookSaveDisposable) {
+		notebookSaveDisposable.dispose()
+		notebookSaveDisposable = null
+	}
+	resetNotebookState()
+	callbacks = null
+}
+
+/**
+ * Reset notebook state (useful when starting a new recording)
+ */
+export function resetNotebookState(): void {
+	notebookSaves.clear()
+	notebookReloads.clear()
+}
@@ -0,0 +1,127 @@
+/**
+ * Refactor Capture Module
+ * Groups the edits of user refactors (rename, code actions, format, replace all) into batches, so the edits they apply
+ * to other documents or outside the viewport are recorded as user edits instead of being left to agent attribution
+ *
+ * A batch is open while its command runs (forwarded commands report their completion) and for a short settle time
+ * after, since change events can arrive after the command returned. It only covers the documents changed in the first
+ * burst of changes, which is how a workspace edit is applied; undo/redo and other documents are not part of it
+ */
+
+import type { CommandTrigger } from './commandCapture'
+
+// Commands after which edits in other files or outside the viewport are user refactors, not agent edits
+const REFACTOR_COMMANDS = new Set([
+	'editor.action.rename',
+	'acceptRenameInput',
+	'acceptRenameInputWithPreview',
+	'editor.action.quickFix',
+	'editor.action.codeAction',
+	'editor.action.refactor',
+	'editor.action.sourceAction',
+	'editor.action.organizeImports',
+	'editor.action.fixAll',
+	'editor.action.autoFix',
+	'acceptSelectedCodeAction',
+	'editor.action.formatDocument',
+	'editor.action.formatSelection',
+	'editor.action.replaceAll',
+	'search.action.replaceAll',
+	'search.action.replaceAllInFile',
+	'search.action.replaceAllInFolder',
+])
+
+// Change events of a workspace edit arriving after its command returned
+const SETTLE_MS = 500
+// Commands seen through the command event report no completion, their edits must start within this window
+const UNTRACKED_COMMAND_WINDOW_MS = 2 * 1000
+// All documents of a workspace edit change within this window of its first change
+const WORKSPACE_EDIT_BURST_MS = 100
+
+interface RefactorBatch {
+	id: string
+	// Forwarded refactor commands still running (rename waits for the new name, then applies the edit)
+	running: number
+	// When the batch closes once no command is running
+	closesAt: number
+	// Documents of the workspace edit (URIs), fixed after the burst of its first change
+	documents: Set<string>
+	burstEndsAt: number | null
+}
+
+let batch: RefactorBatch | null = null
+let batchCounter = 0
+
+function isOpen(openBatch: RefactorBatch, now: number): boolean {
+	return openBatch.running > 0 || now <= openBatch.closesAt
+}
+
+/**
+ * Note a captured command, opening a batch for refactor commands
+ * Refactor commands run by another one (accepting the rename input during a rename) start a new workspace edit
+ * within the same batch
+ */
+export function noteRefactorCommand(command: string, trigger: CommandTrigger): void {
+	if (!REFACTOR_COMMANDS.has(command)) {
+		return
+	}
+
+	const now = Date.now()
+	if (!batch || !isOpen(batch, now)) {
+		batch = { id: `refactor-${++batchCounter}`, running: 0, closesAt: 0, documents: new Set(), burstEndsAt: null }
+	}
+	batch.documents.clear()
+	batch.burstEndsAt = null
+	if (trigger === 'keybinding') {
+		batch.running++
+	} else {
+		batch.closesAt = Math.max(batch.closesAt, now + UNTRACKED_COMMAND_WINDOW_MS)
+	}
+}
+
+/**
+ * Note that a forwarded command finished executing
+ */
+export function noteRefactorCommandComplete(command: string): void {
+	if (!batch || !REFACTOR_COMMANDS.has(command) || batch.running === 0) {
+		return
+	}
+	batch.running--
+	batch.closesAt = Math.max(batch.closesAt, Date.now() + SETTLE_MS)
+}
+
+/**
+ * The ID of the open batch a document change belongs to, null if it is not part of a refactor
+ */
+export function takeRefactorBatch(document: string, isUndoRedo: boolean): string | null {
+	const now = Date.now()
+	if (!batch) {
+		return null
+	}
+	if (!isOpen(batch, now)) {
+		batch = null
+		return null
+	}
+	if (isUndoRedo) {
+		return null
+	}
+
+	if (batch.burstEndsAt === null) {
+		batch.burstEndsAt = now + WORKSPACE_EDIT_BURST_MS
+	}
+	if (!batch.documents.has(document)) {
+		if (now > batch.burstEndsAt) {
+			return null
+		}
+		batch.documents.add(document)
+	}
+	return batch.id
+}
+
+/**
+ * Reset refactor state (useful when starting a new recording)
+ */
+export function resetRefactorState(): void {
+	batch = null
+	batchCounter = 0
+}
@@ -0,0 +1,192 @@
+/**
+ * Search Capture Module
+ * Captures workspace searches run in search editors: query, options and the results in view
+ *
+ * The search view does not expose its query or results to extensions, search editors hold both as text:
+ *   # Query: foo
+ *   # Flags: RegExp CaseSensitive
+ *   # Including: src/**
+ *
+ *   2 results - 1 file
+ *
+ *   src/app.ts:
+ *     10: const foo = 1
+ *     11  context line
+ */
+
+import * as vscode from 'vscode'
+import type { SearchAction, SearchOptions, SearchResult } from '../types'
+
+export const SEARCH_EDITOR_SCHEME = 'search-editor'
+
+const MAX_VISIBLE_RESULTS = 50
+// Search editors are rewritten while results stream in
+const SEARCH_SETTLE_MS = 500
+
+const MATCH_LINE = /^\s+(\d+): ?(.*)$/
+const RESULT_COUNT_LINE = /^(\d+) results?\b/
+
+export interface ParsedSearch {
+	query: string
+	options: SearchOptions
+	resultCount: number | null
+	// Matches with the 0-based line they are shown on in the search editor
+	results: (SearchResult & { editorLine: number })[]
+}
+
+let onSearchCallback: ((action: SearchAction) => void) | null = null
+let documentChangeDisposable: vscode.Disposable | null = null
+let visibleRangesDisposable: vscode.Disposable | null = null
+let settleTimeout: NodeJS.Timeout | null = null
+// Query, options and visible results of the last recorded search, to record each search once
+let lastSearchKey: string | null = null
+
+function unescapeQuery(query: string): string {
+	return query.replace(/\\(\\|n)/g, (_, escaped: string) => escaped === 'n' ? '\n' : '\\')
+}
+
+/**
+ * Parse the content of a search editor, null if it holds no query
+ */
+export function parseSearchEditor(text: string): ParsedSearch | null {
+	const lines = text.split('\n')
+	const header = new Map<string, string>()
+	let index = 0
+	for (; index < lines.length && lines[index].startsWith('# '); index++) {
+		const separator = lines[index].indexOf(': ')
+		if (separator !== -1) {
+			header.set(lines[index].slice(2, separator), lines[index].slice(separator + 2))
+		} else {
+			header.set(lines[index].slice(2).replace(/:$/, ''), '')
+		}
+	}
+
+	const query = header.get('Query')
+	if (query === undefined) {
+		return null
+	}
+
+	const flags = (header.get('Flags') ?? '').split(' ')
+	const options: SearchOptions = {
+		regex: flags.includes('RegExp'),
+		caseSensitive: flags.includes('CaseSensitive'),
+		wholeWord: flags.includes('WordMatch'),
+		include: header.get('Including') ?? '',
+		exclude: header.get('Excluding') ?? '',
+	}
+
+	let resultCount: number | null = null
+	let file: string | null = null
+	const results: ParsedSearch['results'] = []
+	for (; index < lines.length; index++) {
+		const line = lines[index]
+		const count = RESULT_COUNT_LINE.exec(line)
+		if (count && resultCount === null) {
+			resultCount = Number(count[1])
+			continue
+		}
+		if (line.length > 0 && !line.startsWith(' ') && line.endsWith(':')) {
+			file = line.slice(0, -1)
+			continue
+		}
+		const match = MATCH_LINE.exec(line)
+		if (match && file !== null) {
+			results.push({ file, line: Number(match[1]), text: match[2], editorLine: index })
+		}
+	}
+
+	return { query: unescapeQuery(query), options, resultCount, results }
+}
+
+function recordSearch(): void {
+	settleTimeout = null
+	const editor = vscode.window.activeTextEditor
+	if (!onSearchCallback || !editor || editor.document.uri.scheme !== SEARCH_EDITOR_SCHEME) {
+		return
+	}
+
+	const search = parseSearchEditor(editor.document.getText())
+	if (!search || search.query.length === 0) {
+		return
+	}
+
+	const visibleResults = search.results
+		.filter((result) => editor.visibleRanges.some((range) => result.editorLine >= range.start.line && result.editorLine <= range.end.line))
+		.slice(0, MAX_VISIBLE_RESULTS)
+		.map(({ file, line, text }) => ({ file, line, text }))
+
+	const action: SearchAction = {
+		kind: 'search',
+		source: 'user',
+		query: search.query,
+		options: search.options,
+		resultCount: search.resultCount,
+		visibleResults,
+	}
+	const key = JSON.stringify(action)
+	if (key === lastSearchKey) {
+		return
+	}
+	lastSearchKey = key
+	onSearchCallback(action)
+}
+
+function scheduleSearch(): void {
+	if (settleTimeout) {
+		clearTimeout(settleTimeout)
+	}
+	settleTimeout = setTimeout(recordSearch, SEARCH_SETTLE_MS)
+}
+
+/**
+ * Initialize the search capture module
+ */
+export function initializeSearchCapture(context: vscode.ExtensionContext, onSearch: (action: SearchAction) => void): void {
+	onSearchCallback = onSearch
+
+	if (documentChangeDisposable) {
+		return
+	}
+
+	documentChangeDisposable = vscode.workspace.onDidChangeTextDocument((event) => {
+		if (event.document.uri.scheme === SEARCH_EDITOR_SCHEME && event.document === vscode.window.activeTextEditor?.document) {
+			scheduleSearch()
+		}
+	})
+	context.subscriptions.push(documentChangeDisposable)
+
+	// Scrolling the results changes which of them are in view
+	visibleRangesDisposable = vscode.window.onDidChangeTextEditorVisibleRanges((event) => {
+		if (event.textEditor.document.uri.scheme === SEARCH_EDITOR_SCHEME && event.textEditor === vscode.window.activeTextEditor) {
+			scheduleSearch()
+		}
+	})
+	context.subscriptions.push(visibleRangesDisposable)
+}
+
+/**
+ * Cleanup the search capture module
+ */
+export function cleanupSearchCapture(): void {
+	if (documentChangeDisposable) {
+		documentChangeDisposable.dispose()
+		documentChangeDisposable = null
+	}
+	if (visibleRangesDisposable) {
+		visibleRangesDisposable.dispose()
+		visibleRangesDisposable = null
+	}
+	onSearchCallback = null
+	resetSearchState()
+}
+
+/**
+ * Reset search state (useful when starting a new recording)
+ */
+export function resetSearchState(): void {
+	if (settleTimeout) {
+		clearTimeout(settleTimeout)
+		settleTimeout = null
+	}
+	lastSearchKey = null
+}
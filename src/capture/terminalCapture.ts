@@ -1,15 +1,84 @@
 /**
  * Terminal Viewport Capture Module
- * Captures the terminal viewport (last ~TERMINAL_VIEWPORT_LINES lines) to simulate human observation
+ * Emulates each terminal's screen and scrollback and captures the visible window (rows and scroll position) to simulate human observation
  */
 
 import * as vscode from 'vscode'
+import * as crypto from 'node:crypto'
+import type { TerminalCommandEndEvent, TerminalViewport } from '../types'
+import { getConfig } from '../utilities'
+import { TerminalEmulator } from './terminalEmulator'
 
-const TERMINAL_VIEWPORT_LINES = 20
+export type { TerminalViewport }
+
+// Used while the host does not report a terminal's dimensions, wide enough not to wrap lines of typical terminals
+const DEFAULT_TERMINAL_ROWS = 20
+const DEFAULT_TERMINAL_COLUMNS = 200
+const DEFAULT_SCROLLBACK_LINES = 1000
 const POLL_INTERVAL_MS = 100 // 10Hz
+// Lines of a command's output kept in its completion digest
+const OUTPUT_TAIL_LINES = 20
+
+// Terminal scroll commands -> lines scrolled up (negative: down), 'page' scrolls by the visible row count
+const SCROLL_COMMANDS: Record<string, number | 'page_up' | 'page_down' | 'top' | 'bottom'> = {
+	'workbench.action.terminal.scrollUp': 1,
+	'workbench.action.terminal.scrollDown': -1,
+	'workbench.action.terminal.scrollUpPage': 'page_up',
+	'workbench.action.terminal.scrollDownPage': 'page_down',
+	'workbench.action.terminal.scrollToTop': 'top',
+	'workbench.action.terminal.scrollToBottom': 'bottom',
+}
+
+interface TerminalState {
+	name: string
+	// Rendered screen and scrollback
+	emulator: TerminalEmulator
+	// Lines scrolled up from the bottom
+	scrollOffset: number
+	// Absolute index after the last line of the previous observation, to report lines scrolled past unobserved
+	lastObservedEnd: number | null
+	// Output is read without shell integration, commands are reconstructed from prompts
+	fallback: boolean
+	// Command reconstructed from a prompt, running until the next prompt
+	fallbackExecution: TrackedExecution | null
+}
 
-const terminalContent = new Map<string, string>()
-const terminalNames = new Map<string, string>()
+// Output digest of a running command, completed once both its output and its end event arrived
+interface TrackedExecution {
+	commandId: string
+	terminalId: string
+	startTime: number
+	hash: crypto.Hash
+	lines: number
+	characters: number
+	// Renders the last lines of the output
+	tail: TerminalEmulator
+	outputRead: boolean
+	// Set by the end event, undefined until then
+	exitCode: number | null | undefined
+	cwd: string | null
+	lowFidelity: boolean
+}
+
+interface TerminalDataWriteEvent {
+	terminal: vscode.Terminal
+	data: string
+}
+
+// Prompts of shells without shell integration, the group captures the command typed after the prompt
+const PROMPT_PATTERNS = [
+	// user@host:~/dir$, user@host ~ % and [user@host dir]$ (bash, zsh, ssh sessions), optionally after a (venv)
+	/^(?:\(\S+\)\s+)?\[?[\w.-]+@[\w.-]+(?:[: ][^\s$#%]*\]?)?\s?[$#%](?:\s+(.*))?$/,
+	/^(?:\(\S+\)\s+)?[$#%](?:\s+(.*))?$/,
+	/^(?:ba|z|k)?sh-[\d.]+[$#](?:\s+(.*))?$/,
+	// PowerShell and cmd.exe
+	/^PS [^>]*>(?:\s+(.*))?$/,
+	/^[A-Za-z]:\\[^>]*>(.*)$/,
+	// starship, pure, oh-my-zsh, ...: the symbol starts the line or follows the working directory (and git branch)
+	/^(?:[~/]\S*(?:\s+on\s+\S+(?:\s\S+)?)?\s+)?[❯➜›λ](?:\s+(.*))?$/,
+]
+
+const terminalStates = new Map<string, TerminalState>()
 
 let terminalIdCounter = 0
 
@@ -17,115 +86,483 @@ const terminalIdMap = new WeakMap<vscode.Terminal, string>()
 
 let activeTerminalId: string | null = null
 
+// Commands whose output is still being read, keyed by terminal ID
+const runningCommands = new Map<string, RunningTerminalCommand>()
+
+const trackedExecutions = new WeakMap<vscode.TerminalShellExecution, TrackedExecution>()
+
+// Output subscriptions of pseudoterminals, keyed by terminal ID
+const pseudoterminalDisposables = new Map<string, vscode.Disposable>()
+let commandCounter = 0
+
 let outputChanging = false
 let terminalViewportChanged = false
 let pollInterval: ReturnType<typeof setInterval> | null = null
+// Polling is stopped while the recording is paused
+let pollingStopped = false
 
 let terminalFocusDisposable: vscode.Disposable | null = null
 let terminalExecutionDisposable: vscode.Disposable | null = null
+let terminalExecutionEndDisposable: vscode.Disposable | null = null
 let terminalCloseDisposable: vscode.Disposable | null = null
+let terminalDataDisposable: vscode.Disposable | null = null
+let shellIntegrationDisposable: vscode.Disposable | null = null
 
 let onViewportObservationCallback: ((viewport: TerminalViewport) => void) | null = null
 
-export interface TerminalViewport {
-	id: string
-	name: string
-	viewport: string[]
+export interface RunningTerminalCommand {
+	terminalId: string
+	terminalName: string
+	command: string
+	startTime: number
 }
 
+export type TerminalCommandCompletion = Omit<TerminalCommandEndEvent, 'sequence' | 'timestamp' | 'type'>
+
 export interface TerminalCallbacks {
 	onFocus: (terminalId: string, terminalName: string) => void
-	onCommand: (terminalId: string, terminalName: string, command: string) => void
+	onCommand: (terminalId: string, terminalName: string, command: string, commandId: string, lowFidelity: boolean) => void
+	onCommandEnd: (completion: TerminalCommandCompletion) => void
 }
 
-let onTerminalFocusCallback: ((terminalId: string, terminalName: string) => void) | null = null
-let onTerminalCommandCallback: ((terminalId: string, terminalName: string, command: string) => void) | null = null
+let onTerminalFocusCallback: TerminalCallbacks['onFocus'] | null = null
+let onTerminalCommandCallback: TerminalCallbacks['onCommand'] | null = null
+let onTerminalCommandEndCallback: TerminalCallbacks['onCommandEnd'] | null = null
+
+function getScrollbackLines(): number {
+	return Math.max(getConfig().get<number>('terminal.scrollbackLines', DEFAULT_SCROLLBACK_LINES), 1)
+}
+
+function createEmulator(rows = DEFAULT_TERMINAL_ROWS, columns = DEFAULT_TERMINAL_COLUMNS): TerminalEmulator {
+	return new TerminalEmulator(rows, columns, getScrollbackLines())
+}
 
 /**
  * Get or create a unique ID for a terminal
  */
-function getTerminalId(terminal: vscode.Terminal): string {
+export function getTerminalId(terminal: vscode.Terminal): string {
 	let id = terminalIdMap.get(terminal)
 	if (!id) {
 		id = `terminal-${++terminalIdCounter}`
 		terminalIdMap.set(terminal, id)
-		terminalNames.set(id, terminal.name)
-		terminalContent.set(id, '')
+		const dimensions = getTerminalDimensions(terminal)
+		terminalStates.set(id, {
+			name: terminal.name,
+			emulator: createEmulator(dimensions?.rows, dimensions?.columns),
+			scrollOffset: 0,
+			lastObservedEnd: null,
+			fallback: false,
+			fallbackExecution: null,
+		})
+		attachPseudoterminal(terminal, id)
 	}
 	return id
 }
 
 /**
- * Extract the terminal viewport
+ * Read the output of pseudoterminals created by extensions in this extension host
+ * These terminals have no shell integration
+ */
+function attachPseudoterminal(terminal: vscode.Terminal, terminalId: string): void {
+	const pty = (terminal.creationOptions as Partial<vscode.ExtensionTerminalOptions>).pty
+	if (!pty || typeof pty.onDidWrite !== 'function') {
+		return
+	}
+	pseudoterminalDisposables.set(terminalId, pty.onDidWrite(data => appendTerminalContent(terminalId, data)))
+}
+
+/**
+ * Get the rendered line holding a terminal's cursor (e.g. a prompt waiting for input)
+ */
+export function getTerminalCurrentLine(terminalId: string): string {
+	const emulator = terminalStates.get(terminalId)?.emulator
+	if (!emulator) {
+		return ''
+	}
+	return emulator.getLines(emulator.cursorLine, emulator.cursorLine + 1)[0]
+}
+
+/**
+ * The onDidWriteTerminalData event, if the host exposes it (proposed API)
+ * Accessing a proposed API that is not enabled throws
+ */
+function getTerminalDataEvent(): vscode.Event<TerminalDataWriteEvent> | null {
+	try {
+		const event = (vscode.window as { onDidWriteTerminalData?: vscode.Event<TerminalDataWriteEvent> }).onDidWriteTerminalData
+		return typeof event === 'function' ? event : null
+	} catch {
+		return null
+	}
+}
+
+/**
+ * A terminal's dimensions, if the host exposes them (Terminal.dimensions is a proposed API)
+ * Accessing a proposed API that is not enabled throws
  */
-function extractViewport(terminalId: string): string[] {
-	const content = terminalContent.get(terminalId)
-	if (!content) {
-		return []
+function getTerminalDimensions(terminal: vscode.Terminal): vscode.TerminalDimensions | null {
+	try {
+		const dimensions = (terminal as { dimensions?: vscode.TerminalDimensions }).dimensions
+		return dimensions && dimensions.rows > 0 && dimensions.columns > 0 ? dimensions : null
+	} catch {
+		return null
 	}
-	const lines = content.split('\n')
-	return lines.slice(-TERMINAL_VIEWPORT_LINES)
 }
 
 /**
- * Get the active terminal's viewport
+ * Resize the active terminal's emulator to the terminal's dimensions, true if they changed
+ */
+function syncActiveTerminalDimensions(): boolean {
+	const terminal = vscode.window.activeTerminal
+	const state = activeTerminalId ? terminalStates.get(activeTerminalId) : undefined
+	const dimensions = terminal && terminalIdMap.get(terminal) === activeTerminalId ? getTerminalDimensions(terminal) : null
+	if (!state || !dimensions || (state.emulator.rows === dimensions.rows && state.emulator.columns === dimensions.columns)) {
+		return false
+	}
+	state.emulator.resize(dimensions.rows, dimensions.columns)
+	return true
+}
+
+/**
+ * Absolute line range [start, end) of the visible window
+ */
+function getVisibleWindow(state: TerminalState): { start: number, end: number } {
+	const { emulator } = state
+	// The alternate screen (vim, less, htop) cannot be scrolled back
+	const offset = emulator.altScreenActive ? 0 : state.scrollOffset
+	const start = Math.max(emulator.firstScreenLine - offset, emulator.firstScrollbackLine)
+	return { start, end: start + emulator.rows }
+}
+
+function getMaxScrollOffset(state: TerminalState): number {
+	return state.emulator.firstScreenLine - state.emulator.firstScrollbackLine
+}
+
+/**
+ * Get the active terminal's visible window
+ * Lines that scrolled past since the previous observation without being visible are included
  * Returns null if no terminal is focused
  */
 export function getActiveTerminalViewport(): TerminalViewport | null {
+	return readActiveTerminalViewport(true)
+}
+
+/**
+ * Read the active terminal's visible window, `observe` marks the visible lines as observed
+ */
+function readActiveTerminalViewport(observe: boolean): TerminalViewport | null {
 	if (!activeTerminalId) {
 		return null
 	}
 
-	const name = terminalNames.get(activeTerminalId)
-	if (name === undefined) {
+	const state = terminalStates.get(activeTerminalId)
+	if (!state) {
 		return null
 	}
 
+	const { emulator } = state
+	const { start, end } = getVisibleWindow(state)
+	const viewport = emulator.getLines(start, end)
+	// Rows below the output are empty
+	while (viewport.length > 0 && viewport[viewport.length - 1] === '') {
+		viewport.pop()
+	}
+
+	let scrolledLines: string[] = []
+	if (!emulator.altScreenActive) {
+		const scrolledStart = state.lastObservedEnd !== null
+			? Math.max(state.lastObservedEnd, emulator.firstScrollbackLine)
+			: start
+		scrolledLines = scrolledStart < start ? emulator.getLines(scrolledStart, start) : []
+		if (observe) {
+			// Lines from the cursor on may still be written to, observe them again next time
+			state.lastObservedEnd = Math.min(end, emulator.cursorLine)
+		}
+	}
+
 	return {
 		id: activeTerminalId,
-		name,
-		viewport: extractViewport(activeTerminalId)
+		name: state.name,
+		viewport,
+		...(getConfig().get<boolean>('terminal.captureStyles', false)
+			? { styles: emulator.getStyles(start, start + viewport.length) }
+			: {}),
+		firstLine: start,
+		rows: emulator.rows,
+		...(scrolledLines.length > 0 ? { scrolledLines } : {}),
+		...(state.fallback ? { lowFidelity: true } : {})
 	}
 }
 
 /**
- * Append content to a terminal's buffer, keeping only the last TERMINAL_VIEWPORT_LINES lines
+ * Get the commands currently running in terminals (e.g. CLI agents)
+ */
+export function getRunningTerminalCommands(): RunningTerminalCommand[] {
+	return [...runningCommands.values()]
+}
+
+/**
+ * Feed raw output (including escape sequences) to a terminal's emulator
+ * At most crowdCode.terminal.scrollbackLines lines are kept in the scrollback
  */
 function appendTerminalContent(terminalId: string, content: string): void {
-	const existing = terminalContent.get(terminalId) ?? ''
-	const combined = existing + content
-	const lines = combined.split('\n')
-	
-	if (lines.length > TERMINAL_VIEWPORT_LINES) {
-		terminalContent.set(terminalId, lines.slice(-TERMINAL_VIEWPORT_LINES).join('\n'))
-	} else {
-		terminalContent.set(terminalId, combined)
+	const state = terminalStates.get(terminalId)
+	if (!state) {
+		return
+	}
+
+	const firstScreenLine = state.emulator.firstScreenLine
+	state.emulator.write(content)
+	// Output does not move a terminal scrolled back by the user
+	if (state.scrollOffset > 0) {
+		const scrolled = state.emulator.firstScreenLine - firstScreenLine
+		state.scrollOffset = Math.min(state.scrollOffset + scrolled, getMaxScrollOffset(state))
 	}
-	
+
 	if (terminalId === activeTerminalId) {
 		terminalViewportChanged = true
 	}
 }
 
+function notifyViewportObservation(): void {
+	if (!onViewportObservationCallback) {
+		return
+	}
+
+	// The observation logged by the callback marks the lines as observed
+	const viewport = readActiveTerminalViewport(false)
+	if (!viewport) {
+		return
+	}
+
+	onViewportObservationCallback(viewport)
+}
+
+function toCwd(cwd: vscode.Uri | undefined): string | null {
+	return cwd ? vscode.workspace.asRelativePath(cwd) : null
+}
+
+function createExecution(terminalId: string, cwd: string | null, lowFidelity: boolean): TrackedExecution {
+	const columns = terminalStates.get(terminalId)?.emulator.columns ?? DEFAULT_TERMINAL_COLUMNS
+	return {
+		commandId: `${terminalId}-command-${++commandCounter}`,
+		terminalId,
+		startTime: Date.now(),
+		hash: crypto.createHash('sha256'),
+		lines: 0,
+		characters: 0,
+		tail: new TerminalEmulator(OUTPUT_TAIL_LINES, columns, 0),
+		outputRead: false,
+		exitCode: undefined,
+		cwd,
+		lowFidelity,
+	}
+}
+
+function trackOutput(execution: TrackedExecution, data: string): void {
+	execution.hash.update(data)
+	execution.characters += data.length
+	execution.lines += data.split('\n').length - 1
+	execution.tail.write(data)
+}
+
+/**
+ * Report a command's completion once its output has been read and its end event arrived
+ */
+function completeExecution(execution: TrackedExecution): void {
+	if (!execution.outputRead || execution.exitCode === undefined) {
+		return
+	}
+
+	const { tail } = execution
+	const output = tail.getLines(tail.firstScreenLine, tail.firstScreenLine + tail.rows)
+	while (output.length > 0 && output[output.length - 1] === '') {
+		output.pop()
+	}
+
+	onTerminalCommandEndCallback?.({
+		commandId: execution.commandId,
+		terminalId: execution.terminalId,
+		exitCode: execution.exitCode,
+		durationMs: Date.now() - execution.startTime,
+		cwd: execution.cwd,
+		output: {
+			lines: execution.lines,
+			characters: execution.characters,
+			sha256: execution.hash.digest('hex'),
+			tail: output,
+		},
+		...(execution.lowFidelity ? { lowFidelity: true } : {}),
+	})
+}
+
+/**
+ * Match a rendered line against the known shell prompts
+ * Returns the command typed after the prompt ('' for a bare prompt), or null if the line is no prompt
+ */
+export function matchShellPrompt(line: string): string | null {
+	for (const pattern of PROMPT_PATTERNS) {
+		const match = pattern.exec(line.trimEnd())
+		if (match) {
+			return (match[1] ?? '').trim()
+		}
+	}
+	return null
+}
+
+function startFallbackCommand(terminal: vscode.Terminal, terminalId: string, state: TerminalState, command: string): void {
+	// Without shell integration the exit code and working directory are unknown
+	const execution = createExecution(terminalId, null, true)
+	state.fallbackExecution = execution
+	runningCommands.set(terminalId, { terminalId, terminalName: terminal.name, command, startTime: execution.startTime })
+	outputChanging = true
+
+	if (onTerminalCommandCallback) {
+		onTerminalCommandCallback(terminalId, terminal.name, command, execution.commandId, true)
+	}
+}
+
+function finishFallbackCommand(state: TerminalState): void {
+	const execution = state.fallbackExecution
+	if (!execution) {
+		return
+	}
+	state.fallbackExecution = null
+	runningCommands.delete(execution.terminalId)
+	outputChanging = false
+
+	execution.outputRead = true
+	execution.exitCode = null
+	completeExecution(execution)
+}
+
+/**
+ * Read output of a terminal without shell integration
+ * A prompt line left by Enter starts a command, which runs until the next bare prompt
+ */
+function handleFallbackData(terminal: vscode.Terminal, terminalId: string, data: string): void {
+	const state = terminalStates.get(terminalId)
+	if (!state) {
+		return
+	}
+	state.fallback = true
+
+	const { emulator } = state
+	const cursorLine = emulator.cursorLine
+	appendTerminalContent(terminalId, data)
+
+	// Output of a running command may look like a prompt, commands only start at an idle prompt
+	if (!state.fallbackExecution && emulator.cursorLine > cursorLine) {
+		const command = matchShellPrompt(emulator.getLines(cursorLine, cursorLine + 1)[0])
+		if (command) {
+			startFallbackCommand(terminal, terminalId, state, command)
+		}
+	}
+	if (state.fallbackExecution) {
+		trackOutput(state.fallbackExecution, data)
+		if (matchShellPrompt(getTerminalCurrentLine(terminalId)) === '') {
+			finishFallbackCommand(state)
+		}
+	}
+}
+
+/**
+ * Note a command line sent to a terminal by an extension (Terminal.sendText)
+ * Without shell integration or terminal data, this is the only trace of the command
+ */
+export function noteTerminalSendText(terminal: vscode.Terminal, text: string): void {
+	if (terminalDataDisposable || terminal.shellIntegration) {
+		return
+	}
+	const id = getTerminalId(terminal)
+	const state = terminalStates.get(id)
+	const command = text.split('\n')[0].trim()
+	if (!state || !command) {
+		return
+	}
+	state.fallback = true
+	if (onTerminalCommandCallback) {
+		onTerminalCommandCallback(id, terminal.name, command, `${id}-command-${++commandCounter}`, true)
+	}
+}
+
 /**
  * Poll handler - captures terminal viewport if changed
  */
 function pollTerminalViewport(): void {
+	// Resizing moves the visible window
+	if (syncActiveTerminalDimensions()) {
+		notifyViewportObservation()
+		return
+	}
 	if (!activeTerminalId || !outputChanging || !terminalViewportChanged) {
 		return
 	}
 	terminalViewportChanged = false
+	notifyViewportObservation()
+}
 
-	if (!onViewportObservationCallback) {
+/**
+ * Stop polling the terminal viewport while the recording is paused
+ * Output is still read, the next poll after startTerminalPolling reports the changed viewport
+ */
+export function stopTerminalPolling(): void {
+	if (!pollInterval) {
 		return
 	}
+	clearInterval(pollInterval)
+	pollInterval = null
+	pollingStopped = true
+}
 
-	const viewport = getActiveTerminalViewport()
-	if (!viewport) {
+/**
+ * Restart polling the terminal viewport
+ */
+export function startTerminalPolling(): void {
+	if (!pollingStopped) {
 		return
 	}
+	pollingStopped = false
+	pollInterval = setInterval(pollTerminalViewport, POLL_INTERVAL_MS)
+}
 
-	onViewportObservationCallback(viewport)
+/**
+ * Apply a captured terminal scroll command to the active terminal's visible window
+ * The command's observation shows the moved window
+ * Returns true if the command was a terminal scroll command
+ */
+export function applyTerminalScrollCommand(command: string): boolean {
+	const scroll = SCROLL_COMMANDS[command]
+	if (scroll === undefined) {
+		return false
+	}
+
+	const state = activeTerminalId ? terminalStates.get(activeTerminalId) : undefined
+	if (!state) {
+		return true
+	}
+
+	const maxOffset = getMaxScrollOffset(state)
+	const rows = state.emulator.rows
+	let offset = state.scrollOffset
+	if (scroll === 'page_up') {
+		offset += rows
+	} else if (scroll === 'page_down') {
+		offset -= rows
+	} else if (scroll === 'top') {
+		offset = maxOffset
+	} else if (scroll === 'bottom') {
+		offset = 0
+	} else {
+		offset += scroll
+	}
+	offset = Math.min(Math.max(offset, 0), maxOffset)
+
+	if (offset !== state.scrollOffset) {
+		state.scrollOffset = offset
+		// Scrolling back is not reading new output, don't report skipped lines
+		state.lastObservedEnd = null
+	}
+	return true
 }
 
 /**
@@ -138,6 +575,7 @@ export function initializeTerminalCapture(
 ): void {
 	onTerminalFocusCallback = callbacks.onFocus
 	onTerminalCommandCallback = callbacks.onCommand
+	onTerminalCommandEndCallback = callbacks.onCommandEnd
 	onViewportObservationCallback = onViewportObservation ?? null
 
 	if (terminalExecutionDisposable) {
@@ -152,7 +590,10 @@ export function initializeTerminalCapture(
 
 		const id = getTerminalId(terminal)
 		const name = terminal.name
-		terminalNames.set(id, name)
+		const state = terminalStates.get(id)
+		if (state) {
+			state.name = name
+		}
 		activeTerminalId = id
 
 		if (onTerminalFocusCallback) {
@@ -167,33 +608,71 @@ export function initializeTerminalCapture(
 		const name = terminal.name
 		const command = event.execution.commandLine.value
 
-		const existing = terminalContent.get(id) ?? ''
-		if (existing.length > 0 && !existing.endsWith('\n')) {
-			appendTerminalContent(id, '\n')
+		const state = terminalStates.get(id)
+		if (state) {
+			// Running a command scrolls the terminal back to the bottom
+			state.scrollOffset = 0
+			if (!state.emulator.cursorAtLineStart) {
+				appendTerminalContent(id, '\r\n')
+			}
+			finishFallbackCommand(state)
+			state.fallback = false
 		}
-		appendTerminalContent(id, `$ ${command}\n`)
+		appendTerminalContent(id, `$ ${command}\r\n`)
+
+		const execution = createExecution(id, toCwd(event.execution.cwd), false)
+		trackedExecutions.set(event.execution, execution)
 
 		if (onTerminalCommandCallback) {
-			onTerminalCommandCallback(id, name, command)
+			onTerminalCommandCallback(id, name, command, execution.commandId, false)
 		}
 
 		outputChanging = true
+		const runningCommand: RunningTerminalCommand = { terminalId: id, terminalName: name, command, startTime: execution.startTime }
+		runningCommands.set(id, runningCommand)
 
-		// Read and append output to terminal viewport
+		// Read output into the emulated screen
 		const stream = event.execution.read()
-		for await (const data of stream) {
-			appendTerminalContent(id, data)
+		try {
+			for await (const data of stream) {
+				appendTerminalContent(id, data)
+				trackOutput(execution, data)
+			}
+		} finally {
+			if (runningCommands.get(id) === runningCommand) {
+				runningCommands.delete(id)
+			}
 		}
 
 		outputChanging = false
+		execution.outputRead = true
+		completeExecution(execution)
 	})
 	context.subscriptions.push(terminalExecutionDisposable)
 
+	terminalExecutionEndDisposable = vscode.window.onDidEndTerminalShellExecution((event) => {
+		const execution = trackedExecutions.get(event.execution)
+		if (!execution) {
+			return
+		}
+		execution.exitCode = event.exitCode ?? null
+		// The working directory may only be known once the command ran (e.g. cd)
+		execution.cwd = toCwd(event.execution.cwd) ?? execution.cwd
+		completeExecution(execution)
+	})
+	context.subscriptions.push(terminalExecutionEndDisposable)
+
 	terminalCloseDisposable = vscode.window.onDidCloseTerminal((terminal) => {
 		const id = terminalIdMap.get(terminal)
 		if (id) {
-			terminalContent.delete(id)
-			terminalNames.delete(id)
+			const state = terminalStates.get(id)
+			if (state) {
+				finishFallbackCommand(state)
+			}
+			terminalStates.delete(id)
+			runningCommands.delete(id)
+			pseudoterminalDisposables.get(id)?.dispose()
+			pseudoterminalDisposables.delete(id)
 			if (activeTerminalId === id) {
 				activeTerminalId = null
 			}
@@ -201,6 +680,29 @@ export function initializeTerminalCapture(
 	})
 	context.subscriptions.push(terminalCloseDisposable)
 
+	shellIntegrationDisposable = vscode.window.onDidChangeTerminalShellIntegration((event) => {
+		const state = terminalStates.get(getTerminalId(event.terminal))
+		if (state) {
+			// Shell integration activated late, e.g. after the first prompt
+			finishFallbackCommand(state)
+			state.fallback = false
+		}
+	})
+	context.subscriptions.push(shellIntegrationDisposable)
+
+	const onDidWriteTerminalData = getTerminalDataEvent()
+	if (onDidWriteTerminalData) {
+		terminalDataDisposable = onDidWriteTerminalData((event) => {
+			const id = getTerminalId(event.terminal)
+			// Shell integration executions and pseudoterminals are read directly
+			if (event.terminal.shellIntegration || pseudoterminalDisposables.has(id)) {
+				return
+			}
+			handleFallbackData(event.terminal, id, event.data)
+		})
+		context.subscriptions.push(terminalDataDisposable)
+	}
+
 	for (const terminal of vscode.window.terminals) {
 		getTerminalId(terminal)
 	}
@@ -209,6 +711,8 @@ export function initializeTerminalCapture(
 		activeTerminalId = getTerminalId(vscode.window.activeTerminal)
 	}
 
+	// A recording stopped while paused left polling stopped
+	pollingStopped = false
 	pollInterval = setInterval(pollTerminalViewport, POLL_INTERVAL_MS)
 }
 
@@ -224,29 +728,50 @@ export function cleanupTerminalCapture(): void {
 		terminalExecutionDisposable.dispose()
 		terminalExecutionDisposable = null
 	}
+	if (terminalExecutionEndDisposable) {
+		terminalExecutionEndDisposable.dispose()
+		terminalExecutionEndDisposable = null
+	}
 	if (terminalCloseDisposable) {
 		terminalCloseDisposable.dispose()
 		terminalCloseDisposable = null
 	}
+	if (terminalDataDisposable) {
+		terminalDataDisposable.dispose()
+		terminalDataDisposable = null
+	}
+	if (shellIntegrationDisposable) {
+		shellIntegrationDisposable.dispose()
+		shellIntegrationDisposable = null
+	}
 	if (pollInterval) {
 		clearInterval(pollInterval)
 		pollInterval = null
 	}
+	pollingStopped = false
 
-	terminalContent.clear()
-	terminalNames.clear()
+	for (const disposable of pseudoterminalDisposables.values()) {
+		disposable.dispose()
+	}
+	pseudoterminalDisposables.clear()
+	terminalStates.clear()
+	runningCommands.clear()
 	activeTerminalId = null
 	outputChanging = false
 	terminalViewportChanged = false
 	terminalIdCounter = 0
+	commandCounter = 0
 }
 
 /**
  * Reset terminal state (useful when starting a new recording)
  */
 export function resetTerminalState(): void {
-	for (const id of terminalContent.keys()) {
-		terminalContent.set(id, '')
+	for (const state of terminalStates.values()) {
+		state.emulator = createEmulator(state.emulator.rows, state.emulator.columns)
+		state.scrollOffset = 0
+		state.lastObservedEnd = null
+		state.fallbackExecution = null
 	}
 	terminalViewportChanged = false
 	outputChanging = false
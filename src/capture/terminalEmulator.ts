@@ -0,0 +1,918 @@
+/**
+ * Terminal Emulator
+ * Headless interpreter of ANSI/VT escape sequences for terminal viewports
+ * Applies cursor movement, erasing, scroll regions, carriage-return overwrites and the alternate screen
+ * to a screen grid, so viewports show what was rendered on screen (vim, less, htop, spinners) instead of raw output
+ *
+ * Only the screen rows are kept as cells, lines that scrolled into the scrollback no longer change and are kept as
+ * text and style runs. Wide characters (CJK, emoji) take two columns and combining characters none
+ */
+
+import type { TerminalColor, TerminalStyle, TerminalStyleRun } from '../types'
+
+const TAB_WIDTH = 8
+
+// DEC special graphics character set (line drawing), selected with ESC ( 0
+const DEC_SPECIAL_GRAPHICS: Record<string, string> = {
+	'`': '◆', 'a': '▒', 'f': '°', 'g': '±', 'j': '┘', 'k': '┐', 'l': '┌', 'm': '└', 'n': '┼', 'o': '⎺',
+	'p': '⎻', 'q': '─', 'r': '⎼', 's': '⎽', 't': '├', 'u': '┤', 'v': '┴', 'w': '┬', 'x': '│', 'y': '≤',
+	'z': '≥', '{': 'π', '|': '≠', '}': '£', '~': '·',
+}
+
+// Alternate screen modes, 1049 also saves and restores the cursor
+const ALT_SCREEN_MODES = new Set([47, 1047, 1049])
+
+const STYLE_KEYS: (keyof TerminalStyle)[] = ['fg', 'bg', 'bold', 'dim', 'italic', 'underline', 'inverse', 'strikethrough']
+
+const DEFAULT_STYLE: TerminalStyle = Object.freeze({})
+
+// East Asian wide and fullwidth characters and emoji, which take two columns
+const WIDE_RANGES: [number, number][] = [
+	[0x1100, 0x115f], [0x231a, 0x231b], [0x23e9, 0x23ec], [0x23f0, 0x23f0], [0x23f3, 0x23f3], [0x2614, 0x2615],
+	[0x26a1, 0x26a1], [0x26d4, 0x26d4], [0x2705, 0x2705], [0x270a, 0x270b], [0x2728, 0x2728], [0x274c, 0x274c],
+	[0x2753, 0x2755], [0x2757, 0x2757], [0x2b50, 0x2b50], [0x2e80, 0x303e], [0x3041, 0x33ff], [0x3400, 0x4dbf],
+	[0x4e00, 0x9fff], [0xa000, 0xa4cf], [0xac00, 0xd7a3], [0xf900, 0xfaff], [0xfe30, 0xfe4f], [0xff00, 0xff60],
+	[0xffe0, 0xffe6], [0x1f300, 0x1f64f], [0x1f680, 0x1f6ff], [0x1f900, 0x1f9ff], [0x1fa70, 0x1faff], [0x20000, 0x3fffd],
+]
+
+// Combining marks, zero-width joiners and variation selectors, which are drawn onto the previous character
+const ZERO_WIDTH_RANGES: [number, number][] = [
+	[0x0300, 0x036f], [0x0483, 0x0489], [0x0591, 0x05bd], [0x0610, 0x061a], [0x064b, 0x065f], [0x0e31, 0x0e31],
+	[0x0e34, 0x0e3a], [0x0e47, 0x0e4e], [0x1ab0, 0x1aff], [0x1dc0, 0x1dff], [0x200b, 0x200f], [0x20d0, 0x20ff],
+	[0x302a, 0x302f], [0x3099, 0x309a], [0xfe00, 0xfe0f], [0xfe20, 0xfe2f], [0xe0100, 0xe01ef],
+]
+
+interface Cell {
+	// Empty for the second column of a wide character
+	char: string
+	style: TerminalStyle
+}
+
+type Line = Cell[]
+
+// A line as rendered, the form scrollback lines are kept in
+interface RenderedLine {
+	text: string
+	styles: TerminalStyleRun[]
+}
+
+interface SavedCursor {
+	row: number
+	column: number
+	style: TerminalStyle
+	lineDrawing: boolean
+}
+
+type ParserState = 'ground' | 'escape' | 'charset' | 'csi' | 'osc' | 'string' | 'stringEscape'
+
+function styleEquals(a: TerminalStyle, b: TerminalStyle): boolean {
+	return a === b || STYLE_KEYS.every(key => a[key] === b[key])
+}
+
+function isBlank(cell: Cell): boolean {
+	return cell.char === ' ' && cell.style === DEFAULT_STYLE
+}
+
+function inRanges(codePoint: number, ranges: [number, number][]): boolean {
+	return ranges.some(([start, end]) => codePoint >= start && codePoint <= end)
+}
+
+/**
+ * Number of columns a character takes on screen (0, 1 or 2)
+ */
+function getCharacterWidth(char: string): number {
+	const codePoint = char.codePointAt(0) ?? 0
+	if (inRanges(codePoint, ZERO_WIDTH_RANGES)) {
+		return 0
+	}
+	return inRanges(codePoint, WIDE_RANGES) ? 2 : 1
+}
+
+/**
+ * Render a line of cells to its text and style runs, cells without style are left out of the runs
+ */
+function renderLine(line: Line): RenderedLine {
+	const styles: TerminalStyleRun[] = []
+	line.forEach((cell, column) => {
+		if (cell.style === DEFAULT_STYLE) {
+			return
+		}
+		const last = styles[styles.length - 1]
+		if (last && last.end === column && styleEquals(last, cell.style)) {
+			last.end = column + 1
+		} else {
+			styles.push({ start: column, end: column + 1, ...cell.style })
+		}
+	})
+	return { text: line.map(cell => cell.char).join(''), styles }
+}
+
+/**
+ * Parse CSI parameters, `;` separates parameters and `:` sub-parameters (missing values are NaN)
+ */
+function parseParams(sequence: string): number[][] {
+	if (sequence.length === 0) {
+		return []
+	}
+	return sequence.split(';').map(param => param.split(':').map(value => (value === '' ? NaN : Number(value))))
+}
+
+/**
+ * Parse an extended colour (38/48) from its sub-parameters or the following parameters
+ * Returns the colour and the number of following parameters consumed
+ */
+function parseExtendedColor(params: number[][], index: number): [TerminalColor | undefined, number] {
+	const sub = params[index].slice(1)
+	const fromSub = sub.length > 0
+	const values = fromSub ? sub : params.slice(index + 1).map(param => param[0])
+
+	if (values[0] === 5) {
+		const color = values[1]
+		return [Number.isInteger(color) && color >= 0 && color <= 255 ? color : undefined, fromSub ? 0 : 2]
+	}
+	if (values[0] === 2) {
+		// The colon form may carry a colour space id before the components
+		const rgb = fromSub && values.length >= 5 ? values.slice(2, 5) : values.slice(1, 4)
+		const color = rgb.length === 3 && rgb.every(c => Number.isInteger(c) && c >= 0 && c <= 255)
+			? `#${rgb.map(c => c.toString(16).padStart(2, '0')).join('')}`
+			: undefined
+		return [color, fromSub ? 0 : 4]
+	}
+	return [undefined, 0]
+}
+
+/**
+ * Screen grid with scrollback fed with raw terminal output
+ * Lines are addressed by absolute index: scrollback lines first, then the screen rows
+ */
+export class TerminalEmulator {
+	private rowCount: number
+	private columnCount: number
+	private scrollbackLimit: number
+
+	private main: Line[] = []
+	// Set while the alternate screen is active, which has no scrollback
+	private alt: Line[] | null = null
+	private scrollback: RenderedLine[] = []
+	private droppedLines = 0
+
+	private cursorRow = 0
+	private cursorColumn = 0
+	// The cursor is past the last column, the next character wraps
+	private wrapPending = false
+	private savedCursor: SavedCursor | null = null
+	private style: TerminalStyle = DEFAULT_STYLE
+	private scrollTop = 0
+	private scrollBottom = 0
+	private autowrap = true
+	private lineDrawing = false
+	private lastChar = ' '
+
+	private state: ParserState = 'ground'
+	private sequence = ''
+
+	constructor(rows: number, columns: number, scrollbackLimit: number) {
+		this.rowCount = Math.max(rows, 1)
+		this.columnCount = Math.max(columns, 1)
+		this.scrollbackLimit = Math.max(scrollbackLimit, 0)
+		this.reset()
+	}
+
+	get rows(): number {
+		return this.rowCount
+	}
+
+	get columns(): number {
+		return this.columnCount
+	}
+
+	get altScreenActive(): boolean {
+		return this.alt !== null
+	}
+
+	/**
+	 * Absolute index of the oldest scrollback line still kept
+	 */
+	get firstScrollbackLine(): number {
+		return this.droppedLines
+	}
+
+	/**
+	 * Absolute index of the first screen row
+	 */
+	get firstScreenLine(): number {
+		return this.droppedLines + this.scrollback.length
+	}
+
+	/**
+	 * Absolute index of the line holding the cursor
+	 */
+	get cursorLine(): number {
+		return this.firstScreenLine + this.cursorRow
+	}
+
+	get cursorAtLineStart(): boolean {
+		return this.cursorColumn === 0 && !this.wrapPending
+	}
+
+	/**
+	 * Rendered lines [start, end), without trailing whitespace
+	 */
+	getLines(start: number, end: number): string[] {
+		const lines: string[] = []
+		for (let index = start; index < end; index++) {
+			lines.push(this.getLine(index)?.text.trimEnd() ?? '')
+		}
+		return lines
+	}
+
+	/**
+	 * Style runs of lines [start, end), cells without style are left out
+	 */
+	getStyles(start: number, end: number): TerminalStyleRun[][] {
+		const styles: TerminalStyleRun[][] = []
+		for (let index = start; index < end; index++) {
+			styles.push(this.getLine(index)?.styles.map(run => ({ ...run })) ?? [])
+		}
+		return styles
+	}
+
+	/**
+	 * Interpret raw terminal output
+	 */
+	write(data: string): void {
+		for (const char of data) {
+			this.consume(char)
+		}
+	}
+
+	resize(rows: number, columns: number): void {
+		rows = Math.max(rows, 1)
+		columns = Math.max(columns, 1)
+		if (rows === this.rowCount && columns === this.columnCount) {
+			return
+		}
+
+		this.columnCount = columns
+		for (const buffer of [this.main, this.alt ?? []]) {
+			for (const line of buffer) {
+				if (line.length > columns) {
+					line.length = columns
+				}
+				while (line.length < columns) {
+					line.push(this.blankCell(DEFAULT_STYLE))
+				}
+			}
+		}
+
+		const cursorRow = this.resizeRows(this.screen, rows, true)
+		if (this.alt) {
+			this.resizeRows(this.main, rows, false)
+		}
+		this.rowCount = rows
+		this.cursorRow = Math.min(cursorRow, rows - 1)
+		this.cursorColumn = Math.min(this.cursorColumn, columns - 1)
+		this.wrapPending = false
+		this.scrollTop = 0
+		this.scrollBottom = rows - 1
+	}
+
+	/**
+	 * Clear screen and scrollback and reset all modes, keeping the size
+	 */
+	reset(): void {
+		this.main = this.blankLines(this.rowCount, DEFAULT_STYLE)
+		this.alt = null
+		this.droppedLines += this.scrollback.length
+		this.scrollback = []
+		this.cursorRow = 0
+		this.cursorColumn = 0
+		this.wrapPending = false
+		this.savedCursor = null
+		this.style = DEFAULT_STYLE
+		this.scrollTop = 0
+		this.scrollBottom = this.rowCount - 1
+		this.autowrap = true
+		this.lineDrawing = false
+		this.state = 'ground'
+		this.sequence = ''
+	}
+
+	private get screen(): Line[] {
+		return this.alt ?? this.main
+	}
+
+	private getLine(index: number): RenderedLine | undefined {
+		if (index < this.droppedLines) {
+			return undefined
+		}
+		const screenStart = this.firstScreenLine
+		if (index < screenStart) {
+			return this.scrollback[index - this.droppedLines]
+		}
+		const line = this.screen[index - screenStart]
+		return line ? renderLine(line) : undefined
+	}
+
+	/**
+	 * Remove or add rows of a buffer, rows above the cursor go to the scrollback
+	 * Returns the new cursor row
+	 */
+	private resizeRows(buffer: Line[], rows: number, keepCursor: boolean): number {
+		let cursorRow = keepCursor ? this.cursorRow : 0
+		const pushed = Math.max(cursorRow - rows + 1, 0)
+		for (const line of buffer.splice(0, pushed)) {
+			if (buffer === this.main) {
+				this.pushScrollback(line)
+			}
+		}
+		cursorRow -= pushed
+		if (buffer.length > rows) {
+			buffer.length = rows
+		}
+		while (buffer.length < rows) {
+			buffer.push(this.blankLine(DEFAULT_STYLE))
+		}
+		return cursorRow
+	}
+
+	private consume(char: string): void {
+		switch (this.state) {
+			case 'ground':
+				if (char === '\x1b') {
+					this.state = 'escape'
+				} else if (char < ' ' || char === '\x7f') {
+					this.control(char)
+				} else {
+					this.print(char)
+				}
+				return
+			case 'escape':
+				this.escape(char)
+				return
+			case 'charset':
+				this.state = 'ground'
+				if (this.sequence === '(') {
+					this.lineDrawing = char === '0'
+				}
+				return
+			case 'csi':
+				if (char === '\x1b') {
+					this.state = 'escape'
+				} else if (char >= '@' && char <= '~') {
+					this.state = 'ground'
+					this.csi(this.sequence, char)
+				} else if (char < ' ') {
+					this.control(char)
+				} else {
+					this.sequence += char
+				}
+				return
+			case 'osc':
+			case 'string':
+				// Titles, hyperlinks and shell integration markers are not rendered
+				if (char === '\x07' && this.state === 'osc') {
+					this.state = 'ground'
+				} else if (char === '\x1b') {
+					this.state = 'stringEscape'
+				}
+				return
+			case 'stringEscape':
+				// ESC \ terminates the string, any other ESC starts a new sequence
+				this.state = 'ground'
+				if (char !== '\\') {
+					this.escape(char)
+				}
+				return
+		}
+	}
+
+	private control(char: string): void {
+		switch (char) {
+			case '\r':
+				this.cursorColumn = 0
+				this.wrapPending = false
+				break
+			case '\n':
+			case '\v':
+			case '\f':
+				this.index()
+				break
+			case '\b':
+				this.cursorColumn = Math.max(this.cursorColumn - 1, 0)
+				this.wrapPending = false
+				break
+			case '\t':
+				this.tab(1)
+				break
+		}
+	}
+
+	private escape(char: string): void {
+		this.state = 'ground'
+		switch (char) {
+			case '[':
+				this.state = 'csi'
+				this.sequence = ''
+				break
+			case ']':
+				this.state = 'osc'
+				break
+			case 'P':
+			case 'X':
+			case '^':
+			case '_':
+				this.state = 'string'
+				break
+			case '(':
+			case ')':
+			case '*':
+			case '+':
+			case '#':
+				this.state = 'charset'
+				this.sequence = char
+				break
+			case '7':
+				this.saveCursor()
+				break
+			case '8':
+				this.restoreCursor()
+				break
+			case 'D':
+				this.index()
+				break
+			case 'E':
+				this.cursorColumn = 0
+				this.index()
+				break
+			case 'M':
+				this.reverseIndex()
+				break
+			case 'c':
+				this.reset()
+				break
+		}
+	}
+
+	private print(char: string): void {
+		if (this.lineDrawing) {
+			char = DEC_SPECIAL_GRAPHICS[char] ?? char
+		}
+		const width = Math.min(getCharacterWidth(char), this.columnCount)
+		if (width === 0) {
+			this.combine(char)
+			return
+		}
+		if (this.wrapPending) {
+			this.cursorColumn = 0
+			this.index()
+		}
+		// A wide character that does not fit in the last column goes to the next line
+		if (width === 2 && this.cursorColumn === this.columnCount - 1) {
+			if (!this.autowrap) {
+				return
+			}
+			this.cursorColumn = 0
+			this.index()
+		}
+
+		const line = this.screen[this.cursorRow]
+		this.splitWideCharacter(line, this.cursorColumn)
+		line[this.cursorColumn] = { char, style: this.style }
+		if (width === 2) {
+			this.splitWideCharacter(line, this.cursorColumn + 1)
+			line[this.cursorColumn + 1] = { char: '', style: this.style }
+		}
+		this.lastChar = char
+		if (this.cursorColumn + width < this.columnCount) {
+			this.cursorColumn += width
+		} else {
+			this.cursorColumn = this.columnCount - 1
+			this.wrapPending = this.autowrap
+		}
+	}
+
+	/**
+	 * Draw a zero-width character onto the previously printed character
+	 */
+	private combine(char: string): void {
+		const line = this.screen[this.cursorRow]
+		let column = this.wrapPending ? this.cursorColumn : this.cursorColumn - 1
+		if (line[column]?.char === '') {
+			column--
+		}
+		if (column >= 0) {
+			line[column] = { char: line[column].char + char, style: line[column].style }
+		}
+	}
+
+	/**
+	 * Overwriting one column of a wide character blanks its other column
+	 */
+	private splitWideCharacter(line: Line, column: number): void {
+		if (line[column]?.char === '' && column > 0) {
+			line[column - 1] = this.blankCell(line[column - 1].style)
+		}
+		if (line[column + 1]?.char === '') {
+			line[column + 1] = this.blankCell(line[column + 1].style)
+		}
+	}
+
+	private csi(sequence: string, final: string): void {
+		const prefix = /^[<=>?]/.test(sequence) ? sequence[0] : ''
+		const body = sequence.slice(prefix.length)
+		// Sequences with intermediates (cursor style, soft reset, ...) don't change the screen content
+		if (/[^0-9;:]/.test(body)) {
+			return
+		}
+		const params = parseParams(body)
+		const raw = (index: number): number => {
+			const value = params[index]?.[0]
+			return value === undefined || Number.isNaN(value) ? 0 : value
+		}
+		const count = (index: number): number => Math.max(raw(index), 1)
+
+		if (prefix === '?') {
+			if (final === 'h' || final === 'l') {
+				for (const [mode] of params) {
+					this.setPrivateMode(mode, final === 'h')
+				}
+			}
+			return
+		}
+		if (prefix !== '') {
+			return
+		}
+
+		switch (final) {
+			case 'A':
+				this.moveCursor(this.cursorRow - count(0), this.cursorColumn)
+				break
+			case 'B':
+			case 'e':
+				this.moveCursor(this.cursorRow + count(0), this.cursorColumn)
+				break
+			case 'C':
+			case 'a':
+				this.moveCursor(this.cursorRow, this.cursorColumn + count(0))
+				break
+			case 'D':
+				this.moveCursor(this.cursorRow, this.cursorColumn - count(0))
+				break
+			case 'E':
+				this.moveCursor(this.cursorRow + count(0), 0)
+				break
+			case 'F':
+				this.moveCursor(this.cursorRow - count(0), 0)
+				break
+			case 'G':
+			case '`':
+				this.moveCursor(this.cursorRow, count(0) - 1)
+				break
+			case 'd':
+				this.moveCursor(count(0) - 1, this.cursorColumn)
+				break
+			case 'H':
+			case 'f':
+				this.moveCursor(count(0) - 1, count(1) - 1)
+				break
+			case 'I':
+				this.tab(count(0))
+				break
+			case 'Z':
+				this.backTab(count(0))
+				break
+			case 'J':
+				this.eraseDisplay(raw(0))
+				break
+			case 'K':
+				this.eraseLine(raw(0))
+				break
+			case '@':
+				this.insertCharacters(count(0))
+				break
+			case 'P':
+				this.deleteCharacters(count(0))
+				break
+			case 'X':
+				this.eraseCharacters(count(0))
+				break
+			case 'L':
+				this.insertLines(count(0))
+				break
+			case 'M':
+				this.deleteLines(count(0))
+				break
+			case 'S':
+				this.scrollUp(count(0))
+				break
+			case 'T':
+				this.scrollDown(count(0))
+				break
+			case 'b':
+				for (let i = 0; i < Math.min(count(0), this.rowCount * this.columnCount); i++) {
+					this.print(this.lastChar)
+				}
+				break
+			case 'r':
+				this.setScrollRegion(count(0) - 1, (raw(1) || this.rowCount) - 1)
+				break
+			case 's':
+				this.saveCursor()
+				break
+			case 'u':
+				this.restoreCursor()
+				break
+			case 'm':
+				this.applySgr(params)
+				break
+		}
+	}
+
+	private setPrivateMode(mode: number, enabled: boolean): void {
+		if (mode === 7) {
+			this.autowrap = enabled
+			return
+		}
+		if (!ALT_SCREEN_MODES.has(mode) || enabled === this.altScreenActive) {
+			return
+		}
+		if (enabled) {
+			if (mode === 1049) {
+				this.saveCursor()
+			}
+			this.alt = this.blankLines(this.rowCount, DEFAULT_STYLE)
+		} else {
+			this.alt = null
+			if (mode === 1049) {
+				this.restoreCursor()
+			}
+		}
+		this.scrollTop = 0
+		this.scrollBottom = this.rowCount - 1
+	}
+
+	private applySgr(params: number[][]): void {
+		if (params.length === 0) {
+			this.style = DEFAULT_STYLE
+			return
+		}
+
+		let style: TerminalStyle = { ...this.style }
+		for (let i = 0; i < params.length; i++) {
+			const code = Number.isNaN(params[i][0]) ? 0 : params[i][0]
+			if (code === 0) {
+				style = {}
+			} else if (code === 1) {
+				style.bold = true
+			} else if (code === 2) {
+				style.dim = true
+			} else if (code === 3) {
+				style.italic = true
+			} else if (code === 4) {
+				// 4:0 turns underlining off, other sub-parameters select the underline style
+				style.underline = params[i][1] !== 0 || undefined
+			} else if (code === 7) {
+				style.inverse = true
+			} else if (code === 9) {
+				style.strikethrough = true
+			} else if (code === 22) {
+				style.bold = undefined
+				style.dim = undefined
+			} else if (code === 23) {
+				style.italic = undefined
+			} else if (code === 24) {
+				style.underline = undefined
+			} else if (code === 27) {
+				style.inverse = undefined
+			} else if (code === 29) {
+				style.strikethrough = undefined
+			} else if (code >= 30 && code <= 37) {
+				style.fg = code - 30
+			} else if (code >= 40 && code <= 47) {
+				style.bg = code - 40
+			} else if (code >= 90 && code <= 97) {
+				style.fg = code - 90 + 8
+			} else if (code >= 100 && code <= 107) {
+				style.bg = code - 100 + 8
+			} else if (code === 39) {
+				style.fg = undefined
+			} else if (code === 49) {
+				style.bg = undefined
+			} else if (code === 38 || code === 48) {
+				const [color, consumed] = parseExtendedColor(params, i)
+				if (color !== undefined) {
+					style[code === 38 ? 'fg' : 'bg'] = color
+				}
+				i += consumed
+			}
+		}
+
+		for (const key of STYLE_KEYS) {
+			if (style[key] === undefined) {
+				delete style[key]
+			}
+		}
+		this.style = Object.keys(style).length > 0 ? Object.freeze(style) : DEFAULT_STYLE
+	}
+
+	private moveCursor(row: number, column: number): void {
+		this.cursorRow = Math.min(Math.max(row, 0), this.rowCount - 1)
+		this.cursorColumn = Math.min(Math.max(column, 0), this.columnCount - 1)
+		this.wrapPending = false
+	}
+
+	private tab(count: number): void {
+		const next = (Math.floor(this.cursorColumn / TAB_WIDTH) + count) * TAB_WIDTH
+		this.moveCursor(this.cursorRow, next)
+	}
+
+	private backTab(count: number): void {
+		const previous = (Math.ceil(this.cursorColumn / TAB_WIDTH) - count) * TAB_WIDTH
+		this.moveCursor(this.cursorRow, previous)
+	}
+
+	private saveCursor(): void {
+		this.savedCursor = {
+			row: this.cursorRow,
+			column: this.cursorColumn,
+			style: this.style,
+			lineDrawing: this.lineDrawing,
+		}
+	}
+
+	private restoreCursor(): void {
+		const saved = this.savedCursor ?? { row: 0, column: 0, style: DEFAULT_STYLE, lineDrawing: false }
+		this.moveCursor(saved.row, saved.column)
+		this.style = saved.style
+		this.lineDrawing = saved.lineDrawing
+	}
+
+	private setScrollRegion(top: number, bottom: number): void {
+		bottom = Math.min(bottom, this.rowCount - 1)
+		if (top >= bottom) {
+			return
+		}
+		this.scrollTop = top
+		this.scrollBottom = bottom
+		this.moveCursor(0, 0)
+	}
+
+	/**
+	 * Move the cursor down, scrolling the scroll region at its bottom
+	 */
+	private index(): void {
+		this.wrapPending = false
+		if (this.cursorRow === this.scrollBottom) {
+			this.scrollUp(1)
+		} else if (this.cursorRow < this.rowCount - 1) {
+			this.cursorRow++
+		}
+	}
+
+	private reverseIndex(): void {
+		this.wrapPending = false
+		if (this.cursorRow === this.scrollTop) {
+			this.scrollDown(1)
+		} else if (this.cursorRow > 0) {
+			this.cursorRow--
+		}
+	}
+
+	/**
+	 * Scroll the scroll region up, lines leaving the top of the main screen go to the scrollback
+	 */
+	private scrollUp(count: number): void {
+		const screen = this.screen
+		for (let i = 0; i < Math.min(count, this.scrollBottom - this.scrollTop + 1); i++) {
+			const [line] = screen.splice(this.scrollTop, 1)
+			screen.splice(this.scrollBottom, 0, this.blankLine(this.eraseStyle))
+			if (!this.alt && this.scrollTop === 0) {
+				this.pushScrollback(line)
+			}
+		}
+	}
+
+	private scrollDown(count: number): void {
+		const screen = this.screen
+		for (let i = 0; i < Math.min(count, this.scrollBottom - this.scrollTop + 1); i++) {
+			screen.splice(this.scrollBottom, 1)
+			screen.splice(this.scrollTop, 0, this.blankLine(this.eraseStyle))
+		}
+	}
+
+	private insertLines(count: number): void {
+		if (this.cursorRow < this.scrollTop || this.cursorRow > this.scrollBottom) {
+			return
+		}
+		const screen = this.screen
+		for (let i = 0; i < Math.min(count, this.scrollBottom - this.cursorRow + 1); i++) {
+			screen.splice(this.scrollBottom, 1)
+			screen.splice(this.cursorRow, 0, this.blankLine(this.eraseStyle))
+		}
+		this.cursorColumn = 0
+		this.wrapPending = false
+	}
+
+	private deleteLines(count: number): void {
+		if (this.cursorRow < this.scrollTop || this.cursorRow > this.scrollBottom) {
+			return
+		}
+		const screen = this.screen
+		for (let i = 0; i < Math.min(count, this.scrollBottom - this.cursorRow + 1); i++) {
+			screen.splice(this.cursorRow, 1)
+			screen.splice(this.scrollBottom, 0, this.blankLine(this.eraseStyle))
+		}
+		this.cursorColumn = 0
+		this.wrapPending = false
+	}
+
+	private eraseDisplay(mode: number): void {
+		const screen = this.screen
+		if (mode === 0) {
+			this.eraseLine(0)
+			for (let row = this.cursorRow + 1; row < this.rowCount; row++) {
+				screen[row] = this.blankLine(this.eraseStyle)
+			}
+		} else if (mode === 1) {
+			this.eraseLine(1)
+			for (let row = 0; row < this.cursorRow; row++) {
+				screen[row] = this.blankLine(this.eraseStyle)
+			}
+		} else if (mode === 2) {
+			for (let row = 0; row < this.rowCount; row++) {
+				screen[row] = this.blankLine(this.eraseStyle)
+			}
+		} else if (mode === 3) {
+			this.droppedLines += this.scrollback.length
+			this.scrollback = []
+		}
+	}
+
+	private eraseLine(mode: number): void {
+		const line = this.screen[this.cursorRow]
+		const [start, end] = mode === 0
+			? [this.cursorColumn, this.columnCount]
+			: mode === 1 ? [0, this.cursorColumn + 1] : [0, this.columnCount]
+		for (let column = start; column < end; column++) {
+			line[column] = this.blankCell(this.eraseStyle)
+		}
+		this.wrapPending = false
+	}
+
+	private eraseCharacters(count: number): void {
+		const line = this.screen[this.cursorRow]
+		for (let column = this.cursorColumn; column < Math.min(this.cursorColumn + count, this.columnCount); column++) {
+			line[column] = this.blankCell(this.eraseStyle)
+		}
+		this.wrapPending = false
+	}
+
+	private insertCharacters(count: number): void {
+		const line = this.screen[this.cursorRow]
+		const inserted = Array.from({ length: Math.min(count, this.columnCount - this.cursorColumn) }, () => this.blankCell(this.eraseStyle))
+		line.splice(this.cursorColumn, 0, ...inserted)
+		line.length = this.columnCount
+		this.wrapPending = false
+	}
+
+	private deleteCharacters(count: number): void {
+		const line = this.screen[this.cursorRow]
+		const deleted = line.splice(this.cursorColumn, Math.min(count, this.columnCount - this.cursorColumn))
+		line.push(...deleted.map(() => this.blankCell(this.eraseStyle)))
+		this.wrapPending = false
+	}
+
+	private pushScrollback(line: Line): void {
+		// Trailing blanks are not rendered, don't keep them
+		let length = line.length
+		while (length > 0 && isBlank(line[length - 1])) {
+			length--
+		}
+		this.scrollback.push(renderLine(line.slice(0, length)))
+		if (this.scrollback.length > this.scrollbackLimit) {
+			const overflow = this.scrollback.length - this.scrollbackLimit
+			this.scrollback.splice(0, overflow)
+			this.droppedLines += overflow
+		}
+	}
+
+	/**
+	 * Erased cells keep the current background colour
+	 */
+	private get eraseStyle(): TerminalStyle {
+		return this.style.bg !== undefined ? Object.freeze({ bg: this.style.bg }) : DEFAULT_STYLE
+	}
+
+	private blankCell(style: TerminalStyle): Cell {
+		return { char: ' ', style }
+	}
+
+	private blankLine(style: TerminalStyle): Line {
+		return Array.from({ length: this.columnCount }, () => this.blankCell(style))
+	}
+
+	private blankLines(count: number, style: TerminalStyle): Line[] {
+		return Array.from({ length: count }, () => this.blankLine(style))
+	}
+}
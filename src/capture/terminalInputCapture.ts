@@ -0,0 +1,302 @@
+/**
+ * Terminal Input Capture Module
+ * Captures text sent to terminals (REPLs, vim, CLI agent prompts) as terminal_input actions
+ *
+ * VS Code does not expose keystrokes typed into terminals, so input is captured where it passes through this extension host:
+ * - keystrokes handled by pseudoterminals of extension terminals (handleInput)
+ * - Terminal.sendText and TerminalShellIntegration.executeCommand calls of extensions
+ * These methods are wrapped on objects shared with other extensions, only while crowdCode.terminal.captureInput is on
+ * Input typed at password prompts is never recorded
+ */
+
+import * as vscode from 'vscode'
+import type { TerminalInputAction } from '../types'
+import { getConfig } from '../utilities'
+import { getTerminalCurrentLine, getTerminalId, noteTerminalSendText } from './terminalCapture'
+
+// Keystrokes are grouped until Enter or a pause in typing
+const INPUT_FLUSH_MS = 1000
+
+// Prompt lines asking for a secret (sudo, ssh, gpg, ...)
+const PASSWORD_PROMPT = /(password|passphrase|passcode|\bpin\b)[^:\n]*:\s*$/i
+
+type TerminalInputVia = TerminalInputAction['via']
+
+interface PendingInput {
+	text: string
+	redacted: boolean
+	timeout: ReturnType<typeof setTimeout>
+}
+
+type SendText = vscode.Terminal['sendText']
+type ExecuteCommand = (...args: unknown[]) => vscode.TerminalShellExecution
+
+// Pending pseudoterminal keystrokes, keyed by terminal ID
+const pendingInputs = new Map<string, PendingInput>()
+
+// Original methods of patched objects, restored on cleanup
+const patchedTerminals = new Map<vscode.Terminal, SendText>()
+const patchedShellIntegrations = new Map<vscode.TerminalShellIntegration, ExecuteCommand>()
+const patchedPseudoterminals = new Map<vscode.Pseudoterminal, vscode.Pseudoterminal['handleInput']>()
+
+let onInputCallback: ((action: TerminalInputAction) => void) | null = null
+let terminalOpenDisposable: vscode.Disposable | null = null
+let terminalCloseDisposable: vscode.Disposable | null = null
+let shellIntegrationDisposable: vscode.Disposable | null = null
+let configurationDisposable: vscode.Disposable | null = null
+
+function isInputCaptureEnabled(): boolean {
+	return getConfig().get<boolean>('terminal.captureInput', true)
+}
+
+/**
+ * Check whether a terminal line is a prompt asking for a secret
+ */
+export function isPasswordPrompt(line: string): boolean {
+	return PASSWORD_PROMPT.test(line)
+}
+
+function isAtPasswordPrompt(terminalId: string): boolean {
+	return isPasswordPrompt(getTerminalCurrentLine(terminalId))
+}
+
+function emitInput(terminal: vscode.Terminal, text: string, submitted: boolean, via: TerminalInputVia, redacted: boolean): void {
+	if (!onInputCallback) {
+		return
+	}
+	onInputCallback({
+		kind: 'terminal_input',
+		// Pseudoterminals receive the user's keystrokes, sendText and executeCommand are called by extensions
+		source: via === 'pseudoterminal' ? 'user' : 'unknown',
+		terminalId: getTerminalId(terminal),
+		terminalName: terminal.name,
+		text: redacted ? '' : text,
+		submitted,
+		via,
+		...(redacted ? { redacted } : {}),
+	})
+}
+
+function recordExtensionInput(terminal: vscode.Terminal, text: string, submitted: boolean, via: TerminalInputVia): void {
+	if (!onInputCallback || !isInputCaptureEnabled()) {
+		return
+	}
+	emitInput(terminal, text, submitted, via, isAtPasswordPrompt(getTerminalId(terminal)))
+}
+
+function flushInput(terminal: vscode.Terminal): void {
+	const terminalId = getTerminalId(terminal)
+	const pending = pendingInputs.get(terminalId)
+	if (!pending) {
+		return
+	}
+	pendingInputs.delete(terminalId)
+	emitInput(terminal, pending.text, false, 'pseudoterminal', pending.redacted)
+}
+
+/**
+ * Record keystrokes handled by a terminal's pseudoterminal, grouped until Enter or a pause in typing
+ */
+export function recordTerminalKeystrokes(terminal: vscode.Terminal, data: string): void {
+	if (!onInputCallback || !isInputCaptureEnabled()) {
+		return
+	}
+
+	const terminalId = getTerminalId(terminal)
+	const pending = pendingInputs.get(terminalId)
+	if (pending) {
+		clearTimeout(pending.timeout)
+	}
+	const text = (pending?.text ?? '') + data
+	// The prompt is checked when typing starts, the echoed input follows it on the line
+	const redacted = pending?.redacted ?? isAtPasswordPrompt(terminalId)
+
+	if (data.includes('\r')) {
+		pendingInputs.delete(terminalId)
+		emitInput(terminal, text, true, 'pseudoterminal', redacted)
+		return
+	}
+	pendingInputs.set(terminalId, { text, redacted, timeout: setTimeout(() => flushInput(terminal), INPUT_FLUSH_MS) })
+}
+
+/**
+ * Wrap the input entry points of a terminal: sendText, and handleInput of pseudoterminals
+ * Terminal objects are shared by all extensions of this extension host
+ */
+function patchTerminal(terminal: vscode.Terminal): void {
+	if (patchedTerminals.has(terminal)) {
+		return
+	}
+
+	const sendText = terminal.sendText
+	try {
+		terminal.sendText = function (text: string, shouldExecute?: boolean): void {
+			recordExtensionInput(terminal, text, shouldExecute !== false, 'send_text')
+			if (shouldExecute !== false) {
+				noteTerminalSendText(terminal, text)
+			}
+			return sendText.call(this, text, shouldExecute)
+		}
+		patchedTerminals.set(terminal, sendText)
+	} catch {
+		// Frozen terminal objects cannot be wrapped
+	}
+
+	const pty = (terminal.creationOptions as Partial<vscode.ExtensionTerminalOptions>).pty
+	const handleInput = pty?.handleInput
+	if (pty && handleInput && !patchedPseudoterminals.has(pty)) {
+		try {
+			pty.handleInput = function (data: string): void {
+				recordTerminalKeystrokes(terminal, data)
+				return handleInput.call(this, data)
+			}
+			patchedPseudoterminals.set(pty, handleInput)
+		} catch {
+			// Pseudoterminals with a read-only handleInput cannot be wrapped
+		}
+	}
+
+	if (terminal.shellIntegration) {
+		patchShellIntegration(terminal, terminal.shellIntegration)
+	}
+}
+
+function patchShellIntegration(terminal: vscode.Terminal, shellIntegration: vscode.TerminalShellIntegration): void {
+	if (patchedShellIntegrations.has(shellIntegration)) {
+		return
+	}
+
+	const executeCommand = shellIntegration.executeCommand as ExecuteCommand
+	try {
+		(shellIntegration as { executeCommand: ExecuteCommand }).executeCommand = function (...args: unknown[]) {
+			// executeCommand(commandLine) or executeCommand(executable, args)
+			const commandLine = [args[0], ...(Array.isArray(args[1]) ? args[1] : [])].join(' ')
+			recordExtensionInput(terminal, commandLine, true, 'shell_integration')
+			return executeCommand.apply(this, args)
+		}
+		patchedShellIntegrations.set(shellIntegration, executeCommand)
+	} catch {
+		// Frozen shell integration objects cannot be wrapped
+	}
+}
+
+function patchAllTerminals(): void {
+	for (const terminal of vscode.window.terminals) {
+		patchTerminal(terminal)
+	}
+}
+
+/**
+ * Restore the wrapped methods, leaving other extensions' objects as they were
+ */
+function restorePatchedObjects(): void {
+	for (const [terminal, sendText] of patchedTerminals) {
+		terminal.sendText = sendText
+	}
+	for (const [shellIntegration, executeCommand] of patchedShellIntegrations) {
+		(shellIntegration as { executeCommand: ExecuteCommand }).executeCommand = executeCommand
+	}
+	for (const [pty, handleInput] of patchedPseudoterminals) {
+		pty.handleInput = handleInput
+	}
+	patchedTerminals.clear()
+	patchedShellIntegrations.clear()
+	patchedPseudoterminals.clear()
+}
+
+function handleConfigurationChange(event: vscode.ConfigurationChangeEvent): void {
+	if (!event.affectsConfiguration('crowdCode.terminal.captureInput')) {
+		return
+	}
+	if (isInputCaptureEnabled()) {
+		patchAllTerminals()
+	} else {
+		restorePatchedObjects()
+		resetTerminalInputState()
+	}
+}
+
+/**
+ * Initialize the terminal input capture module
+ */
+export function initializeTerminalInputCapture(
+	context: vscode.ExtensionContext,
+	onInput: (action: TerminalInputAction) => void
+): void {
+	onInputCallback = onInput
+
+	if (terminalOpenDisposable) {
+		return
+	}
+
+	terminalOpenDisposable = vscode.window.onDidOpenTerminal((terminal) => {
+		if (isInputCaptureEnabled()) {
+			patchTerminal(terminal)
+		}
+	})
+	context.subscriptions.push(terminalOpenDisposable)
+
+	terminalCloseDisposable = vscode.window.onDidCloseTerminal((terminal) => {
+		flushInput(terminal)
+		patchedTerminals.delete(terminal)
+		if (terminal.shellIntegration) {
+			patchedShellIntegrations.delete(terminal.shellIntegration)
+		}
+		const pty = (terminal.creationOptions as Partial<vscode.ExtensionTerminalOptions>).pty
+		if (pty) {
+			patchedPseudoterminals.delete(pty)
+		}
+	})
+	context.subscriptions.push(terminalCloseDisposable)
+
+	shellIntegrationDisposable = vscode.window.onDidChangeTerminalShellIntegration((event) => {
+		if (isInputCaptureEnabled()) {
+			patchShellIntegration(event.terminal, event.shellIntegration)
+		}
+	})
+	context.subscriptions.push(shellIntegrationDisposable)
+
+	configurationDisposable = vscode.workspace.onDidChangeConfiguration(handleConfigurationChange)
+	context.subscriptions.push(configurationDisposable)
+
+	if (isInputCaptureEnabled()) {
+		patchAllTerminals()
+	}
+}
+
+/**
+ * Cleanup the terminal input capture module, restoring the wrapped methods
+ */
+export function cleanupTerminalInputCapture(): void {
+	if (terminalOpenDisposable) {
+		terminalOpenDisposable.dispose()
+		terminalOpenDisposable = null
+	}
+	if (terminalCloseDisposable) {
+		terminalCloseDisposable.dispose()
+		terminalCloseDisposable = null
+	}
+	if (shellIntegrationDisposable) {
+		shellIntegrationDisposable.dispose()
+		shellIntegrationDisposable = null
+	}
+	if (configurationDisposable) {
+		configurationDisposable.dispose()
+		configurationDisposable = null
+	}
+
+	restorePatchedObjects()
+
+	resetTerminalInputState()
+	onInputCallback = null
+}
+
+/**
+ * Reset terminal input state (useful when starting a new recording)
+ */
+export function resetTerminalInputState(): void {
+	for (const pending of pendingInputs.values()) {
+		clearTimeout(pending.timeout)
+	}
+	pendingInputs.clear()
+}
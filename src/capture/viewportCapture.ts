@@ -1,27 +1,77 @@
 /**
  * Viewport Capture Module
- * Captures the current visible editor state (viewport content, cursor position, line ranges)
+ * Captures the current visible editor state (viewport content, cursor position, line ranges) of the active and all visible editors
  */
 
 import * as vscode from 'vscode'
-import type { ViewportState, Observation } from '../types'
+import type { ViewportState, VisibleEditorState, Observation, DocumentReference } from '../types'
+import { getConfig } from '../utilities'
+import { isWindowFocused } from '../idleMonitor'
 import { getActiveTerminalViewport } from './terminalCapture'
+import { getDebugObservation } from './debugCapture'
+import { getNotebookObservation } from './notebookCapture'
+import { getEditorDiagnostics, getVisibleDiagnostics } from './diagnosticsCapture'
 
 const POLL_INTERVAL_MS = 100 // 10Hz
 
+const DEFAULT_DOCUMENT_SCHEMES = ['file', 'untitled', 'git', 'vscode-notebook-cell']
+
 let viewportChanged = false
 
 let onObservationCallback: ((observation: Observation) => void) | null = null
 
 let visibleRangesDisposable: vscode.Disposable | null = null
+let notebookVisibleRangesDisposable: vscode.Disposable | null = null
+let visibleEditorsDisposable: vscode.Disposable | null = null
 let pollInterval: NodeJS.Timeout | null = null
+// Polling is stopped while the recording is paused, changes are then reported at once
+let pollingStopped = false
+
+function getDocumentSchemes(): string[] {
+	return getConfig().get<string[]>('capture.documentSchemes', DEFAULT_DOCUMENT_SCHEMES)
+}
 
 /**
- * Capture the current viewport state from the active editor
+ * Whether documents with this URI's scheme are recorded (crowdCode.capture.documentSchemes)
  */
-export function captureViewportState(): ViewportState | null {
-	const editor = vscode.window.activeTextEditor
-	if (!editor) {
+export function isCapturedDocument(uri: vscode.Uri, documentSchemes = getDocumentSchemes()): boolean {
+	return documentSchemes.includes(uri.scheme)
+}
+
+function describeDocument(uri: vscode.Uri): DocumentReference {
+	return {
+		file: vscode.workspace.asRelativePath(uri.fsPath),
+		scheme: uri.scheme,
+	}
+}
+
+/**
+ * The other side of the diff editor showing a document, if the editor's group shows a diff editor
+ */
+export function getDiffCounterpart(
+	editor: vscode.TextEditor,
+	tabGroups: vscode.TabGroups = vscode.window.tabGroups
+): DocumentReference | null {
+	const group = tabGroups.all.find((candidate) => candidate.viewColumn === editor.viewColumn)
+	const input = (group ?? tabGroups.activeTabGroup).activeTab?.input
+	if (!(input instanceof vscode.TabInputTextDiff)) {
+		return null
+	}
+	const uri = editor.document.uri.toString()
+	if (input.modified.toString() === uri) {
+		return describeDocument(input.original)
+	}
+	if (input.original.toString() === uri) {
+		return describeDocument(input.modified)
+	}
+	return null
+}
+
+/**
+ * Capture the viewport state of an editor, null if nothing of a recorded document is visible
+ */
+export function describeEditor(editor: vscode.TextEditor): ViewportState | null {
+	if (!isCapturedDocument(editor.document.uri)) {
 		return null
 	}
 
@@ -50,28 +100,83 @@ export function captureViewportState(): ViewportState | null {
 		line: selection.active.line,
 		character: selection.active.character
 	} : null
+	const cursorPositions = editor.selections.length > 1
+		? editor.selections.map((cursor) => ({ line: cursor.active.line, character: cursor.active.character }))
+		: null
 
 	const file = vscode.workspace.asRelativePath(document.fileName)
+	const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)?.name ?? null
+	const diffWith = getDiffCounterpart(editor)
 
 	return {
 		file,
+		workspaceFolder,
 		startLine: startLine + 1,
 		endLine: endLine + 1,
 		content,
-		cursorPosition
+		cursorPosition,
+		...(cursorPositions ? { cursorPositions } : {}),
+		scheme: document.uri.scheme,
+		...(diffWith ? { diffWith } : {})
 	}
 }
 
 /**
- * Capture a full observation (viewport + active terminal viewport)
+ * Capture the current viewport state from the active editor
+ */
+export function captureViewportState(): ViewportState | null {
+	const editor = vscode.window.activeTextEditor
+	return editor ? describeEditor(editor) : null
+}
+
+/**
+ * Capture the state of the visible text editors besides the active one (split views, diff editors), null if there
+ * are none
+ * The active editor is the observation's viewport and is not repeated here
+ */
+export function captureVisibleEditors(
+	visibleEditors: readonly vscode.TextEditor[] = vscode.window.visibleTextEditors,
+	activeEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor
+): VisibleEditorState[] | null {
+	const states = visibleEditors.flatMap((editor): VisibleEditorState[] => {
+		const state = editor === activeEditor ? null : describeEditor(editor)
+		if (!state) {
+			return []
+		}
+		const diagnostics = getEditorDiagnostics(editor)
+		return [{
+			...state,
+			viewColumn: editor.viewColumn ?? null,
+			visibleRanges: editor.visibleRanges.map((range) => ({
+				startLine: range.start.line + 1,
+				endLine: range.end.line + 1,
+			})),
+			...(diagnostics.length > 0 ? { diagnostics } : {}),
+		}]
+	})
+	return states.length > 0 ? states : null
+}
+
+/**
+ * Capture a full observation (viewport + active terminal viewport + debug state while debugging + visible notebook cells
+ * + all visible editors of split views + visible diagnostics + window focus)
  */
 export function captureObservation(): Observation {
 	const viewport = captureViewportState()
 	const activeTerminal = getActiveTerminalViewport()
+	const debug = getDebugObservation()
+	const notebook = getNotebookObservation()
+	const visibleEditors = captureVisibleEditors()
+	const diagnostics = getVisibleDiagnostics()
 
 	return {
 		viewport,
-		activeTerminal
+		activeTerminal,
+		...(debug ? { debug } : {}),
+		...(notebook ? { notebook } : {}),
+		...(visibleEditors ? { visibleEditors } : {}),
+		...(diagnostics.length > 0 ? { diagnostics } : {}),
+		windowFocused: isWindowFocused()
 	}
 }
 
@@ -91,6 +196,37 @@ function pollViewport(): void {
 	onObservationCallback(captureObservation())
 }
 
+function markViewportChanged(): void {
+	viewportChanged = true
+	if (pollingStopped) {
+		pollViewport()
+	}
+}
+
+/**
+ * Stop polling for viewport changes while the recording is paused
+ * Scrolling is still reported, so it can resume the recording
+ */
+export function stopViewportPolling(): void {
+	if (!pollInterval) {
+		return
+	}
+	clearInterval(pollInterval)
+	pollInterval = null
+	pollingStopped = true
+}
+
+/**
+ * Restart polling for viewport changes
+ */
+export function startViewportPolling(): void {
+	if (!pollingStopped) {
+		return
+	}
+	pollingStopped = false
+	pollInterval = setInterval(pollViewport, POLL_INTERVAL_MS)
+}
+
 /**
  * Initialize the viewport capture module
  */
@@ -100,11 +236,18 @@ export function initializeViewportCapture(
 ): void {
 	onObservationCallback = onScrollObservation
 
-	visibleRangesDisposable = vscode.window.onDidChangeTextEditorVisibleRanges(() => {
-		viewportChanged = true
-	})
+	visibleRangesDisposable = vscode.window.onDidChangeTextEditorVisibleRanges(markViewportChanged)
 	context.subscriptions.push(visibleRangesDisposable)
 
+	notebookVisibleRangesDisposable = vscode.window.onDidChangeNotebookEditorVisibleRanges(markViewportChanged)
+	context.subscriptions.push(notebookVisibleRangesDisposable)
+
+	// Opening, closing and splitting editors changes what is on screen without scrolling
+	visibleEditorsDisposable = vscode.window.onDidChangeVisibleTextEditors(markViewportChanged)
+	context.subscriptions.push(visibleEditorsDisposable)
+
+	// A recording stopped while paused left polling stopped
+	pollingStopped = false
 	pollInterval = setInterval(pollViewport, POLL_INTERVAL_MS)
 }
 
@@ -116,10 +259,19 @@ export function cleanupViewportCapture(): void {
 		visibleRangesDisposable.dispose()
 		visibleRangesDisposable = null
 	}
+	if (notebookVisibleRangesDisposable) {
+		notebookVisibleRangesDisposable.dispose()
+		notebookVisibleRangesDisposable = null
+	}
+	if (visibleEditorsDisposable) {
+		visibleEditorsDisposable.dispose()
+		visibleEditorsDisposable = null
+	}
 	if (pollInterval) {
 		clearInterval(pollInterval)
 		pollInterval = null
 	}
+	pollingStopped = false
 	viewportChanged = false
 }
 
@@ -16,12 +16,25 @@ import {
 } from './recording'
 import { RecordFilesProvider, type RecordFile } from './recordFilesProvider'
 import { ActionsProvider } from './actionsProvider'
+import { ReplayPanel } from './replayPanel'
+import { initializeUploadQueue, processUploadQueue, cleanupUploadQueue } from './uploadQueue'
+import { uploadFile } from './uploadBackends'
 import {
 	cleanupViewportCapture,
 	cleanupTerminalCapture,
 	cleanupFilesystemWatcher,
+	cleanupDebugCapture,
+	cleanupCommandCapture,
+	cleanupInlineCompletionCapture,
+	cleanupTerminalInputCapture,
+	cleanupNotebookCapture,
+	cleanupDiagnosticsCapture,
+	cleanupSearchCapture,
+	forwardCommand,
+	RECORD_COMMAND_ID,
 } from './capture'
 import { initializeGitProvider, cleanupGitProvider } from './gitProvider'
+import { cleanupIdleMonitor } from './idleMonitor'
 import * as fs from 'node:fs'
 import * as path from 'node:path'
 import { showConsentDialog, ensureConsent, syncConsentSetting } from './consent'
@@ -145,6 +158,33 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		})
 	)
 
+	// Register replay command (from the record files tree, a file URI, or a file picker)
+	context.subscriptions.push(
+		vscode.commands.registerCommand('crowd-code.openReplay', async (item?: RecordFile | vscode.Uri) => {
+			let filePath: string | undefined
+			if (item instanceof vscode.Uri) {
+				filePath = item.fsPath
+			} else if (item) {
+				const exportPath = getExportPath()
+				if (!exportPath) {
+					return
+				}
+				filePath = getFullPath(item, exportPath)
+			} else {
+				const selection = await vscode.window.showOpenDialog({
+					canSelectMany: false,
+					openLabel: 'Replay',
+					filters: { 'crowd-code recordings': ['json', 'gz'] },
+				})
+				filePath = selection?.[0]?.fsPath
+			}
+
+			if (filePath) {
+				await ReplayPanel.createOrShow(context.extensionUri, filePath)
+			}
+		})
+	)
+
 	// Register recording commands
 	context.subscriptions.push(
 		vscode.commands.registerCommand(commands.startRecording, () => {
@@ -183,6 +223,18 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		})
 	)
 
+	// Register retry uploads command
+	context.subscriptions.push(
+		vscode.commands.registerCommand('crowd-code.retryUploads', async () => {
+			await processUploadQueue(true)
+		})
+	)
+
+	// Register the command behind crowd-code keybindings (records and forwards the bound command)
+	context.subscriptions.push(
+		vscode.commands.registerCommand(RECORD_COMMAND_ID, forwardCommand)
+	)
+
 	// Listen for configuration changes
 	context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(onConfigurationChange))
 
@@ -199,6 +251,13 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 	// Ensure consent is obtained when the extension is first activated
 	await ensureConsent()
 
+	// Resume uploads left over from previous sessions
+	try {
+		await initializeUploadQueue(context, uploadFile, (status) => actionsProvider.setUploadQueueStatus(status))
+	} catch (err) {
+		logToOutput(`Failed to initialize upload queue: ${err}`, 'error')
+	}
+
 	// Autostart recording regardless of consent. The consent only gates data upload.
 	logToOutput('Autostarting recording...', 'info')
 	startRecording().catch((err) => logToOutput(`Autostart recording failed unexpectedly: ${err}`, 'error'))
@@ -215,7 +274,16 @@ export function deactivate(): void {
 	cleanupViewportCapture()
 	cleanupTerminalCapture()
 	cleanupFilesystemWatcher()
+	cleanupDebugCapture()
+	cleanupCommandCapture()
+	cleanupInlineCompletionCapture()
+	cleanupTerminalInputCapture()
+	cleanupNotebookCapture()
+	cleanupDiagnosticsCapture()
+	cleanupSearchCapture()
 	cleanupGitProvider()
+	cleanupIdleMonitor()
+	cleanupUploadQueue()
 
 	statusBarItem.dispose()
 }
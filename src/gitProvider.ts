@@ -4,88 +4,138 @@
  */
 
 import * as vscode from 'vscode'
-import { logToOutput } from './utilities'
+import { findInnermostFolder, logToOutput } from './utilities'
 
-// Track recent git operations for filesystem change attribution
-let sawHeadChange = false
-let lastGitOperationTime = 0
 const GIT_OPERATION_WINDOW_MS = 500
 
-// File system watchers
-let gitHeadWatcher: vscode.FileSystemWatcher | undefined
-let gitRefsWatcher: vscode.FileSystemWatcher | undefined
+/**
+ * Per workspace folder git state: each folder has its own HEAD/refs watchers
+ * and tracks recent git operations for filesystem change attribution
+ */
+interface GitFolderState {
+	folder: vscode.WorkspaceFolder
+	sawHeadChange: boolean
+	lastGitOperationTime: number
+	headWatcher?: vscode.FileSystemWatcher
+	refsWatcher?: vscode.FileSystemWatcher
+}
+
+// Keyed by workspace folder URI
+const gitFolders = new Map<string, GitFolderState>()
 
 /**
- * Check if there was a recent git operation
+ * Check if there was a recent git operation in the workspace folder containing a file
  * Returns 'git_checkout' if HEAD changed, 'git' for other operations, null otherwise
  */
-export function getRecentGitOperation(): 'git' | 'git_checkout' | null {
-	if (Date.now() - lastGitOperationTime > GIT_OPERATION_WINDOW_MS) {
+export function getRecentGitOperation(filePath: string): 'git' | 'git_checkout' | null {
+	const folder = findInnermostFolder([...gitFolders.values()].map((folderState) => folderState.folder), filePath)
+	const state = folder ? gitFolders.get(folder.uri.toString()) : undefined
+	if (!state) {
 		return null
 	}
-	const result = sawHeadChange ? 'git_checkout' : 'git'
-	sawHeadChange = false
+	if (Date.now() - state.lastGitOperationTime > GIT_OPERATION_WINDOW_MS) {
+		return null
+	}
+	const result = state.sawHeadChange ? 'git_checkout' : 'git'
+	state.sawHeadChange = false
 	return result
 }
 
 /**
- * Setup git file watchers for the current workspace
+ * Note a git operation in a workspace folder, a checkout if HEAD changed
  */
-function setupGitWatchers(): void {
-	// Cleanup any existing watchers first
-	disposeWatchers()
-
-	const workspaceFolder = vscode.workspace.workspaceFolders?.[0]
-	if (!workspaceFolder) {
-		logToOutput('No workspace folder found', 'info')
+export function noteGitOperation(workspaceFolder: vscode.WorkspaceFolder, isCheckout: boolean): void {
+	const state = gitFolders.get(workspaceFolder.uri.toString())
+	if (!state) {
 		return
 	}
+	if (isCheckout) {
+		state.sawHeadChange = true
+	}
+	state.lastGitOperationTime = Date.now()
+}
+
+/**
+ * Setup git file watchers for a workspace folder
+ */
+function setupGitWatchers(workspaceFolder: vscode.WorkspaceFolder): void {
+	// Cleanup any existing watchers first
+	disposeWatchers(workspaceFolder)
+
+	const state: GitFolderState = { folder: workspaceFolder, sawHeadChange: false, lastGitOperationTime: 0 }
+	const key = workspaceFolder.uri.toString()
+	gitFolders.set(key, state)
 
 	const gitDir = vscode.Uri.joinPath(workspaceFolder.uri, '.git')
 	vscode.workspace.fs.stat(gitDir).then(
 		() => {
-			logToOutput('Git repository found', 'info')
+			// Folder was removed or re-initialized in the meantime
+			if (gitFolders.get(key) !== state) {
+				return
+			}
+			logToOutput(`Git repository found in ${workspaceFolder.name}`, 'info')
 
 			// Watch .git/HEAD for branch changes
-			gitHeadWatcher = vscode.workspace.createFileSystemWatcher(
+			state.headWatcher = vscode.workspace.createFileSystemWatcher(
 				new vscode.RelativePattern(workspaceFolder, '.git/HEAD')
 			)
-			gitHeadWatcher.onDidChange(() => {
-				logToOutput('Git checkout detected', 'info')
-				sawHeadChange = true
-				lastGitOperationTime = Date.now()
+			state.headWatcher.onDidChange(() => {
+				logToOutput(`Git checkout detected in ${workspaceFolder.name}`, 'info')
+				noteGitOperation(workspaceFolder, true)
 			})
 
 			// Watch .git/refs for other git operations (pull, stash, etc.)
-			gitRefsWatcher = vscode.workspace.createFileSystemWatcher(
+			state.refsWatcher = vscode.workspace.createFileSystemWatcher(
 				new vscode.RelativePattern(workspaceFolder, '.git/refs/**/*')
 			)
-			gitRefsWatcher.onDidChange(() => {
-				logToOutput('Git refs changed', 'info')
-				lastGitOperationTime = Date.now()
+			state.refsWatcher.onDidChange(() => {
+				logToOutput(`Git refs changed in ${workspaceFolder.name}`, 'info')
+				noteGitOperation(workspaceFolder, false)
 			})
-			gitRefsWatcher.onDidCreate(() => {
-				logToOutput('Git refs created', 'info')
-				lastGitOperationTime = Date.now()
+			state.refsWatcher.onDidCreate(() => {
+				logToOutput(`Git refs created in ${workspaceFolder.name}`, 'info')
+				noteGitOperation(workspaceFolder, false)
 			})
-			gitRefsWatcher.onDidDelete(() => {
-				logToOutput('Git refs deleted', 'info')
-				lastGitOperationTime = Date.now()
+			state.refsWatcher.onDidDelete(() => {
+				logToOutput(`Git refs deleted in ${workspaceFolder.name}`, 'info')
+				noteGitOperation(workspaceFolder, false)
 			})
 
-			logToOutput('Git provider initialized', 'info')
+			logToOutput(`Git provider initialized for ${workspaceFolder.name}`, 'info')
 		},
 		() => {
-			logToOutput('Not a git repository', 'info')
+			logToOutput(`${workspaceFolder.name} is not a git repository`, 'info')
 		}
 	)
 }
 
-function disposeWatchers(): void {
-	gitHeadWatcher?.dispose()
-	gitHeadWatcher = undefined
-	gitRefsWatcher?.dispose()
-	gitRefsWatcher = undefined
+function disposeWatchers(workspaceFolder: vscode.WorkspaceFolder): void {
+	const key = workspaceFolder.uri.toString()
+	const state = gitFolders.get(key)
+	state?.headWatcher?.dispose()
+	state?.refsWatcher?.dispose()
+	gitFolders.delete(key)
+}
+
+function disposeAllWatchers(): void {
+	for (const state of gitFolders.values()) {
+		state.headWatcher?.dispose()
+		state.refsWatcher?.dispose()
+	}
+	gitFolders.clear()
+}
+
+/**
+ * Update watchers on workspace changes
+ */
+export function handleWorkspaceFoldersChange(event: vscode.WorkspaceFoldersChangeEvent): void {
+	logToOutput('Workspace changed, updating git provider...', 'info')
+	for (const folder of event.removed) {
+		disposeWatchers(folder)
+	}
+	for (const folder of event.added) {
+		setupGitWatchers(folder)
+	}
 }
 
 /**
@@ -94,29 +144,30 @@ function disposeWatchers(): void {
 export function initializeGitProvider(context: vscode.ExtensionContext): void {
 	logToOutput('Initializing git provider...', 'info')
 
-	setupGitWatchers()
+	const folders = vscode.workspace.workspaceFolders ?? []
+	if (folders.length === 0) {
+		logToOutput('No workspace folder found', 'info')
+	}
+	for (const folder of folders) {
+		setupGitWatchers(folder)
+	}
 
-	// Reinitialize on workspace changes
-	context.subscriptions.push(
-		vscode.workspace.onDidChangeWorkspaceFolders(() => {
-			logToOutput('Workspace changed, reinitializing git provider...', 'info')
-			setupGitWatchers()
-		})
-	)
+	context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(handleWorkspaceFoldersChange))
 }
 
 /**
  * Reset git state
  */
 export function resetGitState(): void {
-	sawHeadChange = false
-	lastGitOperationTime = 0
+	for (const state of gitFolders.values()) {
+		state.sawHeadChange = false
+		state.lastGitOperationTime = 0
+	}
 }
 
 /**
  * Cleanup the git provider
  */
 export function cleanupGitProvider(): void {
-	disposeWatchers()
-	resetGitState()
+	disposeAllWatchers()
 }
@@ -0,0 +1,136 @@
+/**
+ * Idle Monitor
+ * Pauses the recording after a period without activity and resumes it on the next activity
+ *
+ * Activity is any recorded action (user or agent), scrolling, and the window regaining focus
+ * Observations alone (e.g. a clock in a terminal) do not keep the recording awake
+ *
+ * The monitor also tracks whether the window has focus, for the pause reason and for observations and focus events
+ */
+
+import * as vscode from 'vscode'
+import type { SessionPauseEvent } from './types'
+import { getConfig } from './utilities'
+
+const IDLE_CHECK_INTERVAL_MS = 10 * 1000
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 10
+
+export interface IdleCallbacks {
+	onPause: (reason: SessionPauseEvent['reason'], idleMs: number) => void
+	onResume: (pausedMs: number) => void
+	// Called when the window gains or loses focus, after resuming on focus
+	onFocusChange: (focused: boolean) => void
+}
+
+let callbacks: IdleCallbacks | null = null
+let lastActivityTime = Date.now()
+let pausedAt: number | null = null
+let windowFocused = true
+
+let checkInterval: NodeJS.Timeout | null = null
+let windowStateDisposable: vscode.Disposable | null = null
+
+function getIdleTimeoutMs(): number {
+	return getConfig().get<number>('capture.idleTimeoutMinutes', DEFAULT_IDLE_TIMEOUT_MINUTES) * 60 * 1000
+}
+
+/**
+ * Whether the recording is paused for inactivity
+ */
+export function isPaused(): boolean {
+	return pausedAt !== null
+}
+
+/**
+ * Whether the VS Code window has focus, i.e. the human can see what is recorded
+ */
+export function isWindowFocused(): boolean {
+	return windowFocused
+}
+
+/**
+ * Note the window gaining or losing focus, returning to the window is activity
+ */
+export function noteWindowFocus(focused: boolean): void {
+	if (focused === windowFocused) {
+		return
+	}
+	windowFocused = focused
+	if (focused) {
+		noteActivity()
+	}
+	callbacks?.onFocusChange(focused)
+}
+
+/**
+ * Note activity, resuming a paused recording
+ */
+export function noteActivity(): void {
+	lastActivityTime = Date.now()
+	if (pausedAt === null) {
+		return
+	}
+	const pausedMs = lastActivityTime - pausedAt
+	pausedAt = null
+	callbacks?.onResume(pausedMs)
+}
+
+/**
+ * Pause the recording if there was no activity within the idle timeout (checked every 10 seconds)
+ */
+export function checkIdle(idleTimeoutMs = getIdleTimeoutMs()): void {
+	// A timeout of 0 disables pausing
+	if (!callbacks || pausedAt !== null || idleTimeoutMs <= 0) {
+		return
+	}
+
+	const idleMs = Date.now() - lastActivityTime
+	if (idleMs < idleTimeoutMs) {
+		return
+	}
+	pausedAt = Date.now()
+	// Idle in front of the window, or away from it
+	callbacks.onPause(windowFocused ? 'idle' : 'away', idleMs)
+}
+
+/**
+ * Initialize the idle monitor
+ */
+export function initializeIdleMonitor(context: vscode.ExtensionContext, idleCallbacks: IdleCallbacks): void {
+	callbacks = idleCallbacks
+	resetIdleState()
+	windowFocused = vscode.window.state.focused
+
+	if (checkInterval) {
+		return
+	}
+
+	windowStateDisposable = vscode.window.onDidChangeWindowState((state) => noteWindowFocus(state.focused))
+	context.subscriptions.push(windowStateDisposable)
+
+	checkInterval = setInterval(() => checkIdle(), IDLE_CHECK_INTERVAL_MS)
+}
+
+/**
+ * Cleanup the idle monitor
+ */
+export function cleanupIdleMonitor(): void {
+	if (windowStateDisposable) {
+		windowStateDisposable.dispose()
+		windowStateDisposable = null
+	}
+	if (checkInterval) {
+		clearInterval(checkInterval)
+		checkInterval = null
+	}
+	callbacks = null
+	resetIdleState()
+}
+
+/**
+ * Reset idle state (useful when starting or stopping a recording)
+ */
+export function resetIdleState(): void {
+	lastActivityTime = Date.now()
+	pausedAt = null
+}
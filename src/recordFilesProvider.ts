@@ -3,6 +3,29 @@ import * as fs from 'node:fs'
 import * as path from 'node:path'
 import { getExportPath, createPath } from './utilities'
 
+/**
+ * Whether a file can be opened in the replayer (a chunk or an uploaded part)
+ */
+export function isReplayableFile(fileName: string): boolean {
+	return /^chunk_\d+\.json$/.test(fileName) || fileName.endsWith('.tar.gz')
+}
+
+function isRecordingFile(fileName: string): boolean {
+	return fileName.endsWith('.json') || fileName.endsWith('.tar.gz')
+}
+
+/**
+ * Check if a directory contains recording files, looking into nested folders (e.g. temp/)
+ */
+function containsRecordingFiles(dirPath: string, depth = 2): boolean {
+	return fs.readdirSync(dirPath, { withFileTypes: true }).some(entry => {
+		if (entry.isDirectory()) {
+			return depth > 0 && containsRecordingFiles(path.join(dirPath, entry.name), depth - 1)
+		}
+		return isRecordingFile(entry.name)
+	})
+}
+
 export class RecordFile extends vscode.TreeItem {
 	constructor(
 		public readonly label: string,
@@ -20,10 +43,12 @@ export class RecordFile extends vscode.TreeItem {
 			// Set different icons based on file extension
 			if (label.endsWith('.json')) {
 				this.iconPath = new vscode.ThemeIcon('json')
+			} else if (label.endsWith('.tar.gz')) {
+				this.iconPath = new vscode.ThemeIcon('file-zip')
 			} else {
 				this.iconPath = new vscode.ThemeIcon('file')
 			}
-			this.contextValue = 'file'
+			this.contextValue = isReplayableFile(label) ? 'recording' : 'file'
 		}
 	}
 }
@@ -52,65 +77,48 @@ export class RecordFilesProvider implements vscode.TreeDataProvider<RecordFile>
 			// Create the export path if it doesn't exist using the utility function
 			await createPath(exportPath)
 
-			// If no element is provided, show both folders and files in the root
-			if (!element) {
-				const items = fs.readdirSync(exportPath)
-				const folders: RecordFile[] = []
-				const files: RecordFile[] = []
+			// Without an element, show the root of the export path, otherwise the element's contents
+			const relativeFolder = element ? path.join(element.parentPath ?? '', element.label) : undefined
+			const folderPath = relativeFolder ? path.join(exportPath, relativeFolder) : exportPath
+			const items = fs.readdirSync(folderPath)
+			const folders: RecordFile[] = []
+			const files: RecordFile[] = []
 
-				for (const item of items) {
-					const itemPath = path.join(exportPath, item)
-					const isDirectory = fs.statSync(itemPath).isDirectory()
+			for (const item of items) {
+				const itemPath = path.join(folderPath, item)
+				const isDirectory = fs.statSync(itemPath).isDirectory()
 
-					if (isDirectory) {
-						// Check if the directory contains recording files
-						const dirContents = fs.readdirSync(itemPath)
-						const hasRecordingFiles = dirContents.some(
-							file => file.endsWith('.json')
-						)
-						if (hasRecordingFiles) {
-							folders.push(
-								new RecordFile(item, vscode.TreeItemCollapsibleState.Collapsed, undefined, true)
-							)
-						}
-					} else if (item.endsWith('.json')) {
-						files.push(
-							new RecordFile(item, vscode.TreeItemCollapsibleState.None, {
-								command: 'vscode.open',
-								title: 'Open File',
-								arguments: [vscode.Uri.file(itemPath)],
-							})
+				if (isDirectory) {
+					// Check if the directory contains recording files
+					if (containsRecordingFiles(itemPath)) {
+						folders.push(
+							new RecordFile(item, vscode.TreeItemCollapsibleState.Collapsed, undefined, true, relativeFolder)
 						)
 					}
+				} else if (isRecordingFile(item)) {
+					// Archives cannot be displayed as text, open them in the replayer instead
+					const command: vscode.Command = item.endsWith('.tar.gz')
+						? {
+							command: 'crowd-code.openReplay',
+							title: 'Open in Replayer',
+							arguments: [vscode.Uri.file(itemPath)],
+						}
+						: {
+							command: 'vscode.open',
+							title: 'Open File',
+							arguments: [vscode.Uri.file(itemPath)],
+						}
+					files.push(
+						new RecordFile(item, vscode.TreeItemCollapsibleState.None, command, false, relativeFolder)
+					)
 				}
-
-				// Sort folders and files in descending order (newest first)
-				folders.sort((a, b) => b.label.localeCompare(a.label))
-				files.sort((a, b) => b.label.localeCompare(a.label))
-
-				return [...folders, ...files]
 			}
 
-			// If an element is provided, show its contents
-			const folderPath = path.join(exportPath, element.label)
-			const files = fs
-				.readdirSync(folderPath)
-				.filter(file => file.endsWith('.json'))
-				.map(
-					file =>
-						new RecordFile(
-							file,
-							vscode.TreeItemCollapsibleState.None,
-							{
-								command: 'vscode.open',
-								title: 'Open File',
-								arguments: [vscode.Uri.file(path.join(folderPath, file))],
-							},
-							false,
-							element.label
-						)
-				)
-			return files
+			// Sort folders and files in descending order (newest first)
+			folders.sort((a, b) => b.label.localeCompare(a.label))
+			files.sort((a, b) => b.label.localeCompare(a.label))
+
+			return [...folders, ...files]
 		} catch (err) {
 			console.error('Error reading directory:', err)
 			return []
@@ -8,10 +8,8 @@ import * as path from 'node:path'
 import { gzip } from 'node:zlib'
 import { promisify } from 'node:util'
 import * as vscode from 'vscode'
-import axios from 'axios'
 import { createTwoFilesPatch } from 'diff'
 import * as tar from 'tar'
-import { hasConsent } from './consent'
 import {
     notificationWithProgress,
     generateBaseFilePath,
@@ -28,28 +26,102 @@ import type {
 	Observation,
 	Action,
 	EditAction,
+	EditDiff,
 	EditReason,
+	InlineCompletionAction,
+	NotebookCellEditAction,
+	NotebookCellChangeAction,
+	NotebookCellExecutionAction,
 	SelectionAction,
 	TabSwitchAction,
 	TerminalFocusAction,
 	TerminalCommandAction,
+	TerminalInputAction,
 	FileChangeAction,
 	WorkspaceSnapshotEvent,
+	TerminalCommandEndEvent,
+	SessionPauseEvent,
+	SessionResumeEvent,
+	WindowFocusEvent,
+	WindowBlurEvent,
+	DebugSessionAction,
+	BreakpointAction,
+	DebugStepAction,
+	DebugStepKind,
+	DebugStackFrame,
+	StackFrameSelectAction,
+	CommandAction,
+	CommandArgument,
+	CommandSearch,
+	NavigationAction,
+	SearchAction,
 } from './types'
 import { extContext, statusBarItem, actionsProvider } from './extension'
 import {
 	captureObservation,
+	isCapturedDocument,
 	resetObservationState,
 	resetViewportChanged,
 	resetTerminalState,
 	initializeViewportCapture,
+	stopViewportPolling,
+	startViewportPolling,
 	initializeTerminalCapture,
+	stopTerminalPolling,
+	startTerminalPolling,
 	initializeFilesystemWatcher,
 	resetFilesystemState,
 	getFileCacheSnapshot,
+	initializeDebugCapture,
+	initializeCommandCapture,
+	setRecordingContext,
+	initializeInlineCompletionCapture,
+	initializeTerminalInputCapture,
+	resetTerminalInputState,
+	initializeNotebookCapture,
+	initializeDiagnosticsCapture,
+	resetDiagnosticsState,
+	findNotebookCell,
+	isOpenNotebook,
+	noteNotebookFileChange,
+	getNotebookReloadSource,
+	resetNotebookState,
+	NOTEBOOK_CELL_SCHEME,
+	detectInlineCompletion,
+	noteInlineCompletionCommand,
+	resetInlineCompletionState,
+	applyTerminalScrollCommand,
+	getEditorLocation,
+	noteNavigationCommand,
+	takeNavigation,
+	noteCursorMove,
+	groupCursorChanges,
+	describeSelections,
+	resetNavigationState,
+	noteRefactorCommand,
+	noteRefactorCommandComplete,
+	takeRefactorBatch,
+	resetRefactorState,
+	initializeSearchCapture,
+	resetSearchState,
+	SEARCH_EDITOR_SCHEME,
 	TerminalViewport,
+	TerminalCommandCompletion,
+	CommandTrigger,
+	DebugSessionInfo,
+	BreakpointInfo,
 } from './capture'
 import { getRecentGitOperation, resetGitState } from './gitProvider'
+import { enqueueUpload } from './uploadQueue'
+import {
+	attributeAgentChange,
+	attributeInlineCompletion,
+	noteEditorEdit,
+	resetAgentAttributionState,
+} from './agentAttribution'
+import { redactDocumentChange, redactEvents, redactSnapshot, takeRedactionReport, resetRedactionState } from './redaction'
+import { initializeIdleMonitor, isPaused, noteActivity, resetIdleState } from './idleMonitor'
+import { CHUNK_VERSION, validateEvent } from './schema'
 
 export const recording: RecordingState = {
 	isRecording: false,
@@ -72,7 +144,8 @@ export const commands = {
 let intervalId: NodeJS.Timeout | null = null
 let diskSaveIntervalId: NodeJS.Timeout | null = null
 let uploadIntervalId: NodeJS.Timeout | null = null
-let uploadInProgress = false
+// Chunk saves and uploads, in order (see queueSessionFileTask)
+let sessionFileTasks: Promise<unknown> = Promise.resolve()
 let timer = 0
 let previousFile: string | null = null
 let panicStatusBarItem: vscode.StatusBarItem | undefined
@@ -83,11 +156,10 @@ let sessionFolder: string | null = null
 let chunkIndex = 0
 let partIndex = 1
 
-const CROWD_CODE_API_GATEWAY_URL = process.env.CROWD_CODE_API_GATEWAY_URL
 const PANIC_BUTTON_TIMEOUT = 3000
 const MAX_BUFFER_SIZE_PER_FILE = 1000 // Prevent unbounded growth
 const DISK_SAVE_INTERVAL_MS = 5 * 60 * 1000 // Append to disk every 5 minutes
-const UPLOAD_INTERVAL_MS = 30 * 60 * 1000 // Upload tar.gz every 30 minutes
+const UPLOAD_INTERVAL_MS = 30 * 60 * 1000 // Queue a tar.gz for upload every 30 minutes
 
 interface PendingEdit {
 	rangeOffset: number
@@ -104,6 +176,13 @@ let pendingEditFile: string | null = null
 // Reset on any user action
 let agentBatchActive = false
 
+// Refactor edits are observed once all documents of the workspace edit have changed
+const REFACTOR_OBSERVATION_DELAY_MS = 100
+let refactorObservationTimeout: NodeJS.Timeout | null = null
+
+// Multi-cursor edits (one change per cursor in a single document change) share a cursor group ID
+let cursorGroupCounter = 0
+
 const gzipAsync = promisify(gzip)
 let snapshotCounter = 0
 
@@ -113,6 +192,8 @@ const subscriptions: vscode.Disposable[] = []
 
 function logObservation(observation: Observation): void {
 	if (!recording.isRecording) {return}
+	// Nothing is observed while paused for inactivity
+	if (isPaused()) {return}
 
 	recording.sequence++
 	const event: RecordingEvent = {
@@ -126,6 +207,8 @@ function logObservation(observation: Observation): void {
 
 function logAction(action: Action): void {
 	if (!recording.isRecording) {return}
+	// Actions are activity, resuming a paused recording
+	noteActivity()
 
 	recording.sequence++
 	const event: RecordingEvent = {
@@ -148,124 +231,187 @@ function logActionAndObservation(action: Action): void {
 	resetViewportChanged()
 }
 
+/**
+ * Write events that fail schema validation next to the session folder
+ * Quarantined events are kept locally for inspection and never uploaded
+ */
+async function quarantineEvents(events: RecordingEvent[], errors: string[][]): Promise<void> {
+	if (!sessionFolder) { return }
+
+	const quarantineFolder = path.join(path.dirname(sessionFolder), 'quarantine')
+	await fs.promises.mkdir(quarantineFolder, { recursive: true })
+
+	const redacted = redactEvents(events)
+	const fileName = `quarantine_${String(chunkIndex).padStart(3, '0')}.json`
+	await fs.promises.writeFile(
+		path.join(quarantineFolder, fileName),
+		JSON.stringify(redacted.map((event, index) => ({ event, errors: errors[index] })), null, 2)
+	)
+
+	for (const eventErrors of errors) {
+		logToOutput(`Quarantined malformed event: ${eventErrors.join('; ')}`, 'error')
+	}
+}
+
+/**
+ * Run a task on the session files after the ones already queued
+ * Chunk saves and uploads run one at a time, so they never share a chunk index or package a chunk being written
+ */
+function queueSessionFileTask<T>(task: () => Promise<T>): Promise<T> {
+	const result = sessionFileTasks.then(task)
+	sessionFileTasks = result.catch(() => undefined)
+	return result
+}
+
 /**
  * Save events to disk as a JSON chunk file
- * Events are evicted from memory after saving
+ * Events are validated and redacted before writing and evicted from memory after saving
  */
-async function saveChunkToDisk(): Promise<void> {
+function saveChunkToDisk(): Promise<void> {
+	return queueSessionFileTask(writeChunk)
+}
+
+async function writeChunk(): Promise<void> {
 	if (recording.events.length === 0) { return }
 	if (!sessionFolder || !recording.startDateTime) { return }
 
+	// Events recorded while the chunk is written go to the next one
+	const events = recording.events
+	recording.events = []
+	try {
+		await writeChunkEvents(sessionFolder, recording.startDateTime, events)
+	} catch (err) {
+		recording.events = [...events, ...recording.events]
+		throw err
+	}
+}
+
+async function writeChunkEvents(folder: string, startDateTime: Date, events: RecordingEvent[]): Promise<void> {
+	const validEvents: RecordingEvent[] = []
+	const invalidEvents: RecordingEvent[] = []
+	const invalidEventErrors: string[][] = []
+	for (const event of events) {
+		const errors = validateEvent(event)
+		if (errors.length === 0) {
+			validEvents.push(event)
+		} else {
+			invalidEvents.push(event)
+			invalidEventErrors.push(errors)
+		}
+	}
+	if (invalidEvents.length > 0) {
+		await quarantineEvents(invalidEvents, invalidEventErrors)
+	}
+
 	const chunk: RecordingChunk = {
-		version: '2.0',
+		version: CHUNK_VERSION,
 		sessionId: recording.sessionId,
-		startTime: recording.startDateTime.getTime(),
+		startTime: startDateTime.getTime(),
 		chunkIndex,
-		events: recording.events,
+		events: redactEvents(validEvents),
+		redactions: takeRedactionReport(),
 	}
 
 	const chunkFileName = `chunk_${String(chunkIndex).padStart(3, '0')}.json`
-	const filePath = path.join(sessionFolder, chunkFileName)
+	const filePath = path.join(folder, chunkFileName)
 	await fs.promises.writeFile(filePath, JSON.stringify(chunk))
 
-	logToOutput(`Chunk ${chunkIndex} saved (${recording.events.length} events)`, 'info')
+	logToOutput(
+		`Chunk ${chunkIndex} saved (${validEvents.length} events, ${invalidEvents.length} quarantined, ${chunk.redactions.total} redactions)`,
+		'info'
+	)
 
-	recording.events = []
 	chunkIndex++
 }
 
 /**
- * Create tar.gz from session files and upload to S3
+ * Create tar.gz from session files and add it to the upload queue
  * Uses index-based tracking to safely handle concurrent writes
- * Cleans up local files after successful upload
+ * Cleans up local files once the part is safely queued
+ * Returns false if session files could not be packaged and must be kept
  */
-async function createTarGzAndUpload(): Promise<void> {
-	if (uploadInProgress) { return }
-	if (!sessionFolder || !recording.startDateTime) { return }
+function createTarGzAndQueueUpload(): Promise<boolean> {
+	return queueSessionFileTask(queueSessionPart)
+}
 
-	uploadInProgress = true
+async function queueSessionPart(): Promise<boolean> {
+	if (!sessionFolder || !recording.startDateTime) { return false }
 
-	try {
-		// Snapshot the ranges to upload (prevents race condition)
-		const lastChunkToInclude = chunkIndex - 1
-		const lastSnapshotToInclude = snapshotCounter - 1
-		const snapshotsDir = path.join(sessionFolder, 'snapshots')
+	// Snapshot the ranges to upload (prevents race condition)
+	const lastChunkToInclude = chunkIndex - 1
+	const lastSnapshotToInclude = snapshotCounter - 1
+	const snapshotsDir = path.join(sessionFolder, 'snapshots')
 
-		if (lastChunkToInclude < 0 && lastSnapshotToInclude < 0) {
-			return
-		}
+	if (lastChunkToInclude < 0 && lastSnapshotToInclude < 0) {
+		return true
+	}
 
-		const filesToTar: string[] = []
-		const chunkFilesToDelete: string[] = []
+	const filesToTar: string[] = []
+	const chunkFilesToDelete: string[] = []
 
-		for (let i = 0; i <= lastChunkToInclude; i++) {
-			const chunkFileName = `chunk_${String(i).padStart(3, '0')}.json`
-			const chunkPath = path.join(sessionFolder, chunkFileName)
-			if (fs.existsSync(chunkPath)) {
-				filesToTar.push(chunkFileName)
-				chunkFilesToDelete.push(chunkPath)
-			}
+	for (let i = 0; i <= lastChunkToInclude; i++) {
+		const chunkFileName = `chunk_${String(i).padStart(3, '0')}.json`
+		const chunkPath = path.join(sessionFolder, chunkFileName)
+		if (fs.existsSync(chunkPath)) {
+			filesToTar.push(chunkFileName)
+			chunkFilesToDelete.push(chunkPath)
 		}
+	}
 
-		const snapshotFilesToDelete: string[] = []
+	const snapshotFilesToDelete: string[] = []
 
-		for (let i = 0; i <= lastSnapshotToInclude; i++) {
-			const snapshotFileName = `snapshot_${String(i + 1).padStart(3, '0')}.json`
-			const snapshotPath = path.join(snapshotsDir, snapshotFileName)
-			if (fs.existsSync(snapshotPath)) {
-				filesToTar.push(path.join('snapshots', snapshotFileName))
-				snapshotFilesToDelete.push(snapshotPath)
-			}
+	for (let i = 0; i <= lastSnapshotToInclude; i++) {
+		const snapshotFileName = `snapshot_${String(i + 1).padStart(3, '0')}.json`
+		const snapshotPath = path.join(snapshotsDir, snapshotFileName)
+		if (fs.existsSync(snapshotPath)) {
+			filesToTar.push(path.join('snapshots', snapshotFileName))
+			snapshotFilesToDelete.push(snapshotPath)
 		}
+	}
 
-		if (filesToTar.length === 0) {
-			return
-		}
+	if (filesToTar.length === 0) {
+		return true
+	}
 
-		const baseFilePath = generateBaseFilePath(recording.startDateTime, false, undefined, recording.sessionId)
-		if (!baseFilePath) { return }
+	const baseFilePath = generateBaseFilePath(recording.startDateTime, false, undefined, recording.sessionId)
+	if (!baseFilePath) { return false }
 
-		const exportPath = getExportPath()
-		if (!exportPath) { return }
+	const exportPath = getExportPath()
+	if (!exportPath) { return false }
 
-		const folderPath = path.dirname(path.join(exportPath, baseFilePath))
-		const tarFileName = `source_part_${String(partIndex).padStart(3, '0')}.tar.gz`
-		const tarPath = path.join(folderPath, tarFileName)
+	const folderPath = path.dirname(path.join(exportPath, baseFilePath))
+	const tarFileName = `source_part_${String(partIndex).padStart(3, '0')}.tar.gz`
+	const tarPath = path.join(sessionFolder, tarFileName)
+	const relativePath = path.relative(exportPath, path.join(folderPath, tarFileName))
 
+	try {
 		await tar.create(
 			{ gzip: true, file: tarPath, cwd: sessionFolder },
 			filesToTar
 		)
+		await enqueueUpload(tarPath, relativePath)
+	} catch (err) {
+		// Keep session files, they are packaged again on the next attempt
+		await fs.promises.rm(tarPath, { force: true })
+		logToOutput(`Failed to queue part ${partIndex}, keeping local files for retry: ${err}`, 'error')
+		return false
+	}
 
-		const relativePath = path.relative(exportPath, tarPath)
-		const uploadSucceeded = await uploadGzipFile(tarPath, relativePath)
-
-		if (uploadSucceeded) {
-			for (const chunkPath of chunkFilesToDelete) {
-				await fs.promises.unlink(chunkPath)
-			}
-			for (const snapshotPath of snapshotFilesToDelete) {
-				await fs.promises.unlink(snapshotPath)
-			}
-			await fs.promises.unlink(tarPath)
-
-			logToOutput(`Uploaded part ${partIndex} (${filesToTar.length} files)`, 'info')
+	for (const chunkPath of chunkFilesToDelete) {
+		await fs.promises.unlink(chunkPath)
+	}
+	for (const snapshotPath of snapshotFilesToDelete) {
+		await fs.promises.unlink(snapshotPath)
+	}
 
-			partIndex++
-		} else {
-			// Upload failed, delete the tar
-			// (it will be recreated on next upload attempt with more data)
-			await fs.promises.unlink(tarPath)
-			logToOutput(`Upload failed for part ${partIndex}, keeping local files for retry`, 'info')
-		}
+	logToOutput(`Queued part ${partIndex} (${filesToTar.length} files)`, 'info')
 
-	} finally {
-		uploadInProgress = false
-	}
+	partIndex++
+	return true
 }
 
 /**
- * Write a snapshot to disk
+ * Write a redacted snapshot to disk
  * Returns the snapshot ID for reference in events
  */
 async function writeSnapshot(snapshot: Record<string, string>): Promise<string> {
@@ -282,7 +428,7 @@ async function writeSnapshot(snapshot: Record<string, string>): Promise<string>
 	}
 
 	const filePath = path.join(snapshotsDir, `${snapshotId}.json`)
-	await fs.promises.writeFile(filePath, JSON.stringify(snapshot))
+	await fs.promises.writeFile(filePath, JSON.stringify(redactSnapshot(snapshot)))
 
 	return snapshotId
 }
@@ -299,7 +445,7 @@ function isTextContent(content: string): boolean {
  * Log a workspace snapshot capturing the before-state of all files
  * Called on first agent edit in a batch to be able to reconstruct what the LLM saw
  */
-async function logWorkspaceSnapshot(changedFile: string, oldContent: string): Promise<void> {
+async function logWorkspaceSnapshot(changedFile: string, oldContent: string, workspaceFolder: string): Promise<void> {
 	if (!recording.isRecording || !recording.startDateTime) {return}
 	if (!sessionFolder) {return}
 
@@ -316,12 +462,14 @@ async function logWorkspaceSnapshot(changedFile: string, oldContent: string): Pr
 
 	const snapshotId = await writeSnapshot(beforeState)
 
+	noteActivity()
 	recording.sequence++
 	const event: WorkspaceSnapshotEvent = {
 		sequence: recording.sequence,
 		timestamp: Date.now(),
 		type: 'workspace_snapshot',
 		snapshotId,
+		workspaceFolder,
 	}
 	recording.events.push(event)
 }
@@ -390,15 +538,89 @@ function computeAgentOnlyDiff(
 	)
 }
 
+function clearRefactorBatch(): void {
+	resetRefactorState()
+	if (refactorObservationTimeout) {
+		clearTimeout(refactorObservationTimeout)
+		refactorObservationTimeout = null
+	}
+}
+
+/**
+ * Record all changes of a document edited by a user refactor (rename, code action, replace all, ...)
+ * Edits share the batch ID and are buffered for FS_CHANGE correlation, so saving them is not attributed to agents
+ */
+function handleRefactorBatchChange(event: vscode.TextDocumentChangeEvent, batchId: string): void {
+	agentBatchActive = false
+
+	const file = vscode.workspace.asRelativePath(event.document.fileName)
+	const diffs: EditDiff[] = []
+	for (const change of event.contentChanges) {
+		const diff: EditDiff = {
+			rangeOffset: change.rangeOffset,
+			rangeLength: change.rangeLength,
+			text: change.text,
+		}
+		const action: EditAction = {
+			kind: 'edit',
+			source: 'user',
+			file,
+			diff,
+			batchId,
+		}
+		logAction(action)
+		diffs.push(diff)
+
+		const edits = pendingUserEdits.get(file) ?? []
+		if (edits.length < MAX_BUFFER_SIZE_PER_FILE) {
+			edits.push({
+				rangeOffset: change.rangeOffset,
+				rangeLength: change.rangeLength,
+				text: change.text,
+			})
+			pendingUserEdits.set(file, edits)
+		}
+	}
+	redactDocumentChange(event.document.uri.toString(), file, event.document.getText(), event.contentChanges, diffs)
+
+	// One observation once all documents of the workspace edit have changed
+	if (!refactorObservationTimeout) {
+		refactorObservationTimeout = setTimeout(() => {
+			refactorObservationTimeout = null
+			if (!recording.isRecording) {return}
+			logObservation(captureObservation())
+			resetViewportChanged()
+		}, REFACTOR_OBSERVATION_DELAY_MS)
+	}
+}
+
 function handleTextDocumentChange(event: vscode.TextDocumentChangeEvent): void {
 	if (!recording.isRecording) {return}
 	if (isCurrentFileExported()) {return}
-	if (event.document.uri.scheme !== 'file') {return}
+	if (!isCapturedDocument(event.document.uri)) {return}
+	if (event.document.uri.scheme === NOTEBOOK_CELL_SCHEME) {
+		handleNotebookCellEdit(event)
+		return
+	}
+	// Only files on disk are correlated with filesystem changes, other documents (untitled buffers) have no save to correlate
+	const onDisk = event.document.uri.scheme === 'file'
+
+	const isUndoRedo = event.reason === vscode.TextDocumentChangeReason.Undo || event.reason === vscode.TextDocumentChangeReason.Redo
+	const batchId = event.contentChanges.length > 0 ? takeRefactorBatch(event.document.uri.toString(), isUndoRedo) : null
+	if (batchId) {
+		handleRefactorBatchChange(event, batchId)
+		return
+	}
 
 	const editor = vscode.window.activeTextEditor
 
 	// Must be active document to be a user edit
-	if (!editor || event.document !== editor.document) {return}
+	if (!editor || event.document !== editor.document) {
+		if (onDisk && event.contentChanges.length > 0) {
+			noteEditorEdit(vscode.workspace.asRelativePath(event.document.fileName))
+		}
+		return
+	}
 
 	// User activity resets agent batch
 	agentBatchActive = false
@@ -412,53 +634,133 @@ function handleTextDocumentChange(event: vscode.TextDocumentChangeEvent): void {
 	} else if (event.reason === vscode.TextDocumentChangeReason.Redo) {
 		reason = 'redo'
 	}
+	const inlineCompletion = detectInlineCompletion(event)
 
-	for (const change of event.contentChanges) {
+	// Changes of a multi-cursor edit are recorded by cursor, in the order they can be replayed
+	const cursorChanges = inlineCompletion ? null : groupCursorChanges(event.contentChanges, editor.selections)
+	const cursorGroupId = cursorChanges ? `cursor-${++cursorGroupCounter}` : undefined
+	const changes = cursorChanges ?? event.contentChanges.map((change) => ({ change }))
+
+	const diffs: EditDiff[] = []
+	for (const { change, ...cursor } of changes) {
 		// Drop changes outside viewport, these will be captured by filesystem watcher
 		if (!isChangeWithinViewport(change.range, visibleRanges)) {
 			continue
 		}
 
-		// This is a user edit, record it
-		const action: EditAction = {
-			kind: 'edit',
-			source: 'user',
-			file,
-			diff: {
-				rangeOffset: change.rangeOffset,
-				rangeLength: change.rangeLength,
-				text: change.text,
-			},
-			reason,
+		const diff: EditDiff = {
+			rangeOffset: change.rangeOffset,
+			rangeLength: change.rangeLength,
+			text: change.text,
 		}
 
+		// This is a user edit (or a completion accepted by the user), record it
+		const action: EditAction | InlineCompletionAction = inlineCompletion
+			? {
+				kind: 'inline_completion',
+				source: 'user',
+				file,
+				diff,
+				...inlineCompletion,
+				...attributeInlineCompletion(),
+			}
+			: {
+				kind: 'edit',
+				source: 'user',
+				file,
+				diff,
+				reason,
+				...(cursorGroupId ? { cursorGroupId, ...cursor } : {}),
+			}
+
 		// Log action only (observation will be captured by handleSelectionChange)
 		// when VS Code fires onDidChangeTextEditorSelection (after visibleRanges and selection are updated VS-Code-internally)
 		logAction(action)
 		pendingEditFile = file
+		diffs.push(diff)
 
-		// Add to pending edits buffer for correlation with FS_CHANGE
-		const pendingEdit: PendingEdit = {
-			rangeOffset: change.rangeOffset,
-			rangeLength: change.rangeLength,
-			text: change.text,
+		if (!onDisk) {
+			continue
 		}
+
+		// Add to pending edits buffer for correlation with FS_CHANGE (a copy, recorded diffs are redacted in place)
 		const edits = pendingUserEdits.get(file) ?? []
 		if (edits.length < MAX_BUFFER_SIZE_PER_FILE) {
-			edits.push(pendingEdit)
+			edits.push({ ...diff })
 			pendingUserEdits.set(file, edits)
 		}
 	}
+	redactDocumentChange(event.document.uri.toString(), file, event.document.getText(), event.contentChanges, diffs)
 
 	actionsProvider.setCurrentFile(event.document.fileName)
 }
 
+function handleNotebookCellEdit(event: vscode.TextDocumentChangeEvent): void {
+	if (event.contentChanges.length === 0) {return}
+	const cell = findNotebookCell(event.document)
+	if (!cell) {return}
+
+	const file = vscode.workspace.asRelativePath(cell.notebook.uri.fsPath)
+	// Edits of the focused cell are the user's, other cells are edited by extensions and reloads from disk by their writer
+	const source = getNotebookReloadSource(cell.notebook)
+		?? (vscode.window.activeTextEditor?.document === event.document ? 'user' : 'agent')
+	const isUserEdit = source === 'user'
+	if (isUserEdit) {
+		// User activity resets agent batch
+		agentBatchActive = false
+	}
+
+	const diffs: EditDiff[] = []
+	for (const change of event.contentChanges) {
+		const diff: EditDiff = {
+			rangeOffset: change.rangeOffset,
+			rangeLength: change.rangeLength,
+			text: change.text,
+		}
+		const action: NotebookCellEditAction = {
+			kind: 'notebook_cell_edit',
+			source,
+			file,
+			cellIndex: cell.index,
+			diff,
+		}
+		logAction(action)
+		diffs.push(diff)
+	}
+	redactDocumentChange(event.document.uri.toString(), file, event.document.getText(), event.contentChanges, diffs)
+
+	if (isUserEdit) {
+		// Observation will be captured by handleSelectionChange, as for regular edits
+		pendingEditFile = file
+	} else {
+		logObservation(captureObservation())
+	}
+}
+
+function handleNotebookCellChange(action: NotebookCellChangeAction): void {
+	if (!recording.isRecording) {return}
+	if (isCurrentFileExported()) {return}
+
+	if (action.source === 'user') {
+		agentBatchActive = false
+	}
+	logActionAndObservation(action)
+}
+
+function handleNotebookCellExecution(action: NotebookCellExecutionAction): void {
+	if (!recording.isRecording) {return}
+	if (isCurrentFileExported()) {return}
+
+	logActionAndObservation(action)
+}
+
 function handleSelectionChange(event: vscode.TextEditorSelectionChangeEvent): void {
 	if (!recording.isRecording) {return}
 	if (event.textEditor !== vscode.window.activeTextEditor) {return}
 	if (isCurrentFileExported()) {return}
 
 	const editor = event.textEditor
+	if (!isCapturedDocument(editor.document.uri)) {return}
 	const selection = event.selections[0]
 	if (!selection) {return}
 
@@ -467,6 +769,11 @@ function handleSelectionChange(event: vscode.TextEditorSelectionChangeEvent): vo
 
 	const file = vscode.workspace.asRelativePath(editor.document.fileName)
 
+	// Jumps of navigation commands are selection changes by command, typing, clicks and arrow keys are not
+	if (event.kind === vscode.TextEditorSelectionChangeKind.Keyboard || event.kind === vscode.TextEditorSelectionChangeKind.Mouse) {
+		noteCursorMove()
+	}
+
 	// Check if this selection change is completing a pending edit action
 	// This means that this selection event is simply a consequence of an edit event
 	// VS Code fires: onDidChangeTextDocument → onDidChangeTextEditorSelection
@@ -479,6 +786,12 @@ function handleSelectionChange(event: vscode.TextEditorSelectionChangeEvent): vo
 		return
 	}
 
+	// A jump caused by a navigation command (go to definition within the file, symbol search, ...)
+	if (logNavigation(file, editor)) {
+		actionsProvider.setCurrentFile(editor.document.fileName)
+		return
+	}
+
 	// This is an intentional navigation (click, arrow keys, search, etc.)
 	const selectedText = editor.document.getText(selection)
 
@@ -495,24 +808,54 @@ function handleSelectionChange(event: vscode.TextEditorSelectionChangeEvent): vo
 			character: selection.end.character,
 		},
 		selectedText,
+		...(event.selections.length > 1 ? { selections: describeSelections(editor.document, event.selections) } : {}),
 	}
 
 	logActionAndObservation(action)
 	actionsProvider.setCurrentFile(editor.document.fileName)
 }
 
+/**
+ * Record a jump to the editor's location as a navigation, if a navigation command led to it
+ */
+function logNavigation(file: string, editor: vscode.TextEditor): boolean {
+	const to = getEditorLocation(file, editor)
+	const navigation = takeNavigation(to)
+	if (!navigation) {return false}
+
+	const action: NavigationAction = {
+		kind: 'navigation',
+		source: 'user',
+		...navigation,
+		to,
+	}
+	logActionAndObservation(action)
+	return true
+}
+
 function handleActiveEditorChange(editor: vscode.TextEditor | undefined): void {
 	updateStatusBarItem()
 	
 	if (!recording.isRecording) {return}
 	if (!editor) {return}
 	if (isCurrentFileExported()) {return}
+	if (!isCapturedDocument(editor.document.uri)) {return}
 
 	// User activity resets agent batch
 	agentBatchActive = false
 
 	const file = vscode.workspace.asRelativePath(editor.document.fileName)
 
+	// Moving between cells of a notebook is not a tab switch, the cell selection is recorded with the next observation
+	if (editor.document.uri.scheme === NOTEBOOK_CELL_SCHEME && file === previousFile) {return}
+
+	// Opening another file through a navigation command (go to definition, quick open, back, ...)
+	if (logNavigation(file, editor)) {
+		previousFile = file
+		actionsProvider.setCurrentFile(editor.document.fileName)
+		return
+	}
+
 	const action: TabSwitchAction = {
 		kind: 'tab_switch',
 		source: 'user',
@@ -544,7 +887,7 @@ function handleTerminalFocus(terminalId: string, terminalName: string): void {
 	actionsProvider.setCurrentFile(`Terminal: ${terminalName}`)
 }
 
-function handleTerminalCommand(terminalId: string, terminalName: string, command: string): void {
+function handleTerminalCommand(terminalId: string, terminalName: string, command: string, commandId: string, lowFidelity: boolean): void {
 	if (!recording.isRecording) {return}
 	if (isCurrentFileExported()) {return}
 
@@ -557,25 +900,179 @@ function handleTerminalCommand(terminalId: string, terminalName: string, command
 		terminalId,
 		terminalName,
 		command,
+		commandId,
+		...(lowFidelity ? { lowFidelity } : {}),
+	}
+
+	logActionAndObservation(action)
+}
+
+function handleTerminalInput(action: TerminalInputAction): void {
+	if (!recording.isRecording) {return}
+	if (isCurrentFileExported()) {return}
+
+	// User activity resets agent batch
+	if (action.source === 'user') {
+		agentBatchActive = false
 	}
 
 	logActionAndObservation(action)
 }
 
+function handleTerminalCommandEnd(completion: TerminalCommandCompletion): void {
+	if (!recording.isRecording) {return}
+
+	noteActivity()
+	recording.sequence++
+	const event: TerminalCommandEndEvent = {
+		sequence: recording.sequence,
+		timestamp: Date.now(),
+		type: 'terminal_command_end',
+		...completion,
+	}
+	recording.events.push(event)
+}
+
+function handleDebugSessionChange(change: 'start' | 'stop', session: DebugSessionInfo): void {
+	if (!recording.isRecording) {return}
+
+	const action: DebugSessionAction = {
+		kind: 'debug_session',
+		source: 'user',
+		change,
+		sessionId: session.id,
+		sessionName: session.name,
+		debugType: session.type,
+	}
+
+	logActionAndObservation(action)
+}
+
+function handleBreakpointChange(change: BreakpointAction['change'], breakpoint: BreakpointInfo): void {
+	if (!recording.isRecording) {return}
+	if (isCurrentFileExported()) {return}
+
+	// User activity resets agent batch
+	agentBatchActive = false
+
+	const action: BreakpointAction = {
+		kind: 'breakpoint',
+		source: 'user',
+		change,
+		...breakpoint,
+	}
+
+	logActionAndObservation(action)
+}
+
+function handleDebugStep(step: DebugStepKind, sessionId: string): void {
+	if (!recording.isRecording) {return}
+
+	agentBatchActive = false
+
+	const action: DebugStepAction = {
+		kind: 'debug_step',
+		source: 'user',
+		step,
+		sessionId,
+	}
+
+	// The resulting paused state is logged by handleDebugPaused once the debuggee stops
+	logAction(action)
+}
+
+function handleStackFrameSelect(sessionId: string, threadId: number, frame: DebugStackFrame): void {
+	if (!recording.isRecording) {return}
+
+	agentBatchActive = false
+
+	const action: StackFrameSelectAction = {
+		kind: 'stack_frame_select',
+		source: 'user',
+		sessionId,
+		threadId,
+		frame,
+	}
+
+	logActionAndObservation(action)
+}
+
+function handleDebugPaused(): void {
+	if (!recording.isRecording) {return}
+
+	logObservation(captureObservation())
+}
+
+function handleCommand(command: string, args: CommandArgument[], trigger: CommandTrigger, search: CommandSearch | null): void {
+	if (!recording.isRecording) {return}
+	if (isCurrentFileExported()) {return}
+
+	// User activity resets agent batch
+	agentBatchActive = false
+
+	const action: CommandAction = {
+		kind: 'command',
+		source: 'user',
+		command,
+		args,
+		trigger,
+		...(search ? { search } : {}),
+	}
+
+	noteRefactorCommand(command, trigger)
+	noteInlineCompletionCommand(command)
+	const editor = vscode.window.activeTextEditor
+	noteNavigationCommand(
+		command,
+		editor ? getEditorLocation(vscode.workspace.asRelativePath(editor.document.fileName), editor) : null,
+		editor?.document.uri.scheme === SEARCH_EDITOR_SCHEME
+	)
+	// Terminal scrolls move the visible terminal window shown in the following observation
+	applyTerminalScrollCommand(command)
+
+	// Forwarded commands log the resulting observation once they complete
+	if (trigger === 'keybinding') {
+		logAction(action)
+	} else {
+		logActionAndObservation(action)
+	}
+}
+
+function handleSearch(action: SearchAction): void {
+	if (!recording.isRecording) {return}
+	if (isCurrentFileExported()) {return}
+
+	// User activity resets agent batch
+	agentBatchActive = false
+	logActionAndObservation(action)
+}
+
+function handleCommandComplete(command: string): void {
+	if (!recording.isRecording) {return}
+
+	noteRefactorCommandComplete(command)
+
+	logObservation(captureObservation())
+	resetViewportChanged()
+}
+
 
 export async function handleFileChange(
 	file: string,
 	changeType: 'create' | 'change' | 'delete',
 	oldContent: string | null,
-	newContent: string | null
+	newContent: string | null,
+	workspaceFolder: string
 ): Promise<void> {
 	if (!recording.isRecording) {return}
 
 	const relativePath = vscode.workspace.asRelativePath(file)
 
 	// Helper to compute full diff
+	// JSON diffs of open notebooks are not recorded, their changes are captured as cell events
 	const computeFullDiff = (): string | null => {
 		if (!oldContent && !newContent) {return null}
+		if (isOpenNotebook(file)) {return null}
 		if (oldContent === newContent) {return null}
 		const fileName = path.basename(file)
 		return createTwoFilesPatch(
@@ -592,18 +1089,24 @@ export async function handleFileChange(
 	const maybeSnapshotAgentBatch = async (): Promise<void> => {
 		if (!agentBatchActive && oldContent !== null) {
 			agentBatchActive = true
-			await logWorkspaceSnapshot(file, oldContent)
+			await logWorkspaceSnapshot(file, oldContent, workspaceFolder)
 		}
 	}
 
 	// Check for git operation first
-	const gitOperation = getRecentGitOperation()
+	const gitOperation = getRecentGitOperation(file)
+
+	// Saves of open notebooks are already recorded as cell edits and cell changes,
+	// other writes reload the notebook and are recorded as changes of their writer
+	if (changeType === 'change' && isOpenNotebook(file) && !noteNotebookFileChange(file, gitOperation ?? 'agent')) {return}
+
 	if (gitOperation) {
 		pendingUserEdits.clear()
 		const action: FileChangeAction = {
 			kind: 'file_change',
 			source: gitOperation,
 			file: relativePath,
+			workspaceFolder,
 			changeType,
 			diff: computeFullDiff(),
 		}
@@ -624,8 +1127,10 @@ export async function handleFileChange(
 			kind: 'file_change',
 			source,
 			file: relativePath,
+			workspaceFolder,
 			changeType,
 			diff: computeFullDiff(),
+			...(source === 'agent' ? attributeAgentChange(relativePath) : null),
 		}
 		logActionAndObservation(action)
 		pendingUserEdits.delete(relativePath)
@@ -642,8 +1147,10 @@ export async function handleFileChange(
 			kind: 'file_change',
 			source: 'agent',
 			file: relativePath,
+			workspaceFolder,
 			changeType,
 			diff: agentDiff,
+			...attributeAgentChange(relativePath),
 		}
 		logActionAndObservation(action)
 	}
@@ -654,10 +1161,108 @@ export async function handleFileChange(
 function handleScrollObservation(observation: Observation): void {
 	if (!recording.isRecording) {return}
 
-	const editor = vscode.window.activeTextEditor
-	if (!editor) {return}
+	if (vscode.window.visibleTextEditors.length === 0 && !vscode.window.activeNotebookEditor) {return}
 
-	logObservation(observation)
+	// Scrolling is activity, resuming a paused recording logs the current observation itself
+	const resuming = isPaused()
+	noteActivity()
+	if (!resuming) {
+		logObservation(observation)
+	}
+}
+
+function handleWindowFocusChange(focused: boolean): void {
+	if (!recording.isRecording) {return}
+
+	// Marks which observations the human could see, the state itself is unchanged
+	recording.sequence++
+	const event: WindowFocusEvent | WindowBlurEvent = {
+		sequence: recording.sequence,
+		timestamp: Date.now(),
+		type: focused ? 'window_focus' : 'window_blur',
+	}
+	recording.events.push(event)
+}
+
+/**
+ * Save the recorded events in the background, logging failures (e.g. a full disk) instead of rejecting
+ * Unsaved events stay in memory for the next save
+ */
+function runChunkSave(): void {
+	saveChunkToDisk().catch((err) => logToOutput(`Failed to save chunk: ${err}`, 'error'))
+}
+
+/**
+ * Save the recorded events and queue the session files for upload in the background
+ */
+function runSessionFileUpload(): void {
+	saveChunkToDisk()
+		.then(() => createTarGzAndQueueUpload())
+		.catch((err) => logToOutput(`Failed to save and queue session files: ${err}`, 'error'))
+}
+
+function startSessionFileIntervals(): void {
+	if (!diskSaveIntervalId) {
+		diskSaveIntervalId = setInterval(runChunkSave, DISK_SAVE_INTERVAL_MS)
+	}
+	if (!uploadIntervalId) {
+		uploadIntervalId = setInterval(runSessionFileUpload, UPLOAD_INTERVAL_MS)
+	}
+}
+
+function stopSessionFileIntervals(): void {
+	if (diskSaveIntervalId) {
+		clearInterval(diskSaveIntervalId)
+		diskSaveIntervalId = null
+	}
+	if (uploadIntervalId) {
+		clearInterval(uploadIntervalId)
+		uploadIntervalId = null
+	}
+}
+
+function handleIdlePause(reason: SessionPauseEvent['reason'], idleMs: number): void {
+	if (!recording.isRecording) {return}
+
+	recording.sequence++
+	const event: SessionPauseEvent = {
+		sequence: recording.sequence,
+		timestamp: Date.now(),
+		type: 'session_pause',
+		reason,
+		idleMs,
+	}
+	recording.events.push(event)
+	logToOutput(`Recording paused after ${Math.round(idleMs / 1000)}s without activity`, 'info')
+	updateStatusBarItem()
+
+	// Nothing is recorded until the next activity, the recording so far is queued for upload and nothing is polled
+	stopViewportPolling()
+	stopTerminalPolling()
+	stopSessionFileIntervals()
+	runSessionFileUpload()
+}
+
+function handleIdleResume(pausedMs: number): void {
+	if (!recording.isRecording) {return}
+
+	recording.sequence++
+	const event: SessionResumeEvent = {
+		sequence: recording.sequence,
+		timestamp: Date.now(),
+		type: 'session_resume',
+		pausedMs,
+	}
+	recording.events.push(event)
+	logToOutput('Recording resumed', 'info')
+	updateStatusBarItem()
+
+	startViewportPolling()
+	startTerminalPolling()
+	startSessionFileIntervals()
+
+	logObservation(captureObservation())
+	resetViewportChanged()
 }
 
 function handleTerminalViewportChange(_viewport: TerminalViewport): void {
@@ -667,6 +1272,14 @@ function handleTerminalViewportChange(_viewport: TerminalViewport): void {
 	resetViewportChanged()
 }
 
+function handleDiagnosticsChange(): void {
+	if (!recording.isRecording) {return}
+	if (isCurrentFileExported()) {return}
+
+	logObservation(captureObservation())
+	resetViewportChanged()
+}
+
 function createRecordingFolder(folderPath: string): void {
     if (!fs.existsSync(folderPath)) {
         fs.mkdirSync(folderPath, { recursive: true })
@@ -709,11 +1322,20 @@ export async function startRecording(): Promise<void> {
 	resetTerminalState()
 	resetFilesystemState()
 	resetGitState()
+	resetRedactionState()
 	pendingUserEdits.clear()
 	agentBatchActive = false
+	resetAgentAttributionState()
+	resetInlineCompletionState()
+	resetTerminalInputState()
+	resetDiagnosticsState()
+	resetNavigationState()
+	resetSearchState()
+	resetNotebookState()
+	clearRefactorBatch()
+	cursorGroupCounter = 0
 	snapshotCounter = 0
 	partIndex = 1
-	uploadInProgress = false
 
 	// Create recording folder
 	const baseFilePath = generateBaseFilePath(recording.startDateTime, false, undefined, recording.sessionId)
@@ -731,8 +1353,33 @@ export async function startRecording(): Promise<void> {
 	initializeTerminalCapture(extContext, {
 		onFocus: handleTerminalFocus,
 		onCommand: handleTerminalCommand,
+		onCommandEnd: handleTerminalCommandEnd,
 	}, handleTerminalViewportChange)
 	await initializeFilesystemWatcher(extContext, handleFileChange)
+	initializeDebugCapture(extContext, {
+		onSessionChange: handleDebugSessionChange,
+		onBreakpointChange: handleBreakpointChange,
+		onStep: handleDebugStep,
+		onStackFrameSelect: handleStackFrameSelect,
+		onPaused: handleDebugPaused,
+	})
+	initializeInlineCompletionCapture(extContext)
+	initializeTerminalInputCapture(extContext, handleTerminalInput)
+	initializeNotebookCapture(extContext, {
+		onCellChange: handleNotebookCellChange,
+		onCellExecution: handleNotebookCellExecution,
+	})
+	initializeDiagnosticsCapture(extContext, handleDiagnosticsChange)
+	initializeSearchCapture(extContext, handleSearch)
+	initializeIdleMonitor(extContext, {
+		onPause: handleIdlePause,
+		onResume: handleIdleResume,
+		onFocusChange: handleWindowFocusChange,
+	})
+	initializeCommandCapture(extContext, {
+		onCommand: handleCommand,
+		onCommandComplete: handleCommandComplete,
+	})
 
 	// Subscribe to VS Code events
 	subscriptions.push(
@@ -746,9 +1393,12 @@ export async function startRecording(): Promise<void> {
 	)
 
     recording.isRecording = true
+	setRecordingContext(true)
 
 	// Start timer
     intervalId = setInterval(() => {
+		// Paused time is not counted
+		if (isPaused()) {return}
 		timer++
         updateStatusBarItem()
     }, 1000)
@@ -757,14 +1407,7 @@ export async function startRecording(): Promise<void> {
 	const initialObservation = captureObservation()
 	logObservation(initialObservation)
 
-	diskSaveIntervalId = setInterval(async () => {
-		await saveChunkToDisk()
-	}, DISK_SAVE_INTERVAL_MS)
-
-	uploadIntervalId = setInterval(async () => {
-		await saveChunkToDisk()
-		await createTarGzAndUpload()
-	}, UPLOAD_INTERVAL_MS)
+	startSessionFileIntervals()
 
     notificationWithProgress('Recording started')
 	logToOutput('Recording started (v2.0)', 'info')
@@ -788,6 +1431,7 @@ export async function stopRecording(force = false): Promise<void> {
     }
 
     recording.isRecording = false
+	setRecordingContext(false)
 	recording.endDateTime = new Date()
 
 	// Clear intervals
@@ -795,19 +1439,14 @@ export async function stopRecording(force = false): Promise<void> {
 		clearInterval(intervalId)
 		intervalId = null
 	}
-	if (diskSaveIntervalId) {
-		clearInterval(diskSaveIntervalId)
-		diskSaveIntervalId = null
-	}
-	if (uploadIntervalId) {
-		clearInterval(uploadIntervalId)
-		uploadIntervalId = null
-	}
+	stopSessionFileIntervals()
     if (panicButtonTimeoutId) {
         clearTimeout(panicButtonTimeoutId)
         panicButtonTimeoutId = undefined
     }
 	agentBatchActive = false
+	clearRefactorBatch()
+	resetIdleState()
 
 	// Dispose subscriptions
 	for (const subscription of subscriptions) {
@@ -823,10 +1462,13 @@ export async function stopRecording(force = false): Promise<void> {
     actionsProvider.setRecordingState(false)
 
 	await saveChunkToDisk()
-	await createTarGzAndUpload()
+	const queued = await createTarGzAndQueueUpload()
 
-	if (sessionFolder && fs.existsSync(sessionFolder)) {
+	// Only remove the session folder once everything recorded is safely in the upload queue
+	if (queued && sessionFolder && fs.existsSync(sessionFolder)) {
 		await fs.promises.rm(sessionFolder, { recursive: true, force: true })
+	} else if (sessionFolder) {
+		logToOutput(`Keeping unqueued session files in ${sessionFolder}`, 'error')
 	}
 	sessionFolder = null
 
@@ -841,71 +1483,6 @@ export async function stopRecording(force = false): Promise<void> {
 }
 
 
-/**
- * Upload a file using S3 presigned URLs.
- * Two-step process: 1) Request presigned URL from Lambda, 2) Upload directly to S3
- * Returns true if upload succeeded, false otherwise
- */
-async function uploadGzipFile(filePath: string, relativePath: string): Promise<boolean> {
-	if (!hasConsent()) {
-		logToOutput('Skipping upload: no consent', 'info')
-		return false
-	}
-	if (typeof CROWD_CODE_API_GATEWAY_URL !== 'string' || !CROWD_CODE_API_GATEWAY_URL.trim()) {
-		logToOutput('Skipping upload: API URL not configured', 'info')
-		return false
-	}
-
-	try {
-		const compressedData = await fs.promises.readFile(filePath)
-
-		const extensionVersion = extContext.extension.packageJSON.version as string
-		const userId = extContext.globalState.get<string>('userId')
-
-		const response = await axios.post(CROWD_CODE_API_GATEWAY_URL, {
-			fileName: relativePath,
-			version: extensionVersion,
-			userId: userId ?? '',
-		}, {
-			headers: {
-				'Content-Type': 'application/json',
-			},
-			timeout: 10000,
-		})
-
-		const { uploadUrl } = response.data
-		logToOutput(uploadUrl)
-		if (!uploadUrl || typeof uploadUrl !== 'string') {
-			throw new Error('Invalid presigned URL received from server')
-		}
-
-		await axios.put(uploadUrl, compressedData, {
-			headers: {
-				'Content-Type': 'application/gzip',
-			},
-			timeout: 60000,
-			maxBodyLength: Infinity,
-			maxContentLength: Infinity,
-		})
-
-		logToOutput(`Successfully uploaded: ${relativePath}`, 'info')
-		return true
-	} catch (error: unknown) {
-		if (axios.isAxiosError(error)) {
-			if (error.response) {
-				logToOutput(`Error uploading ${relativePath}: ${error.response.status} - ${error.response.data}`, 'error')
-			} else if (error.request) {
-				logToOutput(`Error uploading ${relativePath}: No response received`, 'error')
-			} else {
-				logToOutput(`Error uploading ${relativePath}: ${error.message}`, 'error')
-			}
-		} else {
-			logToOutput(`Error uploading ${relativePath}: ${error}`, 'error')
-		}
-		return false
-	}
-}
-
 export function updateStatusBarItem(): void {
     if (recording.isRecording) {
         if (getConfig().get('appearance.showTimer') === false) {
@@ -915,6 +1492,9 @@ export function updateStatusBarItem(): void {
 			statusBarItem.text = '$(debug-stop) ' + formatDisplayTime(timer)
             statusBarItem.tooltip = 'Stop Recording'
         }
+        if (isPaused()) {
+            statusBarItem.tooltip = 'Recording paused while idle (resumes on activity)'
+        }
         statusBarItem.command = commands.stopRecording
         statusBarItem.show()
     } else {
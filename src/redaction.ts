@@ -0,0 +1,327 @@
+/**
+ * Redaction Module
+ * Scrubs secrets and PII from events and snapshots before they are written to disk
+ */
+
+import * as path from 'node:path'
+import { getConfig, logToOutput } from './utilities'
+import type { EditDiff, RecordingEvent, RedactionReport } from './types'
+
+interface RedactionPattern {
+	category: string
+	regex: RegExp
+}
+
+// Order matters: multi-line and specific patterns run before generic ones
+const BUILTIN_PATTERNS: RedactionPattern[] = [
+	{ category: 'private_key', regex: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g },
+	{ category: 'aws_access_key', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+	{ category: 'github_token', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+	{ category: 'api_key', regex: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+	{ category: 'api_key', regex: /\b[rs]k_(?:live|test)_[0-9a-zA-Z]{16,}\b/g },
+	{ category: 'api_key', regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+	{ category: 'slack_token', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+	{ category: 'jwt', regex: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+	{ category: 'token', regex: /(?<=\bBearer\s+)[A-Za-z0-9._~+/-]{20,}=*/g },
+	{ category: 'secret', regex: /(?<=\b(?:api[_-]?key|secret|token|password|passwd|access[_-]?key)["']?\s*[:=]\s*["'])[^"'\s]{8,}(?=["'])/gi },
+	// Unquoted values (.env, YAML, shell), only with a digit to leave identifiers such as `token: string` alone
+	{ category: 'secret', regex: /(?<=\b(?:api[_-]?key|secret|token|password|passwd|access[_-]?key)["']?[ \t]*[:=][ \t]*)(?=[^\s"',;]*\d)[^\s"',;()[\]{}]{8,}(?![\w(.])/gi },
+	{ category: 'email', regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+]
+
+// Values of KEY=value lines, only applied to .env files (diff prefixes allowed)
+const ENV_VALUE_PATTERN: RedactionPattern = {
+	category: 'env_value',
+	regex: /(?<=^[+\- ]?[ \t]*(?:export[ \t]+)?[A-Za-z_][A-Za-z0-9_]*[ \t]*=[ \t]*)\S.*$/gm,
+}
+
+const ENV_FILE_PATTERN = /^\.env(\..+)?$/
+const PLACEHOLDER_MARKER = '[REDACTED_'
+// Placeholders keep the length of the redacted text, padded with (or made of) this character,
+// so recorded edit offsets stay valid in redacted content
+const MASK_CHARACTER = '*'
+const MASK_ONLY = /^\*+$/
+
+// Context scanned around edited text for secrets completed by the edit
+const EDIT_CONTEXT_LENGTH = 1024
+// Recorded insertions kept per document to mask secrets typed or pasted over several edits
+const MAX_TRACKED_INSERTIONS = 256
+
+// Event fields that hold identifiers rather than captured content
+const STRUCTURAL_KEYS = new Set([
+	'kind',
+	'type',
+	'source',
+	'file',
+	'previousFile',
+	'changeType',
+	'reason',
+	'terminalId',
+	'snapshotId',
+	'workspaceFolder',
+])
+
+// Stable placeholders: the same secret maps to the same placeholder for the whole session
+const placeholders = new Map<string, string>()
+const categoryCounters = new Map<string, number>()
+
+// Recorded edit text inserted in a document, with its offset in the current document content
+interface TrackedInsertion {
+	diff: EditDiff
+	offset: number
+	masked: boolean
+}
+const trackedInsertions = new Map<string, TrackedInsertion[]>()
+
+// Redactions accumulated since the last chunk was written
+let pendingReport: RedactionReport = { total: 0, byCategory: {} }
+
+let customPatternsSource: string[] = []
+let customPatterns: RedactionPattern[] = []
+
+function isRedactionEnabled(): boolean {
+	return getConfig().get<boolean>('redaction.enabled', true)
+}
+
+/**
+ * Compile user-configured patterns, caching the result until the setting changes
+ */
+function getCustomPatterns(): RedactionPattern[] {
+	const sources = getConfig().get<string[]>('redaction.customPatterns', [])
+	if (sources.join('\n') === customPatternsSource.join('\n')) {
+		return customPatterns
+	}
+
+	customPatternsSource = sources
+	customPatterns = []
+	for (const source of sources) {
+		try {
+			customPatterns.push({ category: 'custom', regex: new RegExp(source, 'g') })
+		} catch (err) {
+			logToOutput(`Ignoring invalid redaction pattern ${source}: ${err}`, 'error')
+		}
+	}
+	return customPatterns
+}
+
+/**
+ * Placeholder of the same length as the value, masked entirely if the label does not fit
+ */
+function getPlaceholder(category: string, value: string): string {
+	const key = `${category}:${value}`
+	let placeholder = placeholders.get(key)
+	if (!placeholder) {
+		const count = (categoryCounters.get(category) ?? 0) + 1
+		categoryCounters.set(category, count)
+		const label = `${PLACEHOLDER_MARKER}${category.toUpperCase()}_${count}`
+		placeholder = label.length + 1 <= value.length
+			? `${label.padEnd(value.length - 1, MASK_CHARACTER)}]`
+			: MASK_CHARACTER.repeat(value.length)
+		placeholders.set(key, placeholder)
+	}
+	return placeholder
+}
+
+function countRedaction(category: string): void {
+	pendingReport.total++
+	pendingReport.byCategory[category] = (pendingReport.byCategory[category] ?? 0) + 1
+}
+
+function isRedacted(match: string): boolean {
+	return match.includes(PLACEHOLDER_MARKER) || MASK_ONLY.test(match)
+}
+
+function applyPattern(text: string, pattern: RedactionPattern): string {
+	return text.replace(pattern.regex, (match) => {
+		if (match.length === 0 || isRedacted(match)) {
+			return match
+		}
+		countRedaction(pattern.category)
+		return getPlaceholder(pattern.category, match)
+	})
+}
+
+function isEnvFile(file: string | null): boolean {
+	return file !== null && ENV_FILE_PATTERN.test(path.basename(file))
+}
+
+function getPatterns(file: string | null): RedactionPattern[] {
+	const patterns = [...BUILTIN_PATTERNS, ...getCustomPatterns()]
+	if (isEnvFile(file)) {
+		patterns.push(ENV_VALUE_PATTERN)
+	}
+	return patterns
+}
+
+/**
+ * Redact secrets and PII from a piece of captured text
+ * The file the text belongs to (if any) enables file-specific rules such as .env values
+ */
+export function redactText(text: string, file: string | null = null): string {
+	if (!text || !isRedactionEnabled()) {
+		return text
+	}
+
+	let result = text
+	for (const pattern of getPatterns(file)) {
+		result = applyPattern(result, pattern)
+	}
+	return result
+}
+
+/**
+ * Move tracked insertions of a document by one change, forgetting those the change overwrites
+ */
+function shiftInsertions(insertions: TrackedInsertion[], change: EditDiff): TrackedInsertion[] {
+	const end = change.rangeOffset + change.rangeLength
+	const delta = change.text.length - change.rangeLength
+	return insertions.filter((insertion) => {
+		if (insertion.offset + insertion.diff.text.length <= change.rangeOffset) {
+			return true
+		}
+		if (insertion.offset >= end) {
+			insertion.offset += delta
+			return true
+		}
+		return false
+	})
+}
+
+/**
+ * Secrets in the line(s) around an edit, with their offsets in the document
+ */
+function findSecrets(content: string, file: string, start: number, end: number): { category: string, start: number, end: number }[] {
+	const lineStart = content.lastIndexOf('\n', start - 1) + 1
+	const lineEnd = content.indexOf('\n', end)
+	const from = Math.max(lineStart, start - EDIT_CONTEXT_LENGTH)
+	const to = Math.min(lineEnd === -1 ? content.length : lineEnd, end + EDIT_CONTEXT_LENGTH)
+	const text = content.slice(from, to)
+
+	const secrets: { category: string, start: number, end: number }[] = []
+	for (const pattern of getPatterns(file)) {
+		for (const match of text.matchAll(pattern.regex)) {
+			if (match[0].length > 0 && !isRedacted(match[0])) {
+				secrets.push({ category: pattern.category, start: from + match.index, end: from + match.index + match[0].length })
+			}
+		}
+	}
+	return secrets
+}
+
+/**
+ * Redact secrets completed by a change of a document, including secrets typed or pasted over several edits
+ * `changes` are all changes of the document change (relative to the content before it) and `recorded` the
+ * diffs logged for some of them. Secrets are searched in the content after the change and masked in the recorded
+ * diffs before they are written, keeping their length so recorded offsets stay valid
+ */
+export function redactDocumentChange(
+	document: string,
+	file: string,
+	content: string,
+	changes: readonly EditDiff[],
+	recorded: readonly EditDiff[]
+): void {
+	if (!isRedactionEnabled()) {
+		return
+	}
+
+	// Changes of one document change do not overlap, applying them from the end keeps earlier offsets valid
+	let insertions = trackedInsertions.get(document) ?? []
+	const added: TrackedInsertion[] = []
+	for (const change of [...changes].sort((a, b) => b.rangeOffset - a.rangeOffset)) {
+		insertions = shiftInsertions(insertions, change)
+		const diff = recorded.find((candidate) => candidate.rangeOffset === change.rangeOffset && candidate.rangeLength === change.rangeLength)
+		if (diff && diff.text.length > 0) {
+			const insertion = { diff, offset: change.rangeOffset, masked: false }
+			insertions.push(insertion)
+			added.push(insertion)
+		}
+	}
+	trackedInsertions.set(document, insertions.slice(-MAX_TRACKED_INSERTIONS))
+
+	for (const insertion of added) {
+		for (const secret of findSecrets(content, file, insertion.offset, insertion.offset + insertion.diff.text.length)) {
+			const overlapping = insertions.filter((tracked) => tracked.offset < secret.end && tracked.offset + tracked.diff.text.length > secret.start)
+			if (overlapping.length === 0) {
+				continue
+			}
+			// A secret typed over several edits is reported once, when it is first masked
+			if (overlapping.every((tracked) => !tracked.masked)) {
+				countRedaction(secret.category)
+			}
+			for (const tracked of overlapping) {
+				const text = tracked.diff.text
+				const maskStart = Math.max(0, secret.start - tracked.offset)
+				const maskEnd = Math.min(text.length, secret.end - tracked.offset)
+				tracked.diff.text = text.slice(0, maskStart) + MASK_CHARACTER.repeat(maskEnd - maskStart) + text.slice(maskEnd)
+				tracked.masked = true
+			}
+		}
+	}
+}
+
+/**
+ * Walk an event payload and redact every content string
+ * The nearest enclosing `file` field is used as file context
+ */
+function redactValue(value: unknown, file: string | null): unknown {
+	if (typeof value === 'string') {
+		return redactText(value, file)
+	}
+	if (Array.isArray(value)) {
+		return value.map(item => redactValue(item, file))
+	}
+	if (value && typeof value === 'object') {
+		const source = value as Record<string, unknown>
+		const context = typeof source.file === 'string' ? source.file : file
+		const result: Record<string, unknown> = {}
+		for (const [key, child] of Object.entries(source)) {
+			result[key] = STRUCTURAL_KEYS.has(key) ? child : redactValue(child, context)
+		}
+		return result
+	}
+	return value
+}
+
+/**
+ * Return redacted copies of the given events (the originals are left untouched)
+ */
+export function redactEvents(events: RecordingEvent[]): RecordingEvent[] {
+	if (!isRedactionEnabled()) {
+		return events
+	}
+	return events.map(event => redactValue(event, null) as RecordingEvent)
+}
+
+/**
+ * Return a redacted copy of a workspace snapshot (file path -> content)
+ */
+export function redactSnapshot(snapshot: Record<string, string>): Record<string, string> {
+	if (!isRedactionEnabled()) {
+		return snapshot
+	}
+	const result: Record<string, string> = {}
+	for (const [filePath, content] of Object.entries(snapshot)) {
+		result[filePath] = redactText(content, filePath)
+	}
+	return result
+}
+
+/**
+ * Get the redactions performed since the last call and start a new report
+ */
+export function takeRedactionReport(): RedactionReport {
+	const report = pendingReport
+	pendingReport = { total: 0, byCategory: {} }
+	return report
+}
+
+/**
+ * Reset redaction state (placeholders are only stable within a recording session)
+ */
+export function resetRedactionState(): void {
+	placeholders.clear()
+	categoryCounters.clear()
+	trackedInsertions.clear()
+	pendingReport = { total: 0, byCategory: {} }
+}
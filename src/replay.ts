@@ -0,0 +1,346 @@
+/**
+ * Replay Module
+ * Loads recorded chunks and reconstructs a sequence of frames for the replayer
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as tar from 'tar'
+import { applyPatch } from 'diff'
+import type { Action, Observation, RecordingChunk, RecordingEvent } from './types'
+import { migrate } from './schema'
+
+export interface LoadedRecording {
+	chunks: RecordingChunk[]
+	// Snapshot ID -> (absolute file path -> content)
+	snapshots: Map<string, Record<string, string>>
+}
+
+export interface ReplayFileState {
+	file: string
+	content: string
+}
+
+export interface ReplayFrame {
+	sequence: number
+	// Milliseconds since the first replayed event
+	offsetMs: number
+	label: string
+	observation: Observation | null
+	// File whose content this frame's action changed (if it could be reconstructed), read with getFileState
+	file: string | null
+	// Index of the frame holding the observation / file state in effect at this frame (-1 if none)
+	observationFrame: number
+	fileStateFrame: number
+}
+
+// Reconstructed file contents after the event before eventIndex
+interface ReplayKeyframe {
+	eventIndex: number
+	tracker: FileStateTracker
+}
+
+export interface Replay {
+	frames: ReplayFrame[]
+	events: RecordingEvent[]
+	snapshots: Map<string, Record<string, string>>
+	// File contents are not kept per frame but rebuilt from the closest keyframe
+	keyframes: ReplayKeyframe[]
+}
+
+// Events between keyframes, trades memory (one set of changed contents per keyframe) for seek time
+const KEYFRAME_INTERVAL = 200
+
+const CHUNK_FILE_PATTERN = /(^|\/)chunk_\d+\.json$/
+const SNAPSHOT_FILE_PATTERN = /(^|\/)snapshots\/(snapshot_\d+)\.json$/
+
+/**
+ * Read all entries of a tar.gz archive into memory
+ */
+async function readTarEntries(filePath: string): Promise<Map<string, string>> {
+	const entries = new Map<string, string>()
+	await tar.t({
+		file: filePath,
+		onReadEntry: (entry) => {
+			const parts: Buffer[] = []
+			entry.on('data', (data: Buffer) => parts.push(data))
+			entry.on('end', () => entries.set(entry.path, Buffer.concat(parts).toString('utf-8')))
+		},
+	})
+	return entries
+}
+
+/**
+ * Load the snapshots stored next to a chunk file (in its snapshots/ folder)
+ */
+async function loadSiblingSnapshots(chunkPath: string): Promise<Map<string, Record<string, string>>> {
+	const snapshots = new Map<string, Record<string, string>>()
+	const snapshotsDir = path.join(path.dirname(chunkPath), 'snapshots')
+	if (!fs.existsSync(snapshotsDir)) {
+		return snapshots
+	}
+
+	for (const fileName of await fs.promises.readdir(snapshotsDir)) {
+		if (!fileName.endsWith('.json')) {continue}
+		const content = await fs.promises.readFile(path.join(snapshotsDir, fileName), 'utf-8')
+		snapshots.set(path.basename(fileName, '.json'), JSON.parse(content))
+	}
+	return snapshots
+}
+
+/**
+ * Load a recording from a chunk_NNN.json file or a source_part_NNN.tar.gz archive
+ */
+export async function loadRecording(filePath: string): Promise<LoadedRecording> {
+	if (filePath.endsWith('.json')) {
+		const content = await fs.promises.readFile(filePath, 'utf-8')
+		return {
+			chunks: [migrate(JSON.parse(content))],
+			snapshots: await loadSiblingSnapshots(filePath),
+		}
+	}
+
+	if (filePath.endsWith('.tar.gz')) {
+		const chunks: RecordingChunk[] = []
+		const snapshots = new Map<string, Record<string, string>>()
+		for (const [entryPath, content] of await readTarEntries(filePath)) {
+			const snapshotMatch = SNAPSHOT_FILE_PATTERN.exec(entryPath)
+			if (snapshotMatch) {
+				snapshots.set(snapshotMatch[2], JSON.parse(content))
+			} else if (CHUNK_FILE_PATTERN.test(entryPath)) {
+				chunks.push(migrate(JSON.parse(content)))
+			}
+		}
+		chunks.sort((a, b) => a.chunkIndex - b.chunkIndex)
+		return { chunks, snapshots }
+	}
+
+	throw new Error(`Unsupported recording file: ${path.basename(filePath)}`)
+}
+
+/**
+ * Human-readable label for an action
+ */
+export function describeAction(action: Action): string {
+	switch (action.kind) {
+		case 'edit':
+			return `edit (${action.source}${action.reason ? `, ${action.reason}` : ''}${action.batchId ? `, ${action.batchId}` : ''}${action.cursorGroupId ? `, ${action.cursorGroupId}` : ''}) ${action.file}`
+		case 'inline_completion':
+			return `inline_completion (${action.agentId}${action.partial ? ', partial' : ''}) ${action.file}`
+		case 'notebook_cell_edit':
+			return `notebook_cell_edit (${action.source}) ${action.file} cell ${action.cellIndex}`
+		case 'notebook_cell_change':
+			return `notebook_cell_change ${action.change} ${action.file} cell ${action.previousIndex !== undefined ? `${action.previousIndex} → ` : ''}${action.cellIndex}`
+		case 'notebook_cell_execution':
+			return `notebook_cell_execution ${action.file} cell ${action.cellIndex}${action.success === false ? ' (failed)' : ''}`
+		case 'selection':
+			return `selection ${action.file}:${action.selectionStart.line + 1}${action.selections ? ` (${action.selections.length} cursors)` : ''}`
+		case 'tab_switch':
+			return `tab_switch ${action.previousFile ?? '(none)'} → ${action.file}`
+		case 'terminal_focus':
+			return `terminal_focus ${action.terminalName}`
+		case 'terminal_command':
+			return `terminal_command ${action.command}`
+		case 'terminal_input':
+			return `terminal_input (${action.via}${action.redacted ? ', redacted' : ''}) ${JSON.stringify(action.text)}`
+		case 'file_change':
+			return `file_change (${action.agentId ?? action.source}, ${action.changeType}) ${action.file}`
+		case 'debug_session':
+			return `debug_session ${action.change} ${action.sessionName}`
+		case 'breakpoint':
+			return `breakpoint ${action.change} ${action.file ? `${action.file}:${action.line}` : action.functionName}`
+		case 'debug_step':
+			return `debug_step ${action.step}`
+		case 'stack_frame_select':
+			return `stack_frame_select ${action.frame.name}${action.frame.file ? ` ${action.frame.file}:${action.frame.line}` : ''}`
+		case 'command':
+			return `command ${action.command}${action.trigger === 'keybinding' ? ' (keybinding)' : ''}`
+		case 'search':
+			return `search ${JSON.stringify(action.query)}${action.resultCount !== null ? ` (${action.resultCount} results)` : ''}`
+		case 'navigation':
+			return `navigation ${action.navigation} ${action.from ? `${action.from.file}:${action.from.position.line + 1}` : '(none)'} → ${action.to.file}:${action.to.position.line + 1}`
+	}
+}
+
+/**
+ * Tracks reconstructed file contents, keyed by the relative paths used in events
+ * Files not seen yet are looked up in the most recent workspace snapshot (absolute paths)
+ */
+export class FileStateTracker {
+	private readonly files: Map<string, string>
+	private snapshot: Record<string, string>
+
+	constructor(files = new Map<string, string>(), snapshot: Record<string, string> = {}) {
+		this.files = files
+		this.snapshot = snapshot
+	}
+
+	// Contents are immutable strings, copies share them
+	clone(): FileStateTracker {
+		return new FileStateTracker(new Map(this.files), this.snapshot)
+	}
+
+	loadSnapshot(snapshot: Record<string, string>): void {
+		this.snapshot = snapshot
+		this.files.clear()
+	}
+
+	get(file: string): string | undefined {
+		const known = this.files.get(file)
+		if (known !== undefined) {
+			return known
+		}
+		const normalized = file.replace(/\\/g, '/')
+		for (const [snapshotPath, content] of Object.entries(this.snapshot)) {
+			const candidate = snapshotPath.replace(/\\/g, '/')
+			if (candidate === normalized || candidate.endsWith(`/${normalized}`)) {
+				return content
+			}
+		}
+		return undefined
+	}
+
+	set(file: string, content: string): void {
+		this.files.set(file, content)
+	}
+
+	delete(file: string): void {
+		this.files.delete(file)
+	}
+}
+
+/**
+ * Apply an action to the tracked file states
+ * Returns the new state of the touched file, or null if it cannot be reconstructed
+ */
+export function applyAction(tracker: FileStateTracker, action: Action): ReplayFileState | null {
+	if (action.kind === 'edit' || action.kind === 'inline_completion') {
+		const content = tracker.get(action.file)
+		if (content === undefined) {
+			return null
+		}
+		const { rangeOffset, rangeLength, text } = action.diff
+		const updated = content.slice(0, rangeOffset) + text + content.slice(rangeOffset + rangeLength)
+		tracker.set(action.file, updated)
+		return { file: action.file, content: updated }
+	}
+
+	if (action.kind === 'file_change') {
+		if (action.changeType === 'delete') {
+			tracker.delete(action.file)
+			return { file: action.file, content: '' }
+		}
+		if (!action.diff) {
+			return null
+		}
+		const base = action.changeType === 'create' ? '' : tracker.get(action.file)
+		if (base === undefined) {
+			return null
+		}
+		const updated = applyPatch(base, action.diff)
+		if (updated === false) {
+			return null
+		}
+		tracker.set(action.file, updated)
+		return { file: action.file, content: updated }
+	}
+
+	return null
+}
+
+/**
+ * Apply an event to the tracked file states, returning the new state of the touched file (if any)
+ */
+function applyEvent(tracker: FileStateTracker, event: RecordingEvent, snapshots: Map<string, Record<string, string>>): ReplayFileState | null {
+	if (event.type === 'action') {
+		return applyAction(tracker, event.action)
+	}
+	if (event.type === 'workspace_snapshot') {
+		const snapshot = snapshots.get(event.snapshotId)
+		if (snapshot) {
+			tracker.loadSnapshot(snapshot)
+		}
+	}
+	return null
+}
+
+function describeEvent(event: RecordingEvent, snapshots: Map<string, Record<string, string>>): string {
+	switch (event.type) {
+		case 'observation':
+			return 'observation'
+		case 'action':
+			return describeAction(event.action)
+		case 'terminal_command_end':
+			return `terminal_command_end exit ${event.exitCode ?? 'unknown'} (${event.durationMs}ms)`
+		case 'session_pause':
+			return `session_pause (${event.reason})`
+		case 'session_resume':
+			return `session_resume after ${Math.round(event.pausedMs / 1000)}s`
+		case 'window_focus':
+		case 'window_blur':
+			return event.type
+		case 'workspace_snapshot': {
+			const snapshot = snapshots.get(event.snapshotId)
+			return snapshot
+				? `workspace_snapshot ${event.snapshotId} (${Object.keys(snapshot).length} files)`
+				: `workspace_snapshot ${event.snapshotId} (missing)`
+		}
+	}
+}
+
+/**
+ * Reconstruct replay frames (one per event) from loaded chunks
+ * File contents are rebuilt on demand with getFileState, so memory does not grow with edits × file size
+ */
+export function buildReplay(recording: LoadedRecording): Replay {
+	const events: RecordingEvent[] = recording.chunks.flatMap(chunk => chunk.events)
+	const frames: ReplayFrame[] = []
+	const keyframes: ReplayKeyframe[] = []
+	const tracker = new FileStateTracker()
+	const startTime = events[0]?.timestamp ?? 0
+
+	let observationFrame = -1
+	let fileStateFrame = -1
+
+	for (const [index, event] of events.entries()) {
+		if (index % KEYFRAME_INTERVAL === 0) {
+			keyframes.push({ eventIndex: index, tracker: tracker.clone() })
+		}
+
+		const fileState = applyEvent(tracker, event, recording.snapshots)
+		if (fileState) {
+			fileStateFrame = index
+		}
+		if (event.type === 'observation') {
+			observationFrame = index
+		}
+
+		frames.push({
+			sequence: event.sequence,
+			offsetMs: event.timestamp - startTime,
+			label: describeEvent(event, recording.snapshots),
+			observation: event.type === 'observation' ? event.observation : null,
+			file: fileState?.file ?? null,
+			observationFrame,
+			fileStateFrame,
+		})
+	}
+
+	return { frames, events, snapshots: recording.snapshots, keyframes }
+}
+
+/**
+ * Reconstructed content of the file changed by a frame, replayed from the closest keyframe before it
+ */
+export function getFileState(replay: Replay, frameIndex: number): ReplayFileState | null {
+	if (!replay.frames[frameIndex]?.file) {
+		return null
+	}
+
+	const keyframe = replay.keyframes[Math.floor(frameIndex / KEYFRAME_INTERVAL)]
+	const tracker = keyframe.tracker.clone()
+	for (let index = keyframe.eventIndex; index < frameIndex; index++) {
+		applyEvent(tracker, replay.events[index], replay.snapshots)
+	}
+	return applyEvent(tracker, replay.events[frameIndex], replay.snapshots)
+}
@@ -0,0 +1,157 @@
+import * as vscode from 'vscode'
+import * as path from 'node:path'
+import * as crypto from 'node:crypto'
+import { loadRecording, buildReplay, getFileState, type Replay } from './replay'
+import { logToOutput } from './utilities'
+
+/**
+ * Webview panel that steps through a recorded chunk or uploaded part
+ */
+export class ReplayPanel {
+	public static readonly viewType = 'crowd-code.replay'
+
+	private static currentPanel: ReplayPanel | undefined
+
+	private readonly _panel: vscode.WebviewPanel
+	private readonly _extensionUri: vscode.Uri
+	private readonly _disposables: vscode.Disposable[] = []
+	private _filePath: string
+	private _replay: Replay | null = null
+
+	public static async createOrShow(extensionUri: vscode.Uri, filePath: string): Promise<void> {
+		const column = vscode.window.activeTextEditor?.viewColumn ?? vscode.ViewColumn.One
+
+		if (ReplayPanel.currentPanel) {
+			ReplayPanel.currentPanel._panel.reveal(column)
+			await ReplayPanel.currentPanel.load(filePath)
+			return
+		}
+
+		const panel = vscode.window.createWebviewPanel(
+			ReplayPanel.viewType,
+			'crowd-code Replay',
+			column,
+			{
+				enableScripts: true,
+				retainContextWhenHidden: true,
+				localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')],
+			}
+		)
+
+		ReplayPanel.currentPanel = new ReplayPanel(panel, extensionUri, filePath)
+	}
+
+	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, filePath: string) {
+		this._panel = panel
+		this._extensionUri = extensionUri
+		this._filePath = filePath
+
+		this._panel.webview.html = this.getHtml(this._panel.webview)
+
+		this._panel.onDidDispose(() => this.dispose(), null, this._disposables)
+
+		// The webview asks for the recording once its script is ready, and for file contents as it steps through frames
+		this._panel.webview.onDidReceiveMessage(
+			(message: { type: string, index?: number }) => {
+				if (message.type === 'ready') {
+					this.load(this._filePath)
+				} else if (message.type === 'fileState' && message.index !== undefined) {
+					this.postFileState(message.index)
+				}
+			},
+			null,
+			this._disposables
+		)
+	}
+
+	private async load(filePath: string): Promise<void> {
+		this._filePath = filePath
+		this._panel.title = `Replay: ${path.basename(filePath)}`
+
+		try {
+			const recording = await loadRecording(filePath)
+			this._replay = buildReplay(recording)
+			await this._panel.webview.postMessage({
+				type: 'load',
+				title: path.basename(filePath),
+				frames: this._replay.frames,
+			})
+		} catch (err) {
+			const errorMessage = `Failed to load recording ${path.basename(filePath)}: ${err}`
+			logToOutput(errorMessage, 'error')
+			vscode.window.showErrorMessage(errorMessage)
+		}
+	}
+
+	private postFileState(index: number): void {
+		if (!this._replay) {
+			return
+		}
+		void this._panel.webview.postMessage({
+			type: 'fileState',
+			index,
+			fileState: getFileState(this._replay, index),
+		})
+	}
+
+	private getHtml(webview: vscode.Webview): string {
+		const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'main.js'))
+		const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'style.css'))
+		const nonce = crypto.randomBytes(16).toString('hex')
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<link href="${styleUri}" rel="stylesheet">
+	<title>crowd-code Replay</title>
+</head>
+<body>
+	<div class="container replay">
+		<div class="replay-controls">
+			<button id="step-back" class="control-button" title="Previous event">&#9664;&#9664;</button>
+			<button id="play" class="control-button" title="Play / Pause">&#9654;</button>
+			<button id="step-forward" class="control-button" title="Next event">&#9654;&#9654;</button>
+			<input id="seek" type="range" min="0" max="0" value="0">
+			<select id="speed" title="Playback speed">
+				<option value="0.5">0.5x</option>
+				<option value="1" selected>1x</option>
+				<option value="2">2x</option>
+				<option value="4">4x</option>
+				<option value="8">8x</option>
+				<option value="16">16x</option>
+			</select>
+			<span id="position" class="replay-position"></span>
+		</div>
+		<div id="action-label" class="action-label"></div>
+		<div class="replay-panes">
+			<section class="replay-pane">
+				<h3 id="editor-title">Editor</h3>
+				<pre id="editor" class="replay-content"></pre>
+			</section>
+			<section class="replay-pane">
+				<h3 id="terminal-title">Terminal</h3>
+				<pre id="terminal" class="replay-content terminal"></pre>
+			</section>
+		</div>
+		<section class="replay-pane file-state">
+			<h3 id="file-state-title">Reconstructed file</h3>
+			<pre id="file-state" class="replay-content"></pre>
+		</section>
+	</div>
+	<script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`
+	}
+
+	public dispose(): void {
+		ReplayPanel.currentPanel = undefined
+		this._replay = null
+		this._panel.dispose()
+		while (this._disposables.length) {
+			this._disposables.pop()?.dispose()
+		}
+	}
+}
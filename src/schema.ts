@@ -0,0 +1,571 @@
+/**
+ * Recording Schema
+ * Runtime schema for RecordingChunk (mirrors src/types.ts), validation and version migration
+ * The schema is published as schemas/recording-chunk.schema.json (npm run generate-schema)
+ */
+
+import type { RecordingChunk } from './types'
+
+export const CHUNK_VERSION: RecordingChunk['version'] = '2.1'
+
+/**
+ * Subset of JSON Schema (draft-07) understood by the validator below
+ */
+export interface JsonSchema {
+	$schema?: string
+	$id?: string
+	$ref?: string
+	title?: string
+	description?: string
+	type?: JsonType | JsonType[]
+	const?: unknown
+	enum?: unknown[]
+	properties?: Record<string, JsonSchema>
+	required?: string[]
+	additionalProperties?: boolean | JsonSchema
+	items?: JsonSchema
+	anyOf?: JsonSchema[]
+	oneOf?: JsonSchema[]
+	minimum?: number
+	definitions?: Record<string, JsonSchema>
+}
+
+type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null'
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/definitions/${name}` })
+const nullable = (schema: JsonSchema): JsonSchema => ({ anyOf: [schema, { type: 'null' }] })
+const nonNegativeInteger: JsonSchema = { type: 'integer', minimum: 0 }
+
+/**
+ * Object schema where every listed property is required unless named in `optional`
+ */
+function object(properties: Record<string, JsonSchema>, optional: string[] = []): JsonSchema {
+	return {
+		type: 'object',
+		properties,
+		required: Object.keys(properties).filter(key => !optional.includes(key)),
+	}
+}
+
+function action(kind: string, properties: Record<string, JsonSchema>, optional: string[] = []): JsonSchema {
+	return object({ kind: { const: kind }, source: ref('actionSource'), ...properties }, optional)
+}
+
+function event(type: string, properties: Record<string, JsonSchema>, optional: string[] = []): JsonSchema {
+	return object({ sequence: nonNegativeInteger, timestamp: { type: 'number' }, type: { const: type }, ...properties }, optional)
+}
+
+// Shared by the active editor's viewport and the visible editors of split views
+const viewportStateProperties: Record<string, JsonSchema> = {
+	file: { type: 'string' },
+	workspaceFolder: { type: ['string', 'null'] },
+	startLine: nonNegativeInteger,
+	endLine: nonNegativeInteger,
+	content: { type: 'string' },
+	cursorPosition: nullable(ref('cursorPosition')),
+	cursorPositions: { type: 'array', items: ref('cursorPosition') },
+	scheme: { type: 'string' },
+	diffWith: ref('documentReference'),
+}
+
+export const recordingChunkSchema: JsonSchema = {
+	$schema: 'http://json-schema.org/draft-07/schema#',
+	$id: 'https://github.com/p-doom/crowd-code/schemas/recording-chunk.schema.json',
+	title: 'crowd-code recording chunk',
+	description: `A chunk of a crowd-code recording (format version ${CHUNK_VERSION})`,
+	...object({
+		version: { const: CHUNK_VERSION },
+		sessionId: { type: 'string' },
+		startTime: { type: 'number' },
+		chunkIndex: nonNegativeInteger,
+		events: { type: 'array', items: ref('recordingEvent') },
+		redactions: ref('redactionReport'),
+	}),
+	definitions: {
+		actionSource: { enum: ['user', 'agent', 'unknown', 'git', 'git_checkout'] },
+		cursorPosition: object({ line: nonNegativeInteger, character: nonNegativeInteger }),
+		selectionRange: object({
+			start: ref('cursorPosition'),
+			end: ref('cursorPosition'),
+			selectedText: { type: 'string' },
+		}),
+		viewportState: object(viewportStateProperties, ['cursorPositions', 'scheme', 'diffWith']),
+		lineRange: object({ startLine: nonNegativeInteger, endLine: nonNegativeInteger }),
+		visibleEditorState: object({
+			...viewportStateProperties,
+			viewColumn: { type: ['integer', 'null'] },
+			visibleRanges: { type: 'array', items: ref('lineRange') },
+			diagnostics: { type: 'array', items: ref('diagnosticState') },
+		}, ['cursorPositions', 'scheme', 'diffWith', 'diagnostics']),
+		documentReference: object({
+			file: { type: 'string' },
+			scheme: { type: 'string' },
+		}),
+		terminalColor: { type: ['integer', 'string'] },
+		terminalStyleRun: object({
+			start: nonNegativeInteger,
+			end: nonNegativeInteger,
+			fg: ref('terminalColor'),
+			bg: ref('terminalColor'),
+			bold: { type: 'boolean' },
+			dim: { type: 'boolean' },
+			italic: { type: 'boolean' },
+			underline: { type: 'boolean' },
+			inverse: { type: 'boolean' },
+			strikethrough: { type: 'boolean' },
+		}, ['fg', 'bg', 'bold', 'dim', 'italic', 'underline', 'inverse', 'strikethrough']),
+		terminalViewport: object({
+			id: { type: 'string' },
+			name: { type: 'string' },
+			viewport: { type: 'array', items: { type: 'string' } },
+			styles: { type: 'array', items: { type: 'array', items: ref('terminalStyleRun') } },
+			firstLine: nonNegativeInteger,
+			rows: { type: 'integer', minimum: 1 },
+			scrolledLines: { type: 'array', items: { type: 'string' } },
+			lowFidelity: { type: 'boolean' },
+		}, ['styles', 'firstLine', 'rows', 'scrolledLines', 'lowFidelity']),
+		debugStackFrame: object({
+			name: { type: 'string' },
+			file: { type: ['string', 'null'] },
+			line: { type: 'integer' },
+			column: { type: 'integer' },
+		}),
+		debugScope: object({
+			name: { type: 'string' },
+			variables: {
+				type: 'array',
+				items: object({
+					name: { type: 'string' },
+					value: { type: 'string' },
+					type: { type: ['string', 'null'] },
+				}),
+			},
+		}),
+		debugObservation: object({
+			sessionId: { type: 'string' },
+			sessionName: { type: 'string' },
+			pausedLocation: nullable(ref('debugStackFrame')),
+			stopReason: { type: ['string', 'null'] },
+			callStack: { type: 'array', items: ref('debugStackFrame') },
+			scopes: { type: 'array', items: ref('debugScope') },
+			watches: {
+				type: 'array',
+				items: object({ expression: { type: 'string' }, value: { type: 'string' } }),
+			},
+		}),
+		notebookCellOutput: object({
+			mime: { type: 'string' },
+			text: { type: ['string', 'null'] },
+		}),
+		notebookCellState: object({
+			index: nonNegativeInteger,
+			kind: { enum: ['code', 'markdown'] },
+			language: { type: 'string' },
+			content: { type: 'string' },
+			outputs: { type: 'array', items: ref('notebookCellOutput') },
+		}),
+		notebookObservation: object({
+			file: { type: 'string' },
+			activeCell: nullable(nonNegativeInteger),
+			visibleCells: { type: 'array', items: ref('notebookCellState') },
+		}),
+		diagnosticState: object({
+			severity: { enum: ['error', 'warning', 'information', 'hint'] },
+			message: { type: 'string' },
+			source: { type: ['string', 'null'] },
+			code: { type: ['string', 'null'] },
+			start: ref('cursorPosition'),
+			end: ref('cursorPosition'),
+		}),
+		observation: object({
+			viewport: nullable(ref('viewportState')),
+			activeTerminal: nullable(ref('terminalViewport')),
+			debug: ref('debugObservation'),
+			notebook: ref('notebookObservation'),
+			visibleEditors: { type: 'array', items: ref('visibleEditorState') },
+			diagnostics: { type: 'array', items: ref('diagnosticState') },
+			windowFocused: { type: 'boolean' },
+		}, ['debug', 'notebook', 'visibleEditors', 'diagnostics', 'windowFocused']),
+		editDiff: object({
+			rangeOffset: nonNegativeInteger,
+			rangeLength: nonNegativeInteger,
+			text: { type: 'string' },
+		}),
+		editAction: action('edit', {
+			file: { type: 'string' },
+			diff: ref('editDiff'),
+			reason: { enum: ['undo', 'redo'] },
+			batchId: { type: 'string' },
+			cursorGroupId: { type: 'string' },
+			cursorIndex: nonNegativeInteger,
+		}, ['reason', 'batchId', 'cursorGroupId', 'cursorIndex']),
+		inlineCompletionAction: action('inline_completion', {
+			file: { type: 'string' },
+			diff: ref('editDiff'),
+			partial: { type: 'boolean' },
+			detection: { enum: ['command', 'heuristic'] },
+			agentId: { type: 'string' },
+			agentConfidence: { type: 'number', minimum: 0 },
+		}),
+		selectionAction: action('selection', {
+			file: { type: 'string' },
+			selectionStart: ref('cursorPosition'),
+			selectionEnd: ref('cursorPosition'),
+			selectedText: { type: 'string' },
+			selections: { type: 'array', items: ref('selectionRange') },
+		}, ['selections']),
+		tabSwitchAction: action('tab_switch', {
+			file: { type: 'string' },
+			previousFile: { type: ['string', 'null'] },
+		}),
+		terminalFocusAction: action('terminal_focus', {
+			terminalId: { type: 'string' },
+			terminalName: { type: 'string' },
+		}),
+		terminalCommandAction: action('terminal_command', {
+			terminalId: { type: 'string' },
+			terminalName: { type: 'string' },
+			command: { type: 'string' },
+			commandId: { type: 'string' },
+			lowFidelity: { type: 'boolean' },
+		}, ['commandId', 'lowFidelity']),
+		notebookCellEditAction: action('notebook_cell_edit', {
+			file: { type: 'string' },
+			cellIndex: nonNegativeInteger,
+			diff: ref('editDiff'),
+		}),
+		notebookCellChangeAction: action('notebook_cell_change', {
+			file: { type: 'string' },
+			change: { enum: ['add', 'delete', 'move'] },
+			cellIndex: nonNegativeInteger,
+			previousIndex: nonNegativeInteger,
+			cellKind: { enum: ['code', 'markdown'] },
+			content: { type: 'string' },
+		}, ['previousIndex', 'content']),
+		notebookCellExecutionAction: action('notebook_cell_execution', {
+			file: { type: 'string' },
+			cellIndex: nonNegativeInteger,
+			executionOrder: { type: ['integer', 'null'] },
+			success: { type: ['boolean', 'null'] },
+			durationMs: { type: ['number', 'null'], minimum: 0 },
+			outputs: { type: 'array', items: ref('notebookCellOutput') },
+		}),
+		terminalInputAction: action('terminal_input', {
+			terminalId: { type: 'string' },
+			terminalName: { type: 'string' },
+			text: { type: 'string' },
+			submitted: { type: 'boolean' },
+			via: { enum: ['pseudoterminal', 'send_text', 'shell_integration'] },
+			redacted: { type: 'boolean' },
+		}, ['redacted']),
+		fileChangeAction: action('file_change', {
+			file: { type: 'string' },
+			workspaceFolder: { type: ['string', 'null'] },
+			changeType: { enum: ['create', 'change', 'delete'] },
+			diff: { type: ['string', 'null'] },
+			agentId: { type: 'string' },
+			agentConfidence: { type: 'number', minimum: 0 },
+		}, ['agentId', 'agentConfidence']),
+		debugSessionAction: action('debug_session', {
+			change: { enum: ['start', 'stop'] },
+			sessionId: { type: 'string' },
+			sessionName: { type: 'string' },
+			debugType: { type: 'string' },
+		}),
+		breakpointAction: action('breakpoint', {
+			change: { enum: ['add', 'remove', 'toggle'] },
+			enabled: { type: 'boolean' },
+			file: { type: ['string', 'null'] },
+			line: { type: ['integer', 'null'] },
+			functionName: { type: ['string', 'null'] },
+			condition: { type: ['string', 'null'] },
+		}),
+		debugStepAction: action('debug_step', {
+			step: { enum: ['step_over', 'step_into', 'step_out', 'continue', 'pause'] },
+			sessionId: { type: 'string' },
+		}),
+		stackFrameSelectAction: action('stack_frame_select', {
+			sessionId: { type: 'string' },
+			threadId: { type: 'integer' },
+			frame: ref('debugStackFrame'),
+		}),
+		searchOptions: object({
+			regex: { type: 'boolean' },
+			caseSensitive: { type: 'boolean' },
+			wholeWord: { type: 'boolean' },
+			include: { type: 'string' },
+			exclude: { type: 'string' },
+		}),
+		commandAction: action('command', {
+			command: { type: 'string' },
+			args: { type: 'array', items: { type: ['string', 'number', 'boolean', 'null'] } },
+			trigger: { enum: ['keybinding', 'unknown'] },
+			search: object({ query: { type: 'string' }, options: ref('searchOptions') }),
+		}, ['search']),
+		navigationLocation: object({
+			file: { type: 'string' },
+			position: ref('cursorPosition'),
+		}),
+		navigationAction: action('navigation', {
+			navigation: { enum: ['definition', 'references', 'implementation', 'symbol', 'quick-open', 'search', 'back', 'forward'] },
+			command: { type: 'string' },
+			from: nullable(ref('navigationLocation')),
+			to: ref('navigationLocation'),
+		}),
+		searchAction: action('search', {
+			query: { type: 'string' },
+			options: ref('searchOptions'),
+			resultCount: nullable(nonNegativeInteger),
+			visibleResults: {
+				type: 'array',
+				items: object({ file: { type: 'string' }, line: { type: 'integer', minimum: 1 }, text: { type: 'string' } }),
+			},
+		}),
+		action: {
+			oneOf: [
+				ref('editAction'),
+				ref('inlineCompletionAction'),
+				ref('selectionAction'),
+				ref('tabSwitchAction'),
+				ref('terminalFocusAction'),
+				ref('terminalCommandAction'),
+				ref('terminalInputAction'),
+				ref('notebookCellEditAction'),
+				ref('notebookCellChangeAction'),
+				ref('notebookCellExecutionAction'),
+				ref('fileChangeAction'),
+				ref('debugSessionAction'),
+				ref('breakpointAction'),
+				ref('debugStepAction'),
+				ref('stackFrameSelectAction'),
+				ref('commandAction'),
+				ref('navigationAction'),
+				ref('searchAction'),
+			],
+		},
+		observationEvent: event('observation', { observation: ref('observation') }),
+		actionEvent: event('action', { action: ref('action') }),
+		workspaceSnapshotEvent: event('workspace_snapshot', {
+			snapshotId: { type: 'string' },
+			workspaceFolder: { type: ['string', 'null'] },
+		}),
+		terminalOutputDigest: object({
+			lines: nonNegativeInteger,
+			characters: nonNegativeInteger,
+			sha256: { type: 'string' },
+			tail: { type: 'array', items: { type: 'string' } },
+		}),
+		terminalCommandEndEvent: event('terminal_command_end', {
+			commandId: { type: 'string' },
+			terminalId: { type: 'string' },
+			exitCode: { type: ['integer', 'null'] },
+			durationMs: { type: 'number', minimum: 0 },
+			cwd: { type: ['string', 'null'] },
+			output: ref('terminalOutputDigest'),
+			lowFidelity: { type: 'boolean' },
+		}, ['lowFidelity']),
+		sessionPauseEvent: event('session_pause', {
+			reason: { enum: ['idle', 'away'] },
+			idleMs: { type: 'number', minimum: 0 },
+		}),
+		sessionResumeEvent: event('session_resume', {
+			pausedMs: { type: 'number', minimum: 0 },
+		}),
+		windowFocusEvent: event('window_focus', {}),
+		windowBlurEvent: event('window_blur', {}),
+		recordingEvent: {
+			oneOf: [
+				ref('observationEvent'),
+				ref('actionEvent'),
+				ref('workspaceSnapshotEvent'),
+				ref('terminalCommandEndEvent'),
+				ref('sessionPauseEvent'),
+				ref('sessionResumeEvent'),
+				ref('windowFocusEvent'),
+				ref('windowBlurEvent'),
+			],
+		},
+		redactionReport: object({
+			total: nonNegativeInteger,
+			byCategory: { type: 'object', additionalProperties: nonNegativeInteger },
+		}),
+	},
+}
+
+function resolveRef(reference: string): JsonSchema {
+	const name = reference.replace('#/definitions/', '')
+	const resolved = recordingChunkSchema.definitions?.[name]
+	if (!resolved) {
+		throw new Error(`Unknown schema reference ${reference}`)
+	}
+	return resolved
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+	switch (type) {
+		case 'string':
+			return typeof value === 'string'
+		case 'number':
+			return typeof value === 'number' && Number.isFinite(value)
+		case 'integer':
+			return Number.isInteger(value)
+		case 'boolean':
+			return typeof value === 'boolean'
+		case 'null':
+			return value === null
+		case 'array':
+			return Array.isArray(value)
+		case 'object':
+			return typeof value === 'object' && value !== null && !Array.isArray(value)
+	}
+}
+
+/**
+ * Pick the variant whose const properties (e.g. kind or type) match the value
+ * Used to report useful errors when no variant of a union matches
+ */
+function findDiscriminatedVariant(variants: JsonSchema[], value: unknown): JsonSchema | undefined {
+	if (!matchesType(value, 'object')) {
+		return undefined
+	}
+	const record = value as Record<string, unknown>
+	return variants.find(variant => {
+		const resolved = variant.$ref ? resolveRef(variant.$ref) : variant
+		const constEntries = Object.entries(resolved.properties ?? {}).filter(([, property]) => 'const' in property)
+		return constEntries.length > 0 && constEntries.every(([key, property]) => record[key] === property.const)
+	})
+}
+
+function validateValue(schema: JsonSchema, value: unknown, location: string): string[] {
+	if (schema.$ref) {
+		return validateValue(resolveRef(schema.$ref), value, location)
+	}
+
+	const variants = schema.oneOf ?? schema.anyOf
+	if (variants) {
+		const matching = variants.filter(variant => validateValue(variant, value, location).length === 0)
+		if (schema.oneOf ? matching.length === 1 : matching.length > 0) {
+			return []
+		}
+		if (matching.length > 1) {
+			return [`${location}: matches more than one variant`]
+		}
+		const variant = findDiscriminatedVariant(variants, value)
+		return variant
+			? validateValue(variant, value, location)
+			: [`${location}: does not match any allowed variant`]
+	}
+
+	if (schema.type) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+		if (!types.some(type => matchesType(value, type))) {
+			return [`${location}: expected ${types.join(' or ')}`]
+		}
+	}
+	if ('const' in schema && value !== schema.const) {
+		return [`${location}: expected ${JSON.stringify(schema.const)}`]
+	}
+	if (schema.enum && !schema.enum.includes(value)) {
+		return [`${location}: expected one of ${schema.enum.map(item => JSON.stringify(item)).join(', ')}`]
+	}
+	if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+		return [`${location}: must be >= ${schema.minimum}`]
+	}
+
+	const errors: string[] = []
+
+	if (Array.isArray(value) && schema.items) {
+		value.forEach((item, index) => {
+			errors.push(...validateValue(schema.items as JsonSchema, item, `${location}[${index}]`))
+		})
+	}
+
+	if (matchesType(value, 'object') && (schema.properties || schema.required || schema.additionalProperties !== undefined)) {
+		const record = value as Record<string, unknown>
+		for (const key of schema.required ?? []) {
+			if (!(key in record)) {
+				errors.push(`${location}.${key}: is required`)
+			}
+		}
+		for (const [key, child] of Object.entries(record)) {
+			const propertySchema = schema.properties?.[key]
+			if (propertySchema) {
+				errors.push(...validateValue(propertySchema, child, `${location}.${key}`))
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${location}.${key}: is not allowed`)
+			} else if (typeof schema.additionalProperties === 'object') {
+				errors.push(...validateValue(schema.additionalProperties, child, `${location}.${key}`))
+			}
+		}
+	}
+
+	return errors
+}
+
+/**
+ * Validate a single recording event, returning a list of errors (empty if valid)
+ */
+export function validateEvent(event: unknown): string[] {
+	return validateValue(ref('recordingEvent'), event, '$')
+}
+
+/**
+ * Validate a recording chunk, returning a list of errors (empty if valid)
+ */
+export function validateChunk(chunk: unknown): string[] {
+	return validateValue(recordingChunkSchema, chunk, '$')
+}
+
+type Migration = (chunk: Record<string, unknown>) => Record<string, unknown>
+
+/**
+ * Upgrades from a chunk version to the next one
+ */
+const migrations: Record<string, { to: string, migrate: Migration }> = {
+	// 2.1 adds the per-chunk redaction report and workspace folders (unknown for older chunks), its other additions
+	// (debug, command, terminal, notebook, ... capture) are new event kinds and optional fields
+	'2.0': {
+		to: '2.1',
+		migrate: (chunk) => ({
+			...chunk,
+			version: '2.1',
+			redactions: chunk.redactions ?? { total: 0, byCategory: {} },
+			events: (chunk.events as Record<string, unknown>[]).map(event => {
+				if (event.type === 'workspace_snapshot') {
+					return { workspaceFolder: null, ...event }
+				}
+				if (event.type === 'action') {
+					const eventAction = event.action as Record<string, unknown>
+					return eventAction.kind === 'file_change'
+						? { ...event, action: { workspaceFolder: null, ...eventAction } }
+						: event
+				}
+				const observation = event.observation as Record<string, unknown>
+				const viewport = observation?.viewport as Record<string, unknown> | null
+				return viewport
+					? { ...event, observation: { ...observation, viewport: { workspaceFolder: null, ...viewport } } }
+					: event
+			}),
+		}),
+	},
+}
+
+/**
+ * Upgrade a chunk of any supported version to the current version
+ * Throws if the chunk version is unknown
+ */
+export function migrate(chunk: unknown): RecordingChunk {
+	if (!matchesType(chunk, 'object')) {
+		throw new Error('Recording chunk must be an object')
+	}
+
+	let current = chunk as Record<string, unknown>
+	while (current.version !== CHUNK_VERSION) {
+		const migration = migrations[String(current.version)]
+		if (!migration) {
+			throw new Error(`Unsupported recording chunk version ${String(current.version)}`)
+		}
+		current = migration.migrate(current)
+	}
+	return current as unknown as RecordingChunk
+}
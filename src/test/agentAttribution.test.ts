@@ -0,0 +1,117 @@
+import * as assert from 'node:assert'
+import { identifyCliAgent, scoreAgentChange, scoreInlineCompletion } from '../agentAttribution'
+import type { AgentChangeSignals } from '../agentAttribution'
+
+suite('Agent Attribution Tests', () => {
+	test('Should identify CLI agents from terminal command lines', () => {
+		assert.strictEqual(identifyCliAgent('claude'), 'claude-code')
+		assert.strictEqual(identifyCliAgent('claude --resume'), 'claude-code')
+		assert.strictEqual(identifyCliAgent('/usr/local/bin/codex exec "fix tests"'), 'codex')
+		assert.strictEqual(identifyCliAgent('npx -y @anthropic-ai/claude-code@latest'), 'claude-code')
+		assert.strictEqual(identifyCliAgent('OPENAI_API_KEY=x aider --model gpt-4o'), 'aider')
+		assert.strictEqual(identifyCliAgent('bunx @google/gemini-cli'), 'gemini-cli')
+	})
+
+	test('Should not identify regular commands as agents', () => {
+		assert.strictEqual(identifyCliAgent('git commit -m "claude"'), null)
+		assert.strictEqual(identifyCliAgent('npm test'), null)
+		assert.strictEqual(identifyCliAgent(''), null)
+	})
+
+	function signals(overrides: Partial<AgentChangeSignals>): AgentChangeSignals {
+		return {
+			runningCliAgents: [],
+			namedCliAgents: [],
+			extensionAgents: [],
+			hostAgent: null,
+			writtenThroughEditor: false,
+			...overrides,
+		}
+	}
+
+	test('Should attribute disk writes to a running CLI agent', () => {
+		assert.deepStrictEqual(scoreAgentChange(signals({ runningCliAgents: ['codex'] })), { agentId: 'codex', agentConfidence: 0.9 })
+		// Running CLI agents share the confidence
+		assert.deepStrictEqual(
+			scoreAgentChange(signals({ runningCliAgents: ['codex', 'claude-code'] })),
+			{ agentId: 'codex', agentConfidence: 0.45 }
+		)
+	})
+
+	test('Should score a terminal only named after an agent below a running agent', () => {
+		const named = scoreAgentChange(signals({ namedCliAgents: ['codex'] }))
+		assert.deepStrictEqual(named, { agentId: 'codex', agentConfidence: 0.5 })
+
+		// The running agent wins over another agent's terminal name
+		assert.deepStrictEqual(
+			scoreAgentChange(signals({ runningCliAgents: ['claude-code'], namedCliAgents: ['codex'] })),
+			{ agentId: 'claude-code', agentConfidence: 0.9 }
+		)
+		// A running agent whose terminal carries its name scores as running
+		assert.deepStrictEqual(
+			scoreAgentChange(signals({ runningCliAgents: ['codex'], namedCliAgents: ['codex'] })),
+			{ agentId: 'codex', agentConfidence: 0.9 }
+		)
+	})
+
+	test('Should attribute editor writes to agent extensions and the host editor', () => {
+		assert.deepStrictEqual(
+			scoreAgentChange(signals({ extensionAgents: ['cline'], writtenThroughEditor: true })),
+			{ agentId: 'cline', agentConfidence: 0.7 }
+		)
+		assert.deepStrictEqual(
+			scoreAgentChange(signals({ hostAgent: 'cursor', writtenThroughEditor: true })),
+			{ agentId: 'cursor', agentConfidence: 0.6 }
+		)
+		// An extension wins over the host editor, several extensions fall behind it
+		assert.strictEqual(
+			scoreAgentChange(signals({ extensionAgents: ['cline'], hostAgent: 'cursor', writtenThroughEditor: true }))?.agentId,
+			'cline'
+		)
+		assert.strictEqual(
+			scoreAgentChange(signals({ extensionAgents: ['cline', 'copilot'], hostAgent: 'cursor', writtenThroughEditor: true }))?.agentId,
+			'cursor'
+		)
+	})
+
+	test('Should weigh signals by how the change was written', () => {
+		const all = { runningCliAgents: ['codex'], namedCliAgents: ['aider'], extensionAgents: ['cline'], hostAgent: 'cursor' }
+
+		// Disk writes: running CLI agent, then named terminal, then extensions and the host editor
+		assert.deepStrictEqual(scoreAgentChange(signals(all)), { agentId: 'codex', agentConfidence: 0.9 })
+		assert.deepStrictEqual(
+			scoreAgentChange(signals({ ...all, runningCliAgents: [] })),
+			{ agentId: 'aider', agentConfidence: 0.5 }
+		)
+		assert.deepStrictEqual(
+			scoreAgentChange(signals({ extensionAgents: ['cline'], hostAgent: 'cursor' })),
+			{ agentId: 'cline', agentConfidence: 0.2 }
+		)
+
+		// Editor writes: extensions, then the host editor, then running CLI agents and named terminals
+		assert.deepStrictEqual(scoreAgentChange(signals({ ...all, writtenThroughEditor: true })), { agentId: 'cline', agentConfidence: 0.7 })
+		assert.deepStrictEqual(
+			scoreAgentChange(signals({ ...all, extensionAgents: [], hostAgent: null, writtenThroughEditor: true })),
+			{ agentId: 'codex', agentConfidence: 0.3 }
+		)
+		assert.deepStrictEqual(
+			scoreAgentChange(signals({ namedCliAgents: ['aider'], writtenThroughEditor: true })),
+			{ agentId: 'aider', agentConfidence: 0.15 }
+		)
+	})
+
+	test('Should not attribute changes without any signal', () => {
+		assert.strictEqual(scoreAgentChange(signals({})), null)
+		assert.strictEqual(scoreAgentChange(signals({ writtenThroughEditor: true })), null)
+	})
+
+	test('Should attribute inline completions to the active completion providers', () => {
+		assert.deepStrictEqual(scoreInlineCompletion(['copilot'], null), { agentId: 'copilot', agentConfidence: 0.9 })
+		assert.deepStrictEqual(scoreInlineCompletion(['copilot', 'tabnine'], null), { agentId: 'copilot', agentConfidence: 0.45 })
+		// The host editor's agent comes after the extensions, and counts once if it is also an extension
+		assert.deepStrictEqual(scoreInlineCompletion(['copilot'], 'windsurf'), { agentId: 'copilot', agentConfidence: 0.45 })
+		assert.deepStrictEqual(scoreInlineCompletion(['windsurf'], 'windsurf'), { agentId: 'windsurf', agentConfidence: 0.9 })
+		assert.deepStrictEqual(scoreInlineCompletion([], 'cursor'), { agentId: 'cursor', agentConfidence: 0.9 })
+		assert.deepStrictEqual(scoreInlineCompletion([], null), { agentId: 'unknown', agentConfidence: 0.5 })
+	})
+})
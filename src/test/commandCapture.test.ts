@@ -0,0 +1,26 @@
+import * as assert from 'node:assert'
+import { getCommandSearch } from '../capture/commandCapture'
+
+suite('Command Capture Tests', () => {
+	test('Should read the search passed to find in files', () => {
+		assert.deepStrictEqual(getCommandSearch('workbench.action.findInFiles', [{
+			query: 'TODO\\(\\w+\\)',
+			isRegex: true,
+			isCaseSensitive: false,
+			filesToInclude: 'src/**',
+			triggerSearch: true,
+		}]), {
+			query: 'TODO\\(\\w+\\)',
+			options: { regex: true, caseSensitive: false, wholeWord: false, include: 'src/**', exclude: '' },
+		})
+	})
+
+	test('Should not read a search without a query or from other commands', () => {
+		// The default keybinding opens the search view without arguments
+		assert.strictEqual(getCommandSearch('workbench.action.findInFiles', []), null)
+		assert.strictEqual(getCommandSearch('workbench.action.findInFiles', [{ filesToInclude: 'src/**' }]), null)
+		assert.strictEqual(getCommandSearch('workbench.action.findInFiles', [{ query: '' }]), null)
+		assert.strictEqual(getCommandSearch('workbench.action.findInFiles', ['needle']), null)
+		assert.strictEqual(getCommandSearch('editor.action.startFindReplaceAction', [{ query: 'needle' }]), null)
+	})
+})
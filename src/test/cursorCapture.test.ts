@@ -0,0 +1,101 @@
+import * as assert from 'node:assert'
+import * as vscode from 'vscode'
+import { describeSelections, groupCursorChanges } from '../capture/cursorCapture'
+import { applyAction, FileStateTracker } from '../replay'
+import type { EditAction } from '../types'
+
+suite('Cursor Capture Tests', () => {
+	// Offsets of a single-line-per-cursor document with lines of equal length
+	function change(line: number, start: number, end: number, text: string, lineLength: number): vscode.TextDocumentContentChangeEvent {
+		return {
+			range: new vscode.Range(line, start, line, end),
+			rangeOffset: line * (lineLength + 1) + start,
+			rangeLength: end - start,
+			text,
+		}
+	}
+
+	function cursor(line: number, start: number, end = start): vscode.Selection {
+		return new vscode.Selection(line, start, line, end)
+	}
+
+	// Replays the recorded diffs of a cursor group one after another
+	function replay(content: string, changes: ReturnType<typeof groupCursorChanges>): string | undefined {
+		const tracker = new FileStateTracker(new Map([['a.txt', content]]))
+		for (const { change: { rangeOffset, rangeLength, text }, cursorIndex } of changes ?? []) {
+			const action: EditAction = {
+				kind: 'edit',
+				source: 'user',
+				file: 'a.txt',
+				diff: { rangeOffset, rangeLength, text },
+				cursorGroupId: 'cursor-1',
+				cursorIndex,
+			}
+			applyAction(tracker, action)
+		}
+		return tracker.get('a.txt')
+	}
+
+	test('Should group a multi-cursor insertion by cursor in descending offset order', () => {
+		// Cursors at the start of each line, the primary cursor (added first) on the second line
+		const selections = [cursor(1, 0), cursor(0, 0), cursor(2, 0)]
+		const changes = [change(0, 0, 0, 'x', 1), change(1, 0, 0, 'x', 1), change(2, 0, 0, 'x', 1)]
+
+		const grouped = groupCursorChanges(changes, selections)
+
+		assert.deepStrictEqual(grouped?.map(({ change: { rangeOffset }, cursorIndex }) => ({ rangeOffset, cursorIndex })), [
+			{ rangeOffset: 4, cursorIndex: 2 },
+			{ rangeOffset: 2, cursorIndex: 0 },
+			{ rangeOffset: 0, cursorIndex: 1 },
+		])
+		assert.strictEqual(replay('a\nb\nc', grouped), 'xa\nxb\nxc')
+	})
+
+	test('Should group a multi-cursor deletion by the cursors before it', () => {
+		// Backspace with a cursor after the first character of each line
+		const selections = [cursor(0, 1), cursor(1, 1), cursor(2, 1)]
+		const changes = [change(2, 0, 1, '', 2), change(1, 0, 1, '', 2), change(0, 0, 1, '', 2)]
+
+		const grouped = groupCursorChanges(changes, selections)
+
+		assert.deepStrictEqual(grouped?.map(({ cursorIndex }) => cursorIndex), [2, 1, 0])
+		assert.strictEqual(replay('ab\ncd\nef', grouped), 'b\nd\nf')
+	})
+
+	test('Should rebuild the document from a grouped replacement of the selections', () => {
+		// Typing over a selected word on each line, changes of different lengths shift later offsets
+		const selections = [cursor(0, 0, 3), cursor(1, 0, 3), cursor(2, 0, 3)]
+		const changes = [change(0, 0, 3, 'first', 7), change(1, 0, 3, 'second', 7), change(2, 0, 3, '', 7)]
+
+		const grouped = groupCursorChanges(changes, selections)
+
+		assert.deepStrictEqual(grouped?.map(({ cursorIndex }) => cursorIndex), [2, 1, 0])
+		assert.strictEqual(replay('foo one\nfoo two\nfoo six', grouped), 'first one\nsecond two\n six')
+	})
+
+	test('Should leave out the cursor index of changes away from every cursor', () => {
+		const selections = [cursor(0, 0), cursor(2, 0)]
+		const grouped = groupCursorChanges([change(0, 0, 0, 'x', 1), change(1, 0, 0, 'x', 1)], selections)
+
+		assert.deepStrictEqual(grouped?.map(({ cursorIndex }) => cursorIndex), [undefined, 0])
+		assert.ok(grouped && !('cursorIndex' in grouped[0]))
+	})
+
+	test('Should not group single changes or single cursors', () => {
+		assert.strictEqual(groupCursorChanges([change(0, 0, 0, 'x', 1)], [cursor(0, 0), cursor(1, 0)]), null)
+		assert.strictEqual(groupCursorChanges([change(0, 0, 0, 'x', 1), change(1, 0, 0, 'x', 1)], [cursor(0, 0)]), null)
+	})
+
+	test('Should describe all selections with their text, primary first', () => {
+		const lines = ['const a = 1', 'const b = 2']
+		const document = {
+			getText: (range: vscode.Range) => lines[range.start.line].slice(range.start.character, range.end.character),
+		} as unknown as vscode.TextDocument
+
+		assert.deepStrictEqual(describeSelections(document, [cursor(1, 6, 7), cursor(0, 6, 7), cursor(0, 11)]), [
+			{ start: { line: 1, character: 6 }, end: { line: 1, character: 7 }, selectedText: 'b' },
+			{ start: { line: 0, character: 6 }, end: { line: 0, character: 7 }, selectedText: 'a' },
+			{ start: { line: 0, character: 11 }, end: { line: 0, character: 11 }, selectedText: '' },
+		])
+	})
+})
@@ -0,0 +1,168 @@
+import * as assert from 'node:assert'
+import type * as vscode from 'vscode'
+import { createDebugAdapterTracker, getBodyProperty, getSessionObservation } from '../capture/debugCapture'
+
+const waitMs = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+suite('Debug Capture Tests', () => {
+	let sessionCounter = 0
+	let requests: { command: string, args: unknown }[] = []
+
+	// A debug session whose adapter answers with the given response bodies, by request command
+	function session(responses: Record<string, unknown>): vscode.DebugSession {
+		return {
+			id: `debug-capture-test-${++sessionCounter}`,
+			name: 'Launch Program',
+			type: 'node',
+			customRequest: async (command: string, args: unknown) => {
+				requests.push({ command, args })
+				if (command === 'variables') {
+					const { variablesReference } = args as { variablesReference: number }
+					return (responses.variables as Record<number, unknown>)[variablesReference]
+				}
+				return responses[command]
+			},
+		} as unknown as vscode.DebugSession
+	}
+
+	const responses = {
+		stackTrace: {
+			stackFrames: [
+				{ id: 1000, name: 'handleRequest', line: 12, column: 5, source: { path: '/workspaces/app/src/server.ts' } },
+				{ id: 1001, name: 'emit', line: 517, column: 28, source: { name: 'node:events' } },
+				{ id: 1002, name: '<anonymous>', line: 1, column: 1 },
+			],
+		},
+		scopes: {
+			scopes: [
+				{ name: 'Local', variablesReference: 7, expensive: false },
+				{ name: 'Global', variablesReference: 8, expensive: true },
+			],
+		},
+		variables: {
+			7: {
+				variables: [
+					{ name: 'request', value: 'IncomingMessage {…}', type: 'IncomingMessage' },
+					{ name: 'body', value: 'x'.repeat(300) },
+				],
+			},
+		},
+	}
+
+	setup(() => {
+		requests = []
+	})
+
+	test('Should narrow message bodies of any shape', () => {
+		assert.strictEqual(getBodyProperty({ threadId: 1 }, 'threadId'), 1)
+		assert.strictEqual(getBodyProperty({ threadId: 1 }, 'reason'), undefined)
+		assert.strictEqual(getBodyProperty(null, 'threadId'), undefined)
+		assert.strictEqual(getBodyProperty(undefined, 'threadId'), undefined)
+		assert.strictEqual(getBodyProperty('stopped', 'length'), undefined)
+		assert.strictEqual(getBodyProperty(42, 'threadId'), undefined)
+	})
+
+	test('Should read the call stack and variables once the debuggee stopped', async () => {
+		const debugSession = session(responses)
+		const tracker = createDebugAdapterTracker(debugSession)
+
+		tracker.onDidSendMessage?.({ type: 'event', event: 'stopped', body: { threadId: 3, reason: 'breakpoint' } })
+		await waitMs(10)
+
+		assert.deepStrictEqual(requests.map(({ command }) => command), ['stackTrace', 'scopes', 'variables'])
+		assert.deepStrictEqual(requests[0].args, { threadId: 3, startFrame: 0, levels: 20 })
+		// Variables of the top frame, without the expensive scopes
+		assert.deepStrictEqual(requests[1].args, { frameId: 1000 })
+		assert.deepStrictEqual(requests[2].args, { variablesReference: 7, count: 50 })
+
+		const observation = getSessionObservation(debugSession.id)
+		assert.strictEqual(observation?.stopReason, 'breakpoint')
+		assert.deepStrictEqual(observation?.callStack.map(({ name, line, column }) => ({ name, line, column })), [
+			{ name: 'handleRequest', line: 12, column: 5 },
+			{ name: 'emit', line: 517, column: 28 },
+			{ name: '<anonymous>', line: 1, column: 1 },
+		])
+		// Frames are located by their source path, the name of sources without one, or not at all
+		const [serverFrame, eventsFrame, anonymousFrame] = observation?.callStack ?? []
+		assert.ok(serverFrame.file?.endsWith('server.ts'))
+		assert.strictEqual(eventsFrame.file, 'node:events')
+		assert.strictEqual(anonymousFrame.file, null)
+		assert.deepStrictEqual(observation?.pausedLocation, observation?.callStack[0])
+		assert.deepStrictEqual(observation?.scopes, [
+			{
+				name: 'Local',
+				variables: [
+					{ name: 'request', value: 'IncomingMessage {…}', type: 'IncomingMessage' },
+					{ name: 'body', value: `${'x'.repeat(200)}…`, type: null },
+				],
+			},
+			{ name: 'Global', variables: [] },
+		])
+	})
+
+	test('Should read the paused state of stopped events without a thread or reason', async () => {
+		const debugSession = session(responses)
+		const tracker = createDebugAdapterTracker(debugSession)
+
+		tracker.onDidSendMessage?.({ type: 'event', event: 'stopped', body: { threadId: '3', reason: 7 } })
+		await waitMs(10)
+		assert.deepStrictEqual(requests[0].args, { threadId: undefined, startFrame: 0, levels: 20 })
+		assert.strictEqual(getSessionObservation(debugSession.id)?.stopReason, 'unknown')
+
+		requests = []
+		tracker.onDidSendMessage?.({ type: 'event', event: 'stopped' })
+		await waitMs(10)
+		assert.deepStrictEqual(requests[0].args, { threadId: undefined, startFrame: 0, levels: 20 })
+	})
+
+	test('Should read an empty call stack without reading variables', async () => {
+		const debugSession = session({ stackTrace: {} })
+		const tracker = createDebugAdapterTracker(debugSession)
+
+		tracker.onDidSendMessage?.({ type: 'event', event: 'stopped', body: { threadId: 1, reason: 'pause' } })
+		await waitMs(10)
+
+		assert.deepStrictEqual(requests.map(({ command }) => command), ['stackTrace'])
+		const observation = getSessionObservation(debugSession.id)
+		assert.deepStrictEqual(observation?.callStack, [])
+		assert.strictEqual(observation?.pausedLocation, null)
+		assert.deepStrictEqual(observation?.scopes, [])
+	})
+
+	test('Should clear the paused state once the debuggee continues', async () => {
+		const debugSession = session(responses)
+		const tracker = createDebugAdapterTracker(debugSession)
+
+		tracker.onDidSendMessage?.({ type: 'event', event: 'stopped', body: { threadId: 1, reason: 'step' } })
+		await waitMs(10)
+		tracker.onDidSendMessage?.({ type: 'event', event: 'continued', body: { threadId: 1 } })
+
+		const observation = getSessionObservation(debugSession.id)
+		assert.strictEqual(observation?.pausedLocation, null)
+		assert.strictEqual(observation?.stopReason, null)
+		assert.deepStrictEqual(observation?.callStack, [])
+		assert.deepStrictEqual(observation?.scopes, [])
+	})
+
+	test('Should record the values of watch expressions', () => {
+		const debugSession = session(responses)
+		const tracker = createDebugAdapterTracker(debugSession)
+
+		tracker.onWillReceiveMessage?.({ type: 'request', seq: 10, command: 'evaluate', arguments: { expression: 'count', context: 'watch' } })
+		tracker.onWillReceiveMessage?.({ type: 'request', seq: 11, command: 'evaluate', arguments: { expression: 'missing', context: 'watch' } })
+		tracker.onWillReceiveMessage?.({ type: 'request', seq: 12, command: 'evaluate', arguments: { expression: 'user', context: 'watch' } })
+		// Evaluations of the debug console are not watches
+		tracker.onWillReceiveMessage?.({ type: 'request', seq: 13, command: 'evaluate', arguments: { expression: 'debugger', context: 'repl' } })
+
+		tracker.onDidSendMessage?.({ type: 'response', request_seq: 10, success: true, body: { result: '42' } })
+		tracker.onDidSendMessage?.({ type: 'response', request_seq: 11, success: false, message: 'missing is not defined' })
+		tracker.onDidSendMessage?.({ type: 'response', request_seq: 12, success: true, body: null })
+		tracker.onDidSendMessage?.({ type: 'response', request_seq: 13, success: true, body: { result: 'undefined' } })
+
+		assert.deepStrictEqual(getSessionObservation(debugSession.id)?.watches, [
+			{ expression: 'count', value: '42' },
+			{ expression: 'missing', value: 'missing is not defined' },
+			{ expression: 'user', value: '' },
+		])
+	})
+})
@@ -0,0 +1,33 @@
+import * as assert from 'node:assert'
+import { getDiagnosticsKey } from '../capture/diagnosticsCapture'
+import type { DiagnosticState } from '../types'
+
+suite('Diagnostics Capture Tests', () => {
+	function diagnostic(line: number, message: string, severity: DiagnosticState['severity'] = 'error'): DiagnosticState {
+		return {
+			severity,
+			message,
+			source: 'ts',
+			code: '2304',
+			start: { line, character: 4 },
+			end: { line, character: 10 },
+		}
+	}
+
+	test('Should ignore diagnostics that only moved with the text', () => {
+		const before = [diagnostic(3, `Cannot find name 'foo'.`), diagnostic(8, `Cannot find name 'bar'.`)]
+		// A line inserted above both, which also reorders them when sorted by position
+		const after = [diagnostic(9, `Cannot find name 'bar'.`), diagnostic(4, `Cannot find name 'foo'.`)]
+
+		assert.strictEqual(getDiagnosticsKey(after), getDiagnosticsKey(before))
+	})
+
+	test('Should report diagnostics that appeared, disappeared or changed', () => {
+		const before = [diagnostic(3, `Cannot find name 'foo'.`)]
+
+		assert.notStrictEqual(getDiagnosticsKey([]), getDiagnosticsKey(before))
+		assert.notStrictEqual(getDiagnosticsKey([...before, diagnostic(5, `Cannot find name 'foo'.`)]), getDiagnosticsKey(before))
+		assert.notStrictEqual(getDiagnosticsKey([diagnostic(3, `Cannot find name 'fo'.`)]), getDiagnosticsKey(before))
+		assert.notStrictEqual(getDiagnosticsKey([diagnostic(3, `Cannot find name 'foo'.`, 'warning')]), getDiagnosticsKey(before))
+	})
+})
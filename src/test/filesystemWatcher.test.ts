@@ -0,0 +1,57 @@
+import * as assert from 'node:assert'
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+import { getWatchedFolder, handleWorkspaceFoldersChange } from '../capture/filesystemWatcher'
+
+suite('Filesystem Watcher Tests', () => {
+	const root = path.resolve('/workspaces')
+
+	// Folders added by a test, removed again without touching the extension's own workspace folder
+	let added: vscode.WorkspaceFolder[] = []
+
+	function folder(name: string, index = 0): vscode.WorkspaceFolder {
+		const workspaceFolder = { uri: vscode.Uri.file(path.join(root, name)), name, index }
+		added.push(workspaceFolder)
+		return workspaceFolder
+	}
+
+	function file(...segments: string[]): string {
+		return path.join(root, ...segments)
+	}
+
+	teardown(() => {
+		handleWorkspaceFoldersChange({ added: [], removed: added })
+		added = []
+	})
+
+	test('Should route files to the deepest watched folder', () => {
+		const app = folder('app')
+		const nested = folder(path.join('app', 'packages', 'ui'), 1)
+		const other = folder('other', 2)
+		handleWorkspaceFoldersChange({ added: [nested, app, other], removed: [] })
+
+		assert.strictEqual(getWatchedFolder(file('app', 'src', 'index.ts')), app)
+		assert.strictEqual(getWatchedFolder(file('app', 'packages', 'ui', 'button.ts')), nested)
+		assert.strictEqual(getWatchedFolder(file('other', 'README.md')), other)
+		// A sibling sharing the folder name as prefix is not inside it
+		assert.strictEqual(getWatchedFolder(file('app-legacy', 'index.ts')), undefined)
+		assert.strictEqual(getWatchedFolder(file('outside.ts')), undefined)
+	})
+
+	test('Should watch folders added and stop watching folders removed', () => {
+		const app = folder('app')
+		const nested = folder(path.join('app', 'packages', 'ui'), 1)
+		handleWorkspaceFoldersChange({ added: [app], removed: [] })
+		assert.strictEqual(getWatchedFolder(file('app', 'packages', 'ui', 'button.ts')), app)
+
+		handleWorkspaceFoldersChange({ added: [nested], removed: [] })
+		assert.strictEqual(getWatchedFolder(file('app', 'packages', 'ui', 'button.ts')), nested)
+
+		// Files of a removed nested folder fall back to its parent
+		handleWorkspaceFoldersChange({ added: [], removed: [nested] })
+		assert.strictEqual(getWatchedFolder(file('app', 'packages', 'ui', 'button.ts')), app)
+
+		handleWorkspaceFoldersChange({ added: [], removed: [app] })
+		assert.strictEqual(getWatchedFolder(file('app', 'src', 'index.ts')), undefined)
+	})
+})
@@ -0,0 +1,68 @@
+import * as assert from 'node:assert'
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+import { getRecentGitOperation, handleWorkspaceFoldersChange, noteGitOperation } from '../gitProvider'
+
+suite('Git Provider Tests', () => {
+	const root = path.resolve('/workspaces')
+
+	// Folders added by a test, removed again without touching the extension's own workspace folder
+	let added: vscode.WorkspaceFolder[] = []
+
+	function folder(name: string, index = 0): vscode.WorkspaceFolder {
+		const workspaceFolder = { uri: vscode.Uri.file(path.join(root, name)), name, index }
+		added.push(workspaceFolder)
+		return workspaceFolder
+	}
+
+	function file(...segments: string[]): string {
+		return path.join(root, ...segments)
+	}
+
+	teardown(() => {
+		handleWorkspaceFoldersChange({ added: [], removed: added })
+		added = []
+	})
+
+	test('Should only attribute changes of the folder a git operation ran in', () => {
+		const frontend = folder('frontend')
+		const backend = folder('backend', 1)
+		handleWorkspaceFoldersChange({ added: [frontend, backend], removed: [] })
+
+		noteGitOperation(backend, false)
+
+		assert.strictEqual(getRecentGitOperation(file('frontend', 'src', 'app.ts')), null)
+		assert.strictEqual(getRecentGitOperation(file('backend', 'src', 'server.ts')), 'git')
+	})
+
+	test('Should report a checkout once, then other changes of the operation as git', () => {
+		const frontend = folder('frontend')
+		handleWorkspaceFoldersChange({ added: [frontend], removed: [] })
+
+		noteGitOperation(frontend, true)
+
+		assert.strictEqual(getRecentGitOperation(file('frontend', 'a.ts')), 'git_checkout')
+		assert.strictEqual(getRecentGitOperation(file('frontend', 'b.ts')), 'git')
+	})
+
+	test('Should attribute changes of nested folders to the nested repository', () => {
+		const monorepo = folder('monorepo')
+		const vendored = folder(path.join('monorepo', 'vendor', 'lib'), 1)
+		handleWorkspaceFoldersChange({ added: [monorepo, vendored], removed: [] })
+
+		noteGitOperation(monorepo, false)
+
+		assert.strictEqual(getRecentGitOperation(file('monorepo', 'vendor', 'lib', 'index.ts')), null)
+		assert.strictEqual(getRecentGitOperation(file('monorepo', 'src', 'index.ts')), 'git')
+	})
+
+	test('Should stop tracking git operations of removed folders', () => {
+		const frontend = folder('frontend')
+		handleWorkspaceFoldersChange({ added: [frontend], removed: [] })
+		handleWorkspaceFoldersChange({ added: [], removed: [frontend] })
+
+		noteGitOperation(frontend, false)
+
+		assert.strictEqual(getRecentGitOperation(file('frontend', 'src', 'app.ts')), null)
+	})
+})
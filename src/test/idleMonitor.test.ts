@@ -0,0 +1,108 @@
+import * as assert from 'node:assert'
+import type * as vscode from 'vscode'
+import type { SessionPauseEvent } from '../types'
+import {
+	checkIdle,
+	cleanupIdleMonitor,
+	initializeIdleMonitor,
+	isPaused,
+	isWindowFocused,
+	noteActivity,
+	noteWindowFocus,
+} from '../idleMonitor'
+
+const waitMs = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+suite('Idle Monitor Tests', () => {
+	const pauses: number[] = []
+	const pauseReasons: SessionPauseEvent['reason'][] = []
+	const resumes: number[] = []
+	// Focus changes and resumes in the order they were reported
+	const events: string[] = []
+
+	setup(() => {
+		pauses.length = 0
+		pauseReasons.length = 0
+		resumes.length = 0
+		events.length = 0
+		initializeIdleMonitor({ subscriptions: [] } as unknown as vscode.ExtensionContext, {
+			onPause: (reason, idleMs) => {
+				pauses.push(idleMs)
+				pauseReasons.push(reason)
+			},
+			onResume: (pausedMs) => {
+				resumes.push(pausedMs)
+				events.push('resume')
+			},
+			onFocusChange: (focused) => events.push(focused ? 'focus' : 'blur'),
+		})
+		// The test window may or may not have focus
+		noteWindowFocus(true)
+		events.length = 0
+	})
+
+	teardown(() => cleanupIdleMonitor())
+
+	test('Should pause after the idle timeout and resume on the next activity', async () => {
+		checkIdle(100)
+		assert.strictEqual(isPaused(), false)
+
+		await waitMs(150)
+		checkIdle(100)
+		assert.strictEqual(isPaused(), true)
+		assert.strictEqual(pauses.length, 1)
+		assert.ok(pauses[0] >= 100)
+
+		await waitMs(50)
+		noteActivity()
+		assert.strictEqual(isPaused(), false)
+		assert.strictEqual(resumes.length, 1)
+		assert.ok(resumes[0] >= 50)
+	})
+
+	test('Should pause only once while paused and count from the last activity', async () => {
+		await waitMs(150)
+		checkIdle(100)
+		checkIdle(100)
+		assert.strictEqual(pauses.length, 1)
+
+		noteActivity()
+		checkIdle(100)
+		assert.strictEqual(isPaused(), false)
+		assert.strictEqual(pauses.length, 1)
+	})
+
+	test('Should report focus changes once and pause as away while unfocused', async () => {
+		noteWindowFocus(false)
+		noteWindowFocus(false)
+		assert.strictEqual(isWindowFocused(), false)
+		assert.deepStrictEqual(events, ['blur'])
+
+		await waitMs(150)
+		checkIdle(100)
+		assert.deepStrictEqual(pauseReasons, ['away'])
+	})
+
+	test('Should pause as idle while focused and resume when the window regains focus', async () => {
+		await waitMs(150)
+		checkIdle(100)
+		assert.deepStrictEqual(pauseReasons, ['idle'])
+
+		noteWindowFocus(false)
+		assert.strictEqual(isPaused(), true)
+
+		// Returning to the window is activity, the resume is reported before the focus change
+		noteWindowFocus(true)
+		assert.strictEqual(isPaused(), false)
+		assert.strictEqual(isWindowFocused(), true)
+		assert.deepStrictEqual(events, ['blur', 'resume', 'focus'])
+	})
+
+	test('Should not pause with a timeout of 0', async () => {
+		await waitMs(50)
+		checkIdle(0)
+
+		assert.strictEqual(isPaused(), false)
+		assert.deepStrictEqual(pauses, [])
+	})
+})
@@ -0,0 +1,72 @@
+import * as assert from 'node:assert'
+import type * as vscode from 'vscode'
+import {
+	detectInlineCompletion,
+	noteInlineCompletionCommand,
+	noteSuggestWidget,
+	resetInlineCompletionState,
+} from '../capture/inlineCompletionCapture'
+
+const waitMs = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+suite('Inline Completion Capture Tests', () => {
+	const document = 'file:///repo/src/app.ts'
+	const completion = 'console.log(result)'
+
+	function change(rangeOffset: number, rangeLength: number, text: string, reason?: vscode.TextDocumentChangeReason): vscode.TextDocumentChangeEvent {
+		return {
+			document: { uri: { toString: () => document } },
+			contentChanges: [{ rangeOffset, rangeLength, text }],
+			reason,
+		} as unknown as vscode.TextDocumentChangeEvent
+	}
+
+	setup(() => resetInlineCompletionState())
+
+	test('Should detect completions accepted via their accept command', () => {
+		noteInlineCompletionCommand('editor.action.inlineSuggest.acceptNextWord')
+		assert.deepStrictEqual(detectInlineCompletion(change(0, 0, 'console')), { partial: true, detection: 'command' })
+
+		noteInlineCompletionCommand('editor.action.inlineSuggest.commit')
+		assert.deepStrictEqual(detectInlineCompletion(change(7, 0, '.log()')), { partial: false, detection: 'command' })
+	})
+
+	test('Should detect large insertions after a typing pause', async () => {
+		assert.strictEqual(detectInlineCompletion(change(0, 0, 'c')), null)
+
+		await waitMs(300)
+		assert.deepStrictEqual(detectInlineCompletion(change(1, 0, completion)), { partial: false, detection: 'heuristic' })
+	})
+
+	test('Should not detect insertions while typing', () => {
+		assert.strictEqual(detectInlineCompletion(change(0, 0, 'c')), null)
+		assert.strictEqual(detectInlineCompletion(change(1, 0, completion)), null)
+	})
+
+	test('Should not detect undo, redo or small insertions', () => {
+		assert.strictEqual(detectInlineCompletion(change(0, 0, completion, 1 as vscode.TextDocumentChangeReason)), null)
+		assert.strictEqual(detectInlineCompletion(change(0, 0, '}\n')), null)
+	})
+
+	test('Should not detect suggest widget completions without a typed prefix', async () => {
+		assert.strictEqual(detectInlineCompletion(change(0, 0, 'result.')), null)
+		noteSuggestWidget(document, 7)
+
+		// The user browses the widget before accepting
+		await waitMs(300)
+		assert.strictEqual(detectInlineCompletion(change(7, 0, 'toLocaleString()')), null)
+	})
+
+	test('Should not detect snippets inserted after a pause', async () => {
+		assert.strictEqual(detectInlineCompletion(change(0, 0, 'for')), null)
+
+		// Snippets from the suggest widget replace the typed prefix
+		await waitMs(300)
+		assert.strictEqual(detectInlineCompletion(change(0, 3, 'for (let i = 0; i < array.length; i++) {\n\t\n}')), null)
+
+		// Snippets inserted through a snippet command
+		await waitMs(300)
+		noteInlineCompletionCommand('editor.action.insertSnippet')
+		assert.strictEqual(detectInlineCompletion(change(0, 0, 'if (condition) {\n\t\n}')), null)
+	})
+})
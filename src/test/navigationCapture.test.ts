@@ -0,0 +1,52 @@
+import * as assert from 'node:assert'
+import { noteNavigationCommand, noteCursorMove, takeNavigation, resetNavigationState } from '../capture/navigationCapture'
+
+suite('Navigation Capture Tests', () => {
+	const from = { file: 'src/app.ts', position: { line: 10, character: 4 } }
+	const to = { file: 'src/util.ts', position: { line: 2, character: 16 } }
+
+	setup(() => resetNavigationState())
+
+	test('Should correlate a jump with the navigation command that caused it', () => {
+		noteNavigationCommand('editor.action.revealDefinition', from)
+
+		assert.deepStrictEqual(takeNavigation(to), {
+			navigation: 'definition',
+			command: 'editor.action.revealDefinition',
+			from,
+		})
+		assert.strictEqual(takeNavigation(to), null)
+	})
+
+	test('Should ignore commands that do not navigate', () => {
+		noteNavigationCommand('editor.action.formatDocument', from)
+
+		assert.strictEqual(takeNavigation(to), null)
+	})
+
+	test('Should wait for the jump while the cursor stays at the starting point', () => {
+		noteNavigationCommand('workbench.action.quickOpen', from)
+
+		assert.strictEqual(takeNavigation(from), null)
+		assert.strictEqual(takeNavigation(to)?.navigation, 'quick-open')
+	})
+
+	test('Should not record a cursor move after a command that found nothing as its jump', () => {
+		// Go to definition without a definition, then a click
+		noteNavigationCommand('editor.action.revealDefinition', from)
+		noteCursorMove()
+
+		assert.strictEqual(takeNavigation(to), null)
+	})
+
+	test('Should not record a tab switch after a picker closed without a choice as its jump', () => {
+		noteNavigationCommand('workbench.action.quickOpen', from)
+		noteNavigationCommand('workbench.action.closeQuickOpen', from)
+
+		assert.strictEqual(takeNavigation(to), null)
+
+		// The next picker is correlated again
+		noteNavigationCommand('workbench.action.gotoSymbol', from)
+		assert.strictEqual(takeNavigation(to)?.navigation, 'symbol')
+	})
+})
@@ -0,0 +1,109 @@
+import * as assert from 'node:assert'
+import * as vscode from 'vscode'
+import {
+	getCellStructureChanges,
+	getNotebookReloadSource,
+	noteNotebookFileChange,
+	noteNotebookSave,
+	resetNotebookState,
+} from '../capture/notebookCapture'
+
+suite('Notebook Capture Tests', () => {
+	function cell(index: number): vscode.NotebookCell {
+		return { index, document: { getText: () => `cell ${index}` } } as unknown as vscode.NotebookCell
+	}
+
+	function contentChange(
+		start: number,
+		end: number,
+		removedCells: vscode.NotebookCell[],
+		addedCells: vscode.NotebookCell[]
+	): vscode.NotebookDocumentContentChange {
+		return { range: { start, end }, removedCells, addedCells } as unknown as vscode.NotebookDocumentContentChange
+	}
+
+	function notebook(isDirty = false): vscode.NotebookDocument {
+		return { uri: { fsPath: '/workspace/analysis.ipynb' }, isDirty } as unknown as vscode.NotebookDocument
+	}
+
+	teardown(() => {
+		resetNotebookState()
+	})
+
+	test('Should detect added and deleted cells', () => {
+		const added = cell(1)
+		const deleted = [cell(3), cell(4)]
+
+		assert.deepStrictEqual(getCellStructureChanges([contentChange(1, 1, [], [added])]), [
+			{ change: 'add', cell: added, cellIndex: 1 },
+		])
+		// Removed cells keep no index, theirs is the position in the removed range
+		assert.deepStrictEqual(getCellStructureChanges([contentChange(2, 4, deleted, [])]), [
+			{ change: 'delete', cell: deleted[0], cellIndex: 2 },
+			{ change: 'delete', cell: deleted[1], cellIndex: 3 },
+		])
+	})
+
+	test('Should detect a move from the removal and re-insertion of the same cell', () => {
+		// The first cell moved below the third one
+		const moved = cell(2)
+		const changes = getCellStructureChanges([
+			contentChange(0, 1, [moved], []),
+			contentChange(2, 2, [], [moved]),
+		])
+
+		assert.deepStrictEqual(changes, [{ change: 'move', cell: moved, cellIndex: 2, previousIndex: 0 }])
+	})
+
+	test('Should detect moves, additions and deletions of the same change', () => {
+		const moved = cell(0)
+		const added = cell(1)
+		const deleted = cell(5)
+		const changes = getCellStructureChanges([
+			contentChange(3, 4, [moved], []),
+			contentChange(0, 0, [], [moved, added]),
+			contentChange(5, 6, [deleted], []),
+		])
+
+		assert.deepStrictEqual(changes, [
+			{ change: 'move', cell: moved, cellIndex: 0, previousIndex: 3 },
+			{ change: 'add', cell: added, cellIndex: 1 },
+			{ change: 'delete', cell: deleted, cellIndex: 5 },
+		])
+	})
+
+	test('Should attribute the reload of a notebook written by another process', () => {
+		assert.strictEqual(noteNotebookFileChange('/workspace/analysis.ipynb', 'agent', 1000), true)
+
+		assert.strictEqual(getNotebookReloadSource(notebook(), 1500), 'agent')
+		// Other notebooks are not reloaded
+		const other = { uri: { fsPath: '/workspace/other.ipynb' }, isDirty: false } as unknown as vscode.NotebookDocument
+		assert.strictEqual(getNotebookReloadSource(other, 1500), null)
+	})
+
+	test('Should attribute the reload of a git operation to git', () => {
+		noteNotebookFileChange('/workspace/analysis.ipynb', 'git_checkout', 1000)
+
+		assert.strictEqual(getNotebookReloadSource(notebook(), 1500), 'git_checkout')
+	})
+
+	test('Should not treat saves of the notebook as reloads', () => {
+		noteNotebookSave('/workspace/analysis.ipynb', 1000)
+
+		assert.strictEqual(noteNotebookFileChange('/workspace/analysis.ipynb', 'agent', 1200), false)
+		assert.strictEqual(getNotebookReloadSource(notebook(), 1300), null)
+		// A later write is not part of that save
+		assert.strictEqual(noteNotebookFileChange('/workspace/analysis.ipynb', 'agent', 10000), true)
+		assert.strictEqual(getNotebookReloadSource(notebook(), 10100), 'agent')
+	})
+
+	test('Should end the reload once the notebook is edited or after the reload window', () => {
+		noteNotebookFileChange('/workspace/analysis.ipynb', 'agent', 1000)
+		// Edits in VS Code leave the notebook dirty
+		assert.strictEqual(getNotebookReloadSource(notebook(true), 1500), null)
+		assert.strictEqual(getNotebookReloadSource(notebook(), 1600), null)
+
+		noteNotebookFileChange('/workspace/analysis.ipynb', 'agent', 2000)
+		assert.strictEqual(getNotebookReloadSource(notebook(), 8000), null)
+	})
+})
@@ -4,6 +4,7 @@ import * as path from 'node:path'
 import * as fs from 'node:fs'
 import { setDefaultOptions, getConfig } from '../utilities'
 import { statusBarItem } from '../extension'
+import { CHUNK_VERSION } from '../schema'
 
 /**
  * Waits for the specified number of milliseconds and then resolves the returned Promise.
@@ -172,11 +173,34 @@ suite('Recording Tests', () => {
 		assert.ok(jsonFile, 'JSON file should be created')
 		
 		const jsonContent = JSON.parse(fs.readFileSync(path.join(recordingFolderPath, jsonFile), 'utf-8'))
-		assert.strictEqual(jsonContent.version, '2.0', 'JSON should have version 2.0')
+		assert.strictEqual(jsonContent.version, CHUNK_VERSION, `JSON should have version ${CHUNK_VERSION}`)
 		assert.ok(Array.isArray(jsonContent.events), 'JSON should have events array')
 		
 		// Verify recording captured the text changes
 		const editEvents = jsonContent.events.filter((event: any) => event.action?.type === 'edit')
 		assert.ok(editEvents.length > 0, 'Should have edit events')
 	})
+
+	test('Should still see the cursors before a multi-cursor edit when its text change fires', async () => {
+		// Multi-cursor edits are grouped by cursor from the editor's selections when the text change fires
+		const testFileUri = vscode.Uri.file(path.join(workspaceFolder, 'cursors.txt'))
+		await vscode.workspace.fs.writeFile(testFileUri, Buffer.from('a\nb\nc'))
+		const doc = await vscode.workspace.openTextDocument(testFileUri)
+		const editor = await vscode.window.showTextDocument(doc)
+		editor.selections = [0, 1, 2].map((line) => new vscode.Selection(line, 1, line, 1))
+
+		let selectionsAtChange: readonly vscode.Selection[] = []
+		const disposable = vscode.workspace.onDidChangeTextDocument((event) => {
+			if (event.document === doc) {
+				selectionsAtChange = editor.selections
+			}
+		})
+		await vscode.commands.executeCommand('type', { text: 'x' })
+		disposable.dispose()
+		await doc.save()
+
+		assert.strictEqual(doc.getText(), 'ax\nbx\ncx')
+		assert.deepStrictEqual(selectionsAtChange.map((selection) => selection.active.character), [1, 1, 1])
+		assert.deepStrictEqual(editor.selections.map((selection) => selection.active.character), [2, 2, 2])
+	})
 })
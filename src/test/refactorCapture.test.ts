@@ -0,0 +1,63 @@
+import * as assert from 'node:assert'
+import { noteRefactorCommand, noteRefactorCommandComplete, takeRefactorBatch, resetRefactorState } from '../capture/refactorCapture'
+
+const waitMs = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+suite('Refactor Capture Tests', () => {
+	const app = 'file:///repo/src/app.ts'
+	const util = 'file:///repo/src/util.ts'
+	const agentFile = 'file:///repo/src/agent.ts'
+
+	setup(() => resetRefactorState())
+
+	test('Should group the documents of a workspace edit while the command runs', () => {
+		noteRefactorCommand('editor.action.rename', 'keybinding')
+
+		const batchId = takeRefactorBatch(app, false)
+		assert.strictEqual(batchId, 'refactor-1')
+		assert.strictEqual(takeRefactorBatch(util, false), batchId)
+		assert.strictEqual(takeRefactorBatch(app, false), batchId)
+	})
+
+	test('Should ignore commands that do not refactor', () => {
+		noteRefactorCommand('editor.action.revealDefinition', 'keybinding')
+
+		assert.strictEqual(takeRefactorBatch(app, false), null)
+	})
+
+	test('Should not batch undo and redo', () => {
+		noteRefactorCommand('editor.action.formatDocument', 'keybinding')
+
+		assert.strictEqual(takeRefactorBatch(app, true), null)
+		assert.strictEqual(takeRefactorBatch(app, false), 'refactor-1')
+	})
+
+	test('Should not batch documents changed after the workspace edit', async () => {
+		noteRefactorCommand('editor.action.rename', 'keybinding')
+		assert.strictEqual(takeRefactorBatch(app, false), 'refactor-1')
+
+		await waitMs(150)
+		assert.strictEqual(takeRefactorBatch(agentFile, false), null)
+		assert.strictEqual(takeRefactorBatch(app, false), 'refactor-1')
+	})
+
+	test('Should close the batch shortly after the command completes', async () => {
+		noteRefactorCommand('search.action.replaceAll', 'keybinding')
+		noteRefactorCommandComplete('search.action.replaceAll')
+		assert.strictEqual(takeRefactorBatch(app, false), 'refactor-1')
+
+		await waitMs(600)
+		assert.strictEqual(takeRefactorBatch(app, false), null)
+	})
+
+	test('Should keep the batch open while a nested refactor command applies the edit', async () => {
+		noteRefactorCommand('editor.action.rename', 'keybinding')
+		noteRefactorCommand('acceptRenameInput', 'keybinding')
+		noteRefactorCommandComplete('acceptRenameInput')
+
+		await waitMs(600)
+		assert.strictEqual(takeRefactorBatch(app, false), 'refactor-1')
+		noteRefactorCommandComplete('editor.action.rename')
+		assert.strictEqual(takeRefactorBatch(app, false), 'refactor-1')
+	})
+})
@@ -0,0 +1,78 @@
+import * as assert from 'node:assert'
+import { createTwoFilesPatch } from 'diff'
+import { applyAction, buildReplay, getFileState, FileStateTracker } from '../replay'
+import { CHUNK_VERSION } from '../schema'
+import type { Action, RecordingEvent } from '../types'
+
+suite('Replay Tests', () => {
+	const snapshot = { '/repo/src/app.ts': 'const a = 1\n' }
+
+	function edit(rangeOffset: number, rangeLength: number, text: string): Action {
+		return { kind: 'edit', source: 'user', file: 'src/app.ts', diff: { rangeOffset, rangeLength, text } }
+	}
+
+	function events(actions: Action[]): RecordingEvent[] {
+		return [
+			{ sequence: 1, timestamp: 0, type: 'workspace_snapshot', snapshotId: 'snapshot_001', workspaceFolder: '/repo' },
+			...actions.map((action, index): RecordingEvent => ({ sequence: index + 2, timestamp: (index + 1) * 100, type: 'action', action })),
+		]
+	}
+
+	function replay(recorded: RecordingEvent[]) {
+		return buildReplay({
+			chunks: [{
+				version: CHUNK_VERSION,
+				sessionId: 'session',
+				startTime: 0,
+				chunkIndex: 0,
+				events: recorded,
+				redactions: { total: 0, byCategory: {} },
+			}],
+			snapshots: new Map([['snapshot_001', snapshot]]),
+		})
+	}
+
+	test('Should apply edits and agent patches on top of snapshots', () => {
+		const tracker = new FileStateTracker()
+		tracker.loadSnapshot(snapshot)
+
+		assert.deepStrictEqual(applyAction(tracker, edit(10, 1, '2')), { file: 'src/app.ts', content: 'const a = 2\n' })
+		const patch = createTwoFilesPatch('a/app.ts', 'b/app.ts', 'const a = 2\n', 'const a = 2\nconst b = 3\n', '', '', { context: 3 })
+		assert.deepStrictEqual(
+			applyAction(tracker, { kind: 'file_change', source: 'agent', file: 'src/app.ts', workspaceFolder: '/repo', changeType: 'change', diff: patch }),
+			{ file: 'src/app.ts', content: 'const a = 2\nconst b = 3\n' }
+		)
+		assert.strictEqual(applyAction(tracker, { kind: 'edit', source: 'user', file: 'src/unknown.ts', diff: { rangeOffset: 0, rangeLength: 0, text: 'x' } }), null)
+	})
+
+	test('Should build frames without file contents and read them on demand', () => {
+		const result = replay(events([edit(10, 1, '2'), edit(11, 0, '3')]))
+
+		assert.strictEqual(result.frames.length, 3)
+		assert.strictEqual(result.frames[1].label, 'edit (user) src/app.ts')
+		assert.strictEqual(result.frames[2].file, 'src/app.ts')
+		assert.strictEqual(result.frames[2].fileStateFrame, 2)
+		assert.ok(!('content' in result.frames[2]))
+		assert.strictEqual(getFileState(result, 0), null)
+		assert.deepStrictEqual(getFileState(result, 1), { file: 'src/app.ts', content: 'const a = 2\n' })
+		assert.deepStrictEqual(getFileState(result, 2), { file: 'src/app.ts', content: 'const a = 23\n' })
+	})
+
+	test('Should reconstruct file states across keyframes', () => {
+		const typed = 'abcdefghij'.repeat(50)
+		const result = replay(events([...typed].map((character, index) => edit(index, 0, character))))
+
+		assert.ok(result.keyframes.length > 1)
+		assert.strictEqual(getFileState(result, typed.length)?.content, `${typed}const a = 1\n`)
+		assert.strictEqual(getFileState(result, 250)?.content, `${typed.slice(0, 250)}const a = 1\n`)
+	})
+
+	test('Should show deleted files as empty', () => {
+		const result = replay(events([
+			edit(0, 0, '// '),
+			{ kind: 'file_change', source: 'agent', file: 'src/app.ts', workspaceFolder: '/repo', changeType: 'delete', diff: null },
+		]))
+
+		assert.deepStrictEqual(getFileState(result, 2), { file: 'src/app.ts', content: '' })
+	})
+})
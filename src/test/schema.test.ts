@@ -0,0 +1,152 @@
+import * as assert from 'node:assert'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { CHUNK_VERSION, migrate, recordingChunkSchema, validateChunk, validateEvent } from '../schema'
+import type { RecordingEvent } from '../types'
+
+suite('Schema Tests', () => {
+	const editEvent: RecordingEvent = {
+		sequence: 1,
+		timestamp: 1000,
+		type: 'action',
+		action: {
+			kind: 'edit',
+			source: 'user',
+			file: 'src/app.ts',
+			diff: { rangeOffset: 0, rangeLength: 0, text: 'x' },
+		},
+	}
+
+	test('Should accept well-formed events and chunks', () => {
+		assert.deepStrictEqual(validateEvent(editEvent), [])
+		assert.deepStrictEqual(validateChunk({
+			version: CHUNK_VERSION,
+			sessionId: 'session',
+			startTime: 0,
+			chunkIndex: 0,
+			events: [editEvent],
+			redactions: { total: 0, byCategory: {} },
+		}), [])
+	})
+
+	test('Should accept debug actions and observations', () => {
+		const frame = { name: 'main', file: 'src/app.ts', line: 3, column: 1 }
+
+		assert.deepStrictEqual(validateEvent({
+			sequence: 2,
+			timestamp: 2000,
+			type: 'action',
+			action: { kind: 'stack_frame_select', source: 'user', sessionId: 'debug-1', threadId: 1, frame },
+		}), [])
+		assert.deepStrictEqual(validateEvent({
+			sequence: 3,
+			timestamp: 3000,
+			type: 'observation',
+			observation: {
+				viewport: null,
+				activeTerminal: null,
+				debug: {
+					sessionId: 'debug-1',
+					sessionName: 'Launch app',
+					pausedLocation: frame,
+					stopReason: 'breakpoint',
+					callStack: [frame],
+					scopes: [{ name: 'Locals', variables: [{ name: 'count', value: '1', type: 'number' }] }],
+					watches: [{ expression: 'count + 1', value: '2' }],
+				},
+			},
+		}), [])
+	})
+
+	test('Should accept terminal command completions', () => {
+		assert.deepStrictEqual(validateEvent({
+			sequence: 4,
+			timestamp: 4000,
+			type: 'terminal_command_end',
+			commandId: 'terminal-1-command-1',
+			terminalId: 'terminal-1',
+			exitCode: 1,
+			durationMs: 1250,
+			cwd: 'packages/app',
+			output: { lines: 2, characters: 24, sha256: 'ab12', tail: ['FAIL src/app.test.ts', 'Tests: 1 failed'] },
+		}), [])
+	})
+
+	test('Should accept notebook actions and observations', () => {
+		assert.deepStrictEqual(validateEvent({
+			sequence: 5,
+			timestamp: 5000,
+			type: 'action',
+			action: {
+				kind: 'notebook_cell_execution',
+				source: 'user',
+				file: 'analysis.ipynb',
+				cellIndex: 2,
+				executionOrder: 7,
+				success: false,
+				durationMs: 320,
+				outputs: [{ mime: 'application/vnd.code.notebook.error', text: '{"name":"KeyError"}' }, { mime: 'image/png', text: null }],
+			},
+		}), [])
+		assert.deepStrictEqual(validateEvent({
+			sequence: 6,
+			timestamp: 5100,
+			type: 'observation',
+			observation: {
+				viewport: null,
+				activeTerminal: null,
+				notebook: {
+					file: 'analysis.ipynb',
+					activeCell: 2,
+					visibleCells: [{ index: 2, kind: 'code', language: 'python', content: 'df["x"]', outputs: [] }],
+				},
+			},
+		}), [])
+	})
+
+	test('Should report errors for malformed events', () => {
+		const malformed = {
+			...editEvent,
+			action: { kind: 'edit', source: 'user', file: 'src/app.ts', diff: { rangeOffset: -1, rangeLength: 0 } },
+		}
+
+		assert.deepStrictEqual(validateEvent(malformed), [
+			'$.action.diff.text: is required',
+			'$.action.diff.rangeOffset: must be >= 0',
+		])
+		assert.deepStrictEqual(validateEvent({ ...editEvent, type: 'unknown' }), [
+			'$: does not match any allowed variant',
+		])
+	})
+
+	test('Should migrate 2.0 chunks to the current version', () => {
+		const migrated = migrate({
+			version: '2.0',
+			sessionId: 'session',
+			startTime: 0,
+			chunkIndex: 3,
+			events: [
+				editEvent,
+				{
+					sequence: 2,
+					timestamp: 2000,
+					type: 'action',
+					action: { kind: 'file_change', source: 'agent', file: 'a.ts', changeType: 'create', diff: null },
+				},
+				{ sequence: 3, timestamp: 3000, type: 'workspace_snapshot', snapshotId: 'snapshot_000' },
+			],
+		})
+
+		assert.strictEqual(migrated.version, CHUNK_VERSION)
+		assert.deepStrictEqual(migrated.redactions, { total: 0, byCategory: {} })
+		assert.deepStrictEqual(validateChunk(migrated), [])
+		assert.throws(() => migrate({ version: '1.0', events: [] }), /Unsupported recording chunk version 1.0/)
+	})
+
+	test('Published JSON Schema should match the runtime schema', () => {
+		const schemaPath = path.join(__dirname, '..', '..', 'schemas', 'recording-chunk.schema.json')
+		const published = JSON.parse(fs.readFileSync(schemaPath, 'utf-8'))
+
+		assert.deepStrictEqual(published, JSON.parse(JSON.stringify(recordingChunkSchema)), 'Run npm run generate-schema')
+	})
+})
@@ -0,0 +1,41 @@
+import * as assert from 'node:assert'
+import { parseSearchEditor } from '../capture/searchCapture'
+
+suite('Search Capture Tests', () => {
+	test('Should read the query, options and matches of a search editor', () => {
+		const search = parseSearchEditor([
+			'# Query: get\\\\(\\nuser',
+			'# Flags: RegExp CaseSensitive',
+			'# Including: src/**',
+			'# ContextLines: 1',
+			'',
+			'2 results - 2 files',
+			'',
+			'src/app.ts:',
+			'  11  const id = 1',
+			'  12:   get(user)',
+			'',
+			'src/user.ts:',
+			'  3: export function get(user: User) {',
+		].join('\n'))
+
+		assert.ok(search)
+		assert.strictEqual(search.query, 'get\\(\nuser')
+		assert.deepStrictEqual(search.options, {
+			regex: true,
+			caseSensitive: true,
+			wholeWord: false,
+			include: 'src/**',
+			exclude: '',
+		})
+		assert.strictEqual(search.resultCount, 2)
+		assert.deepStrictEqual(search.results, [
+			{ file: 'src/app.ts', line: 12, text: '  get(user)', editorLine: 9 },
+			{ file: 'src/user.ts', line: 3, text: 'export function get(user: User) {', editorLine: 12 },
+		])
+	})
+
+	test('Should not read documents without a query', () => {
+		assert.strictEqual(parseSearchEditor('src/app.ts:\n  1: foo'), null)
+	})
+})
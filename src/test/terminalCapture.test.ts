@@ -0,0 +1,33 @@
+import * as assert from 'node:assert'
+import { matchShellPrompt } from '../capture/terminalCapture'
+
+suite('Terminal Capture Tests', () => {
+	test('Should read commands typed after common shell prompts', () => {
+		assert.strictEqual(matchShellPrompt('jane@devbox:~/project$ npm test'), 'npm test')
+		assert.strictEqual(matchShellPrompt('(venv) jane@devbox:~$ pytest -x'), 'pytest -x')
+		assert.strictEqual(matchShellPrompt('bash-5.2$ make'), 'make')
+		assert.strictEqual(matchShellPrompt('PS C:\\Users\\jane> dir'), 'dir')
+		assert.strictEqual(matchShellPrompt('~/project on main ❯ cargo build'), 'cargo build')
+		assert.strictEqual(matchShellPrompt('jane@devbox:~/project$'), '')
+		assert.strictEqual(matchShellPrompt('jane@devbox ~ % ls'), 'ls')
+		assert.strictEqual(matchShellPrompt('[jane@devbox project]$ git status'), 'git status')
+		assert.strictEqual(matchShellPrompt('❯ npm run lint'), 'npm run lint')
+		assert.strictEqual(matchShellPrompt('~/project on  main ❯'), '')
+	})
+
+	test('Should not treat regular output as a prompt', () => {
+		assert.strictEqual(matchShellPrompt('Compiling crowd-code v2.0.2'), null)
+		assert.strictEqual(matchShellPrompt('  ✓ 12 tests passed'), null)
+	})
+
+	test('Should not treat output containing prompt characters as a prompt', () => {
+		// Test runners and progress output use the same symbols as prompts
+		assert.strictEqual(matchShellPrompt('  › 3 tests skipped'), null)
+		assert.strictEqual(matchShellPrompt('App › renders the header'), null)
+		assert.strictEqual(matchShellPrompt('Step 2/5 ➜ installing dependencies'), null)
+		assert.strictEqual(matchShellPrompt('error: unexpected λ in expression'), null)
+		// Email addresses followed by a percentage or a dollar amount
+		assert.strictEqual(matchShellPrompt('jane@example.com: 100% done'), null)
+		assert.strictEqual(matchShellPrompt('Invoice sent to jane@example.com, total $42'), null)
+	})
+})
@@ -0,0 +1,108 @@
+import * as assert from 'node:assert'
+import { TerminalEmulator } from '../capture/terminalEmulator'
+
+suite('Terminal Emulator Tests', () => {
+	const screen = (emulator: TerminalEmulator): string[] =>
+		emulator.getLines(emulator.firstScreenLine, emulator.firstScreenLine + emulator.rows)
+
+	test('Should render carriage-return overwrites and strip colour codes', () => {
+		const emulator = new TerminalEmulator(3, 20, 100)
+		emulator.write('\x1b[32mloading |\x1b[0m\rloading /\rdone      \r\n\x1b]633;A\x07$ ')
+
+		assert.deepStrictEqual(screen(emulator), ['done', '$', ''])
+	})
+
+	test('Should apply cursor movement and erasing', () => {
+		const emulator = new TerminalEmulator(3, 20, 100)
+		emulator.write('line 1\r\nline 2\r\nline 3')
+		emulator.write('\x1b[2;1H\x1b[2Kreplaced\x1b[3;5H\x1b[K')
+
+		assert.deepStrictEqual(screen(emulator), ['line 1', 'replaced', 'line'])
+	})
+
+	test('Should restore the main screen after the alternate screen', () => {
+		const emulator = new TerminalEmulator(3, 20, 100)
+		emulator.write('$ less file\r\n')
+		emulator.write('\x1b[?1049h\x1b[H\x1b[2Jpage 1')
+
+		assert.ok(emulator.altScreenActive)
+		assert.deepStrictEqual(screen(emulator), ['page 1', '', ''])
+
+		emulator.write('\x1b[?1049l')
+
+		assert.deepStrictEqual(screen(emulator), ['$ less file', '', ''])
+	})
+
+	test('Should move scrolled lines to a bounded scrollback', () => {
+		const emulator = new TerminalEmulator(2, 20, 2)
+		emulator.write('a\r\nb\r\nc\r\nd\r\ne')
+
+		assert.strictEqual(emulator.firstScrollbackLine, 1)
+		assert.deepStrictEqual(emulator.getLines(emulator.firstScrollbackLine, emulator.firstScreenLine), ['b', 'c'])
+		assert.deepStrictEqual(screen(emulator), ['d', 'e'])
+	})
+
+	test('Should scroll only the scroll region', () => {
+		const emulator = new TerminalEmulator(4, 20, 100)
+		emulator.write('header\r\n')
+		// Lines 2-3 scroll, the header and the status line stay
+		emulator.write('\x1b[4;1Hstatus\x1b[2;3r\x1b[2;1Ha\r\nb\r\nc\r\nd')
+
+		assert.deepStrictEqual(screen(emulator), ['header', 'c', 'd', 'status'])
+		// Lines scrolled out of a region below the top row are not kept
+		assert.strictEqual(emulator.firstScreenLine, 0)
+
+		// Deleting and inserting lines stays within the region
+		emulator.write('\x1b[2;1H\x1b[M')
+		assert.deepStrictEqual(screen(emulator), ['header', 'd', '', 'status'])
+		emulator.write('\x1b[2L')
+		assert.deepStrictEqual(screen(emulator), ['header', '', '', 'status'])
+	})
+
+	test('Should keep the alternate screen out of the scrollback', () => {
+		const emulator = new TerminalEmulator(2, 20, 100)
+		emulator.write('$ vim\r\n')
+		emulator.write('\x1b[?1049h\x1b[Hline 1\r\nline 2\r\nline 3\r\nline 4')
+
+		assert.deepStrictEqual(screen(emulator), ['line 3', 'line 4'])
+		assert.strictEqual(emulator.firstScreenLine, 0)
+
+		emulator.write('\x1b[?1049l:wq done')
+
+		assert.ok(!emulator.altScreenActive)
+		assert.deepStrictEqual(screen(emulator), ['$ vim', ':wq done'])
+	})
+
+	test('Should give wide characters two columns and combining characters none', () => {
+		const emulator = new TerminalEmulator(3, 6, 100)
+		emulator.write('日本語x\r\n')
+		emulator.write('e\u0301t\u00e9 ✅\r\n')
+		emulator.write('abc日本')
+
+		// The last wide character does not fit in the last column and wraps
+		assert.deepStrictEqual(emulator.getLines(0, 5), ['日本語', 'x', 'e\u0301té ✅', 'abc日', '本'])
+		assert.deepStrictEqual(screen(emulator), ['e\u0301té ✅', 'abc日', '本'])
+
+		// Overwriting half of a wide character blanks the other half
+		emulator.write('\x1b[2;5HZ')
+		assert.deepStrictEqual(screen(emulator)[1], 'abc Z')
+	})
+
+	test('Should keep styles of lines in the scrollback', () => {
+		const emulator = new TerminalEmulator(1, 20, 100)
+		emulator.write('\x1b[31merror\x1b[0m\r\nnext')
+
+		assert.deepStrictEqual(emulator.getLines(0, 2), ['error', 'next'])
+		assert.deepStrictEqual(emulator.getStyles(0, 2), [[{ start: 0, end: 5, fg: 1 }], []])
+	})
+
+	test('Should report style runs', () => {
+		const emulator = new TerminalEmulator(1, 20, 100)
+		emulator.write('ok \x1b[1;31mFAIL\x1b[0m \x1b[38;2;255;128;0mwarn')
+
+		assert.deepStrictEqual(emulator.getStyles(0, 1), [[
+			{ start: 3, end: 7, bold: true, fg: 1 },
+			{ start: 8, end: 12, fg: '#ff8000' },
+		]])
+	})
+})
@@ -0,0 +1,107 @@
+import * as assert from 'node:assert'
+import type * as vscode from 'vscode'
+import {
+	cleanupTerminalInputCapture,
+	initializeTerminalInputCapture,
+	isPasswordPrompt,
+	recordTerminalKeystrokes,
+	resetTerminalInputState,
+} from '../capture/terminalInputCapture'
+import { getTerminalId } from '../capture/terminalCapture'
+import type { TerminalInputAction } from '../types'
+
+const waitMs = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+suite('Terminal Input Capture Tests', () => {
+	const actions: TerminalInputAction[] = []
+
+	/**
+	 * An extension terminal whose pseudoterminal output can be written by the test
+	 */
+	function createTerminal(): { terminal: vscode.Terminal, write: (data: string) => void } {
+		const listeners: ((data: string) => void)[] = []
+		const pty = {
+			onDidWrite: (listener: (data: string) => void) => {
+				listeners.push(listener)
+				return { dispose: () => {} }
+			},
+		}
+		const terminal = { name: 'repl', creationOptions: { pty } } as unknown as vscode.Terminal
+		// Terminal capture reads the pseudoterminal's output from then on
+		getTerminalId(terminal)
+		return { terminal, write: (data) => listeners.forEach(listener => listener(data)) }
+	}
+
+	function type(terminal: vscode.Terminal, keys: string[]): void {
+		for (const key of keys) {
+			recordTerminalKeystrokes(terminal, key)
+		}
+	}
+
+	suiteSetup(() => {
+		initializeTerminalInputCapture({ subscriptions: [] } as unknown as vscode.ExtensionContext, action => actions.push(action))
+	})
+
+	suiteTeardown(() => cleanupTerminalInputCapture())
+
+	setup(() => {
+		actions.length = 0
+		resetTerminalInputState()
+	})
+
+	test('Should detect password prompts', () => {
+		assert.ok(isPasswordPrompt('[sudo] password for alice:'))
+		assert.ok(isPasswordPrompt('Password: '))
+		assert.ok(isPasswordPrompt(`Enter passphrase for key '/home/alice/.ssh/id_ed25519':`))
+		assert.ok(isPasswordPrompt('Enter PIN for token:'))
+		assert.ok(isPasswordPrompt('Verification passcode: '))
+	})
+
+	test('Should not treat other lines as password prompts', () => {
+		assert.ok(!isPasswordPrompt('$ echo password'))
+		assert.ok(!isPasswordPrompt('Password changed successfully.'))
+		assert.ok(!isPasswordPrompt('pinned: 3 packages'))
+		assert.ok(!isPasswordPrompt('Password: hunter2'))
+		assert.ok(!isPasswordPrompt('alice@host:~$ '))
+		assert.ok(!isPasswordPrompt(''))
+	})
+
+	test('Should group keystrokes until Enter', () => {
+		const { terminal, write } = createTerminal()
+		write('>>> ')
+		type(terminal, ['p', 'r', 'i', 'n', 't', '(1)', '\r'])
+
+		assert.strictEqual(actions.length, 1)
+		assert.strictEqual(actions[0].text, 'print(1)\r')
+		assert.strictEqual(actions[0].submitted, true)
+		assert.strictEqual(actions[0].via, 'pseudoterminal')
+		assert.strictEqual(actions[0].source, 'user')
+		assert.strictEqual(actions[0].redacted, undefined)
+	})
+
+	test('Should flush keystrokes after a pause in typing', async () => {
+		const { terminal } = createTerminal()
+		type(terminal, ['g', 'i', 't'])
+		assert.strictEqual(actions.length, 0)
+
+		await waitMs(1100)
+		assert.strictEqual(actions.length, 1)
+		assert.strictEqual(actions[0].text, 'git')
+		assert.strictEqual(actions[0].submitted, false)
+	})
+
+	test('Should redact input typed at a password prompt until Enter', () => {
+		const { terminal, write } = createTerminal()
+		write('[sudo] password for alice: ')
+		// The prompt is checked when typing starts, echoed characters do not end the redaction
+		type(terminal, ['h', 'u'])
+		write('**')
+		type(terminal, ['n', 't', 'e', 'r', '2', '\r'])
+		write('\r\n$ ')
+		type(terminal, ['l', 's', '\r'])
+
+		assert.strictEqual(actions.length, 2)
+		assert.deepStrictEqual([actions[0].text, actions[0].redacted, actions[0].submitted], ['', true, true])
+		assert.deepStrictEqual([actions[1].text, actions[1].redacted], ['ls\r', undefined])
+	})
+})
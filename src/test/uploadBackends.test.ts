@@ -0,0 +1,104 @@
+import * as assert from 'node:assert'
+import * as fs from 'node:fs'
+import * as http from 'node:http'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import type { AddressInfo } from 'node:net'
+import { HttpBackend, LocalDirectoryBackend, PresignedUrlBackend } from '../uploadBackends'
+
+interface ReceivedRequest {
+	method: string
+	url: string
+	headers: http.IncomingHttpHeaders
+	body: Buffer
+}
+
+suite('Upload Backend Tests', () => {
+	const metadata = { version: '2.0.0', userId: 'user-1' }
+	const relativePath = path.join('2024_01_01', 'source_part_001.tar.gz')
+
+	let dir: string
+	let partPath: string
+	let server: http.Server
+	let baseUrl: string
+	let received: ReceivedRequest[]
+
+	// Local stand-in for upload servers: answers presign requests with a URL on itself, accepts everything else
+	setup(async () => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'crowd-code-upload-'))
+		partPath = path.join(dir, 'part.tar.gz')
+		fs.writeFileSync(partPath, 'archive')
+
+		received = []
+		server = http.createServer((request, response) => {
+			const parts: Buffer[] = []
+			request.on('data', (data: Buffer) => parts.push(data))
+			request.on('end', () => {
+				received.push({ method: request.method ?? '', url: request.url ?? '', headers: request.headers, body: Buffer.concat(parts) })
+				if (request.url === '/presign') {
+					response.setHeader('Content-Type', 'application/json')
+					response.end(JSON.stringify({ uploadUrl: `${baseUrl}/bucket/part` }))
+				} else {
+					response.end()
+				}
+			})
+		})
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+	})
+
+	teardown(async () => {
+		await new Promise(resolve => server.close(resolve))
+		fs.rmSync(dir, { recursive: true, force: true })
+	})
+
+	test('Should PUT parts under the endpoint with metadata headers', async () => {
+		const backend = new HttpBackend(`${baseUrl}/uploads/`, 'PUT', { Authorization: 'Bearer token' }, metadata)
+
+		assert.strictEqual(await backend.upload(partPath, relativePath), true)
+		assert.strictEqual(received.length, 1)
+		assert.strictEqual(received[0].method, 'PUT')
+		assert.strictEqual(received[0].url, '/uploads/2024_01_01/source_part_001.tar.gz')
+		assert.strictEqual(received[0].headers.authorization, 'Bearer token')
+		assert.strictEqual(received[0].headers['x-crowd-code-user-id'], 'user-1')
+		assert.strictEqual(received[0].body.toString(), 'archive')
+	})
+
+	test('Should POST parts with the path in a header', async () => {
+		const backend = new HttpBackend(`${baseUrl}/uploads`, 'POST', {}, metadata)
+
+		assert.strictEqual(await backend.upload(partPath, relativePath), true)
+		assert.strictEqual(received[0].url, '/uploads')
+		assert.strictEqual(received[0].headers['x-crowd-code-file-name'], relativePath)
+	})
+
+	test('Should upload to the presigned URL returned by the gateway', async () => {
+		const backend = new PresignedUrlBackend(`${baseUrl}/presign`, metadata)
+
+		assert.strictEqual(await backend.upload(partPath, relativePath), true)
+		assert.deepStrictEqual(JSON.parse(received[0].body.toString()), { fileName: relativePath, ...metadata })
+		assert.strictEqual(received[1].method, 'PUT')
+		assert.strictEqual(received[1].url, '/bucket/part')
+		assert.strictEqual(received[1].body.toString(), 'archive')
+	})
+
+	test('Should reject failed HTTP uploads', async () => {
+		server.removeAllListeners('request')
+		server.on('request', (_request: http.IncomingMessage, response: http.ServerResponse) => {
+			response.statusCode = 503
+			response.end()
+		})
+		const backend = new HttpBackend(`${baseUrl}/uploads`, 'PUT', {}, metadata)
+
+		await assert.rejects(backend.upload(partPath, relativePath))
+	})
+
+	test('Should copy parts into the target directory', async () => {
+		const target = path.join(dir, 'target')
+		const backend = new LocalDirectoryBackend(target)
+
+		assert.strictEqual(await backend.upload(partPath, relativePath), true)
+		assert.strictEqual(fs.readFileSync(path.join(target, relativePath), 'utf-8'), 'archive')
+		assert.ok(!fs.existsSync(path.join(target, `${relativePath}.partial`)))
+	})
+})
@@ -0,0 +1,109 @@
+import * as assert from 'node:assert'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+	claimQueueEntry,
+	getBackoffMs,
+	readQueueEntries,
+	refreshQueueClaim,
+	releaseQueueEntry,
+	type QueuedUpload,
+} from '../uploadQueue'
+
+suite('Upload Queue Tests', () => {
+	let dir: string
+
+	function entry(id: string, createdAt = Date.now()): QueuedUpload {
+		return { id, fileName: `${id}.tar.gz`, relativePath: `session/${id}.tar.gz`, createdAt, attempts: 0, nextAttemptAt: 0 }
+	}
+
+	function writePart(queued: QueuedUpload, withEntry = true): void {
+		fs.writeFileSync(path.join(dir, queued.fileName), 'part')
+		if (withEntry) {
+			fs.writeFileSync(path.join(dir, `${queued.id}.json`), JSON.stringify(queued))
+		}
+	}
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'crowd-code-queue-'))
+	})
+
+	teardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true })
+	})
+
+	test('Should back off exponentially up to an hour', () => {
+		assert.strictEqual(getBackoffMs(1), 30 * 1000)
+		assert.strictEqual(getBackoffMs(2), 60 * 1000)
+		assert.strictEqual(getBackoffMs(4), 4 * 60 * 1000)
+		assert.strictEqual(getBackoffMs(20), 60 * 60 * 1000)
+	})
+
+	test('Should read entries oldest first and drop entries whose part is gone', async () => {
+		writePart(entry('b', 2000))
+		writePart(entry('a', 1000))
+		fs.writeFileSync(path.join(dir, 'uploaded.json'), JSON.stringify(entry('uploaded', 0)))
+		// Written by another window that is about to move the part in
+		fs.writeFileSync(path.join(dir, 'moving.json'), JSON.stringify(entry('moving')))
+
+		const entries = await readQueueEntries(dir)
+
+		assert.deepStrictEqual(entries.map(queued => queued.id), ['a', 'b'])
+		assert.ok(!fs.existsSync(path.join(dir, 'uploaded.json')))
+		assert.ok(fs.existsSync(path.join(dir, 'moving.json')))
+	})
+
+	test('Should let one window at a time claim a part', async () => {
+		assert.strictEqual(await claimQueueEntry(dir, 'a'), true)
+		assert.strictEqual(await claimQueueEntry(dir, 'a'), false)
+
+		await releaseQueueEntry(dir, 'a')
+		assert.strictEqual(await claimQueueEntry(dir, 'a'), true)
+	})
+
+	test('Should take over stale claims', async () => {
+		const lockPath = path.join(dir, 'a.lock')
+		fs.writeFileSync(lockPath, '1')
+		const stale = new Date(Date.now() - 60 * 60 * 1000)
+		fs.utimesSync(lockPath, stale, stale)
+
+		assert.strictEqual(await claimQueueEntry(dir, 'a'), true)
+		assert.notStrictEqual(fs.readFileSync(lockPath, 'utf-8'), '1')
+		assert.deepStrictEqual(fs.readdirSync(dir), ['a.lock'])
+	})
+
+	test('Should keep claims fresh while their upload runs', async () => {
+		const lockPath = path.join(dir, 'a.lock')
+		assert.strictEqual(await claimQueueEntry(dir, 'a'), true)
+		const stale = new Date(Date.now() - 60 * 60 * 1000)
+		fs.utimesSync(lockPath, stale, stale)
+
+		// A slow upload refreshes its claim, so other windows do not upload the part again
+		assert.strictEqual(await refreshQueueClaim(dir, 'a'), true)
+		assert.strictEqual(await claimQueueEntry(dir, 'a'), false)
+	})
+
+	test('Should not release or refresh claims taken over by another window', async () => {
+		const lockPath = path.join(dir, 'a.lock')
+		assert.strictEqual(await claimQueueEntry(dir, 'a'), true)
+		// Another window took over the claim, e.g. after this one hung
+		fs.writeFileSync(lockPath, 'other window')
+
+		assert.strictEqual(await refreshQueueClaim(dir, 'a'), false)
+		await releaseQueueEntry(dir, 'a')
+		assert.strictEqual(fs.readFileSync(lockPath, 'utf-8'), 'other window')
+	})
+
+	test('Should let only one of several windows take over a stale claim', async () => {
+		const lockPath = path.join(dir, 'a.lock')
+		fs.writeFileSync(lockPath, '1')
+		const stale = new Date(Date.now() - 60 * 60 * 1000)
+		fs.utimesSync(lockPath, stale, stale)
+
+		const claims = await Promise.all([claimQueueEntry(dir, 'a'), claimQueueEntry(dir, 'a'), claimQueueEntry(dir, 'a')])
+
+		assert.deepStrictEqual(claims.filter(Boolean), [true])
+		assert.deepStrictEqual(fs.readdirSync(dir), ['a.lock'])
+	})
+})
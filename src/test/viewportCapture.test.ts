@@ -0,0 +1,86 @@
+import * as assert from 'node:assert'
+import * as vscode from 'vscode'
+import { contributes } from '../../package.json'
+import { captureVisibleEditors, describeEditor, getDiffCounterpart, isCapturedDocument } from '../capture/viewportCapture'
+
+suite('Viewport Capture Tests', () => {
+	const defaultSchemes = contributes.configuration.properties['crowdCode.capture.documentSchemes'].default
+
+	function editor(uri: vscode.Uri, lines: string[], viewColumn = vscode.ViewColumn.One): vscode.TextEditor {
+		const document = {
+			uri,
+			fileName: uri.fsPath,
+			lineAt: (line: number) => ({ text: lines[line] }),
+			getText: (range: vscode.Range) => lines.slice(range.start.line, range.end.line + 1).join('\n'),
+		}
+		const selection = new vscode.Selection(0, 0, 0, 0)
+		return {
+			document,
+			visibleRanges: [new vscode.Range(0, 0, lines.length - 1, 0)],
+			selection,
+			selections: [selection],
+			viewColumn,
+		} as unknown as vscode.TextEditor
+	}
+
+	test('Should record documents of the configured schemes only', () => {
+		// Files, scratch buffers, the original side of git diffs and notebook cells by default
+		for (const uri of ['file:///workspaces/app/index.ts', 'untitled:Untitled-1', 'git:/workspaces/app/index.ts', 'vscode-notebook-cell:/workspaces/app/analysis.ipynb#W0sZmlsZQ%3D%3D']) {
+			assert.strictEqual(isCapturedDocument(vscode.Uri.parse(uri), defaultSchemes), true, uri)
+		}
+		// Output channels, settings and other virtual documents are not
+		for (const uri of ['output:extension-output-crowd-code', 'vscode-userdata:/User/settings.json', 'walkThroughSnippet:/welcome.md']) {
+			assert.strictEqual(isCapturedDocument(vscode.Uri.parse(uri), defaultSchemes), false, uri)
+		}
+
+		// Added schemes are recorded, removed ones are not
+		assert.strictEqual(isCapturedDocument(vscode.Uri.parse('vscode-remote://ssh-remote+box/app/index.ts'), ['file', 'vscode-remote']), true)
+		assert.strictEqual(isCapturedDocument(vscode.Uri.parse('untitled:Untitled-1'), ['file']), false)
+	})
+
+	test('Should describe the scheme of recorded editors', () => {
+		const scratch = describeEditor(editor(vscode.Uri.parse('untitled:Untitled-1'), ['notes', 'more notes']))
+		assert.strictEqual(scratch?.scheme, 'untitled')
+		assert.strictEqual(scratch?.content, 'notes\nmore notes')
+
+		const original = describeEditor(editor(vscode.Uri.parse('git:/workspaces/app/index.ts'), ['const a = 1']))
+		assert.strictEqual(original?.scheme, 'git')
+
+		assert.strictEqual(describeEditor(editor(vscode.Uri.file('/workspaces/app/index.ts'), ['const a = 1']))?.scheme, 'file')
+	})
+
+	test('Should not describe editors of documents that are not recorded', () => {
+		assert.strictEqual(describeEditor(editor(vscode.Uri.parse('output:extension-output-crowd-code'), ['log line'])), null)
+	})
+
+	test('Should capture the visible editors besides the active one', () => {
+		const active = editor(vscode.Uri.file('/workspaces/app/index.ts'), ['const a = 1'])
+		const split = editor(vscode.Uri.file('/workspaces/app/util.ts'), ['export {}', 'const b = 2'], vscode.ViewColumn.Two)
+		const output = editor(vscode.Uri.parse('output:extension-output-crowd-code'), ['log line'], vscode.ViewColumn.Two)
+
+		const states = captureVisibleEditors([active, split, output], active)
+
+		// The active editor is the observation's viewport, documents that are not recorded are left out
+		assert.strictEqual(states?.length, 1)
+		assert.strictEqual(states?.[0].content, 'export {}\nconst b = 2')
+		assert.strictEqual(states?.[0].viewColumn, vscode.ViewColumn.Two)
+		assert.deepStrictEqual(states?.[0].visibleRanges, [{ startLine: 1, endLine: 2 }])
+		assert.strictEqual(captureVisibleEditors([active], active), null)
+		assert.strictEqual(captureVisibleEditors([], undefined), null)
+	})
+
+	test('Should pair both sides of a diff editor', () => {
+		const original = vscode.Uri.parse('git:/workspaces/app/index.ts')
+		const modified = vscode.Uri.file('/workspaces/app/index.ts')
+		const diffGroup = { viewColumn: vscode.ViewColumn.One, activeTab: { input: new vscode.TabInputTextDiff(original, modified) } }
+		const textGroup = { viewColumn: vscode.ViewColumn.Two, activeTab: { input: new vscode.TabInputText(modified) } }
+		const tabGroups = { all: [diffGroup, textGroup], activeTabGroup: textGroup } as unknown as vscode.TabGroups
+
+		assert.strictEqual(getDiffCounterpart(editor(modified, ['const a = 2']), tabGroups)?.scheme, 'git')
+		assert.strictEqual(getDiffCounterpart(editor(original, ['const a = 1']), tabGroups)?.scheme, 'file')
+		// The same file opened next to the diff editor is not part of it
+		assert.strictEqual(getDiffCounterpart(editor(modified, ['const a = 2'], vscode.ViewColumn.Two), tabGroups), null)
+		// Another document in the diff editor's group
+		assert.strictEqual(getDiffCounterpart(editor(vscode.Uri.file('/workspaces/app/util.ts'), ['export {}']), tabGroups), null)
+	})
+})
@@ -13,23 +13,167 @@ export interface CursorPosition {
 	character: number
 }
 
+export interface SelectionRange {
+	start: CursorPosition
+	end: CursorPosition
+	selectedText: string
+}
+
 export interface ViewportState {
 	file: string
+	workspaceFolder: string | null
 	startLine: number
 	endLine: number
 	content: string
 	cursorPosition: CursorPosition | null
+	// All cursors, primary first, only present with multiple cursors
+	cursorPositions?: CursorPosition[]
+	// URI scheme of the document: 'file', 'untitled' for scratch buffers, 'git' for diff and history views, ...
+	scheme?: string
+	// Other side of the diff editor showing the document
+	diffWith?: DocumentReference
+}
+
+export interface LineRange {
+	startLine: number
+	endLine: number
+}
+
+export interface VisibleEditorState extends ViewportState {
+	// Editor group column, null if unknown
+	viewColumn: number | null
+	// 1-based visible line ranges, several when regions are folded
+	visibleRanges: LineRange[]
+	// Diagnostics in the visible ranges, only present if there are any
+	diagnostics?: DiagnosticState[]
+}
+
+export interface DocumentReference {
+	file: string
+	scheme: string
+}
+
+// Palette index (0-255) or '#rrggbb'
+export type TerminalColor = number | string
+
+export interface TerminalStyle {
+	fg?: TerminalColor
+	bg?: TerminalColor
+	bold?: boolean
+	dim?: boolean
+	italic?: boolean
+	underline?: boolean
+	inverse?: boolean
+	strikethrough?: boolean
+}
+
+// Styled columns [start, end) of a terminal line
+export interface TerminalStyleRun extends TerminalStyle {
+	start: number
+	end: number
 }
 
 export interface TerminalViewport {
 	id: string
 	name: string
+	// Visible lines of the terminal, as rendered on screen
 	viewport: string[]
+	// Style runs of each viewport line, only captured with crowdCode.terminal.captureStyles
+	styles?: TerminalStyleRun[][]
+	// Index of the first visible line in the terminal's scrollback
+	firstLine?: number
+	// Visible row count of the terminal
+	rows?: number
+	// Lines that scrolled past since the previous observation without being observed
+	scrolledLines?: string[]
+	// Output read without shell integration
+	lowFidelity?: boolean
+}
+
+export interface DebugStackFrame {
+	name: string
+	file: string | null
+	line: number
+	column: number
+}
+
+export interface DebugVariable {
+	name: string
+	value: string
+	type: string | null
+}
+
+export interface DebugScope {
+	name: string
+	variables: DebugVariable[]
+}
+
+export interface DebugWatch {
+	expression: string
+	value: string
+}
+
+export interface DebugObservation {
+	sessionId: string
+	sessionName: string
+	// Null while the debuggee is running
+	pausedLocation: DebugStackFrame | null
+	stopReason: string | null
+	callStack: DebugStackFrame[]
+	// Scopes and variables of the selected stack frame
+	scopes: DebugScope[]
+	watches: DebugWatch[]
+}
+
+export type NotebookCellKind = 'code' | 'markdown'
+
+export interface NotebookCellOutput {
+	// e.g. text/plain, image/png, application/vnd.code.notebook.stderr
+	mime: string
+	// Truncated text of the output, null for binary outputs (images, widgets)
+	text: string | null
+}
+
+export interface NotebookCellState {
+	index: number
+	kind: NotebookCellKind
+	language: string
+	content: string
+	outputs: NotebookCellOutput[]
+}
+
+export interface NotebookObservation {
+	file: string
+	// Index of the selected cell, null if no cell is selected
+	activeCell: number | null
+	visibleCells: NotebookCellState[]
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'information' | 'hint'
+
+export interface DiagnosticState {
+	severity: DiagnosticSeverity
+	message: string
+	// e.g. 'ts', 'eslint', 'Pylance'
+	source: string | null
+	code: string | null
+	start: CursorPosition
+	end: CursorPosition
 }
 
 export interface Observation {
 	viewport: ViewportState | null
 	activeTerminal: TerminalViewport | null
+	// Only present while a debug session is active
+	debug?: DebugObservation
+	// Only present while a notebook editor is active
+	notebook?: NotebookObservation
+	// Visible text editors besides the active one (split views, diff editors), only present if there are any
+	visibleEditors?: VisibleEditorState[]
+	// Diagnostics in the visible range of the active editor, only present if there are any
+	diagnostics?: DiagnosticState[]
+	// Whether the VS Code window had focus, i.e. the human could see this state (absent in older chunks)
+	windowFocused?: boolean
 }
 
 export interface EditDiff {
@@ -46,6 +190,62 @@ export interface EditAction {
 	file: string
 	diff: EditDiff
 	reason?: EditReason
+	// Shared by all edits of a user refactor (rename, code action, replace all) spanning files or the whole document
+	batchId?: string
+	// Shared by the edits of one multi-cursor edit, which are recorded in descending offset order
+	cursorGroupId?: string
+	// Index of the cursor (in the preceding selections, primary first) that made the edit
+	cursorIndex?: number
+}
+
+export interface InlineCompletionAction {
+	kind: 'inline_completion'
+	source: ActionSource
+	file: string
+	// diff.text is the accepted completion text
+	diff: EditDiff
+	// Accepted word- or line-wise instead of as a whole
+	partial: boolean
+	// 'command' if the accept command was captured, 'heuristic' for large inserts after a typing pause
+	detection: 'command' | 'heuristic'
+	// Most likely completion provider, with confidence 0..1
+	agentId: string
+	agentConfidence: number
+}
+
+export interface NotebookCellEditAction {
+	kind: 'notebook_cell_edit'
+	source: ActionSource
+	// The notebook file
+	file: string
+	cellIndex: number
+	// Offsets are relative to the cell content
+	diff: EditDiff
+}
+
+export interface NotebookCellChangeAction {
+	kind: 'notebook_cell_change'
+	source: ActionSource
+	file: string
+	change: 'add' | 'delete' | 'move'
+	cellIndex: number
+	// Index before a move
+	previousIndex?: number
+	cellKind: NotebookCellKind
+	// Content of added and deleted cells
+	content?: string
+}
+
+export interface NotebookCellExecutionAction {
+	kind: 'notebook_cell_execution'
+	source: ActionSource
+	file: string
+	cellIndex: number
+	// Null if the kernel did not report them
+	executionOrder: number | null
+	success: boolean | null
+	durationMs: number | null
+	outputs: NotebookCellOutput[]
 }
 
 export interface SelectionAction {
@@ -55,6 +255,8 @@ export interface SelectionAction {
 	selectionStart: CursorPosition
 	selectionEnd: CursorPosition
 	selectedText: string
+	// All selections, primary first, only present with multiple cursors
+	selections?: SelectionRange[]
 }
 
 export interface TabSwitchAction {
@@ -77,23 +279,161 @@ export interface TerminalCommandAction {
 	terminalId: string
 	terminalName: string
 	command: string
+	// Pairs the command with its terminal_command_end event
+	commandId?: string
+	// Reconstructed without shell integration (from prompts in the output or sendText)
+	lowFidelity?: boolean
+}
+
+export interface TerminalInputAction {
+	kind: 'terminal_input'
+	source: ActionSource
+	terminalId: string
+	terminalName: string
+	// Raw input, including control sequences (empty when redacted)
+	text: string
+	// Whether the input was submitted (Enter, or sendText with execution)
+	submitted: boolean
+	// How the input was captured
+	via: 'pseudoterminal' | 'send_text' | 'shell_integration'
+	// Input typed at a password prompt, never recorded
+	redacted?: boolean
 }
 
 export interface FileChangeAction {
 	kind: 'file_change'
 	source: ActionSource
 	file: string
+	// Null for chunks recorded before format 2.1
+	workspaceFolder: string | null
 	changeType: 'create' | 'change' | 'delete'
 	diff: string | null
+	// Most likely agent for agent changes (e.g. 'copilot', 'claude-code'), with confidence 0..1
+	agentId?: string
+	agentConfidence?: number
+}
+
+export interface DebugSessionAction {
+	kind: 'debug_session'
+	source: ActionSource
+	change: 'start' | 'stop'
+	sessionId: string
+	sessionName: string
+	debugType: string
+}
+
+export interface BreakpointAction {
+	kind: 'breakpoint'
+	source: ActionSource
+	change: 'add' | 'remove' | 'toggle'
+	enabled: boolean
+	// Source breakpoints have a file and line, function breakpoints a function name
+	file: string | null
+	line: number | null
+	functionName: string | null
+	condition: string | null
+}
+
+export type DebugStepKind = 'step_over' | 'step_into' | 'step_out' | 'continue' | 'pause'
+
+export interface DebugStepAction {
+	kind: 'debug_step'
+	source: ActionSource
+	step: DebugStepKind
+	sessionId: string
+}
+
+export interface StackFrameSelectAction {
+	kind: 'stack_frame_select'
+	source: ActionSource
+	sessionId: string
+	threadId: number
+	frame: DebugStackFrame
+}
+
+export type NavigationKind = 'definition' | 'references' | 'implementation' | 'symbol' | 'quick-open' | 'search' | 'back' | 'forward'
+
+export interface NavigationLocation {
+	file: string
+	position: CursorPosition
+}
+
+export interface NavigationAction {
+	kind: 'navigation'
+	source: ActionSource
+	navigation: NavigationKind
+	// The command that triggered the navigation
+	command: string
+	// Null if no editor was active
+	from: NavigationLocation | null
+	to: NavigationLocation
+}
+
+export interface SearchOptions {
+	regex: boolean
+	caseSensitive: boolean
+	wholeWord: boolean
+	// Glob patterns of files to include and exclude, empty if not set
+	include: string
+	exclude: string
+}
+
+export interface SearchResult {
+	file: string
+	// 1-based line of the match
+	line: number
+	text: string
+}
+
+export interface SearchAction {
+	kind: 'search'
+	source: ActionSource
+	query: string
+	options: SearchOptions
+	// Total number of results, null if not reported yet
+	resultCount: number | null
+	// Results in the visible part of the search editor
+	visibleResults: SearchResult[]
+}
+
+export type CommandArgument = string | number | boolean | null
+
+export interface CommandSearch {
+	query: string
+	options: SearchOptions
+}
+
+export interface CommandAction {
+	kind: 'command'
+	source: ActionSource
+	command: string
+	// Only primitive arguments are kept, URIs as relative paths, other objects as null
+	args: CommandArgument[]
+	// 'keybinding' for commands forwarded from crowd-code keybindings, otherwise the trigger is not known
+	trigger: 'keybinding' | 'unknown'
+	// Workspace search passed to find in files in its options argument, only present if it has a query
+	search?: CommandSearch
 }
 
 export type Action =
 	| EditAction
+	| InlineCompletionAction
+	| NotebookCellEditAction
+	| NotebookCellChangeAction
+	| NotebookCellExecutionAction
 	| SelectionAction
 	| TabSwitchAction
 	| TerminalFocusAction
 	| TerminalCommandAction
+	| TerminalInputAction
 	| FileChangeAction
+	| DebugSessionAction
+	| BreakpointAction
+	| DebugStepAction
+	| StackFrameSelectAction
+	| CommandAction
+	| NavigationAction
+	| SearchAction
 
 export interface ObservationEvent {
 	sequence: number
@@ -114,9 +454,75 @@ export interface WorkspaceSnapshotEvent {
 	timestamp: number
 	type: 'workspace_snapshot'
 	snapshotId: string
+	// Workspace folder of the change that triggered the snapshot (null before format 2.1)
+	workspaceFolder: string | null
+}
+
+export interface TerminalOutputDigest {
+	lines: number
+	characters: number
+	// SHA-256 of the raw output
+	sha256: string
+	// Last lines of the output, as rendered on screen
+	tail: string[]
 }
 
-export type RecordingEvent = ObservationEvent | ActionEvent | WorkspaceSnapshotEvent
+export interface TerminalCommandEndEvent {
+	sequence: number
+	timestamp: number
+	type: 'terminal_command_end'
+	commandId: string
+	terminalId: string
+	// null if the shell did not report an exit code
+	exitCode: number | null
+	durationMs: number
+	// Working directory reported by shell integration, relative to the workspace when inside it
+	cwd: string | null
+	output: TerminalOutputDigest
+	// Reconstructed without shell integration: output runs until the next prompt, exit code and cwd are unknown
+	lowFidelity?: boolean
+}
+
+export interface SessionPauseEvent {
+	sequence: number
+	timestamp: number
+	type: 'session_pause'
+	// 'idle' without activity while the window was focused, 'away' while it was not
+	reason: 'idle' | 'away'
+	// Time since the last activity
+	idleMs: number
+}
+
+export interface SessionResumeEvent {
+	sequence: number
+	timestamp: number
+	type: 'session_resume'
+	pausedMs: number
+}
+
+// The VS Code window gained focus
+export interface WindowFocusEvent {
+	sequence: number
+	timestamp: number
+	type: 'window_focus'
+}
+
+// The VS Code window lost focus
+export interface WindowBlurEvent {
+	sequence: number
+	timestamp: number
+	type: 'window_blur'
+}
+
+export type RecordingEvent =
+	| ObservationEvent
+	| ActionEvent
+	| WorkspaceSnapshotEvent
+	| TerminalCommandEndEvent
+	| SessionPauseEvent
+	| SessionResumeEvent
+	| WindowFocusEvent
+	| WindowBlurEvent
 
 export interface RecordingSession {
 	version: '2.0'
@@ -125,12 +531,18 @@ export interface RecordingSession {
 	events: RecordingEvent[]
 }
 
+export interface RedactionReport {
+	total: number
+	byCategory: Record<string, number>
+}
+
 export interface RecordingChunk {
-	version: '2.0'
+	version: '2.1'
 	sessionId: string
 	startTime: number
 	chunkIndex: number
 	events: RecordingEvent[]
+	redactions: RedactionReport
 }
 
 export interface RecordingState {
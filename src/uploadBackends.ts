@@ -0,0 +1,220 @@
+/**
+ * Upload Backends
+ * Pluggable destinations for finished recording parts, selected via crowdCode.upload.* settings
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import axios from 'axios'
+import { hasConsent } from './consent'
+import { extContext } from './extension'
+import { getConfig, logToOutput } from './utilities'
+
+const CROWD_CODE_API_GATEWAY_URL = process.env.CROWD_CODE_API_GATEWAY_URL
+
+export type UploadBackendType = 'presigned' | 'http' | 'directory'
+
+export interface UploadBackend {
+	readonly name: string
+	/**
+	 * Upload a file, identified by its path relative to the export path
+	 * Returns true if upload succeeded, false otherwise
+	 */
+	upload(filePath: string, relativePath: string): Promise<boolean>
+}
+
+/**
+ * Metadata sent along with every upload
+ */
+export interface UploadMetadata {
+	version: string
+	userId: string
+}
+
+function getUploadMetadata(): UploadMetadata {
+	return {
+		version: extContext.extension.packageJSON.version as string,
+		userId: extContext.globalState.get<string>('userId') ?? '',
+	}
+}
+
+/**
+ * Upload using S3 presigned URLs.
+ * Two-step process: 1) Request presigned URL from Lambda, 2) Upload directly to S3
+ */
+export class PresignedUrlBackend implements UploadBackend {
+	readonly name = 'presigned'
+
+	constructor(private readonly gatewayUrl: string, private readonly metadata: UploadMetadata) {}
+
+	async upload(filePath: string, relativePath: string): Promise<boolean> {
+		const compressedData = await fs.promises.readFile(filePath)
+		const { version, userId } = this.metadata
+
+		const response = await axios.post(this.gatewayUrl, {
+			fileName: relativePath,
+			version,
+			userId,
+		}, {
+			headers: {
+				'Content-Type': 'application/json',
+			},
+			timeout: 10000,
+		})
+
+		const { uploadUrl } = response.data
+		if (!uploadUrl || typeof uploadUrl !== 'string') {
+			throw new Error('Invalid presigned URL received from server')
+		}
+
+		await axios.put(uploadUrl, compressedData, {
+			headers: {
+				'Content-Type': 'application/gzip',
+			},
+			timeout: 60000,
+			maxBodyLength: Infinity,
+			maxContentLength: Infinity,
+		})
+
+		return true
+	}
+}
+
+/**
+ * Upload the archive directly to an HTTP endpoint
+ * PUT appends the relative path to the endpoint URL, POST sends it in a header
+ */
+export class HttpBackend implements UploadBackend {
+	readonly name = 'http'
+
+	constructor(
+		private readonly endpoint: string,
+		private readonly method: 'PUT' | 'POST',
+		private readonly headers: Record<string, string>,
+		private readonly metadata: UploadMetadata
+	) {}
+
+	async upload(filePath: string, relativePath: string): Promise<boolean> {
+		const compressedData = await fs.promises.readFile(filePath)
+		const { version, userId } = this.metadata
+		const urlPath = relativePath.split(path.sep).map(encodeURIComponent).join('/')
+		const url = this.method === 'PUT'
+			? `${this.endpoint.replace(/\/+$/, '')}/${urlPath}`
+			: this.endpoint
+
+		await axios.request({
+			url,
+			method: this.method,
+			data: compressedData,
+			headers: {
+				'Content-Type': 'application/gzip',
+				'X-Crowd-Code-File-Name': relativePath,
+				'X-Crowd-Code-Version': version,
+				'X-Crowd-Code-User-Id': userId,
+				...this.headers,
+			},
+			timeout: 60000,
+			maxBodyLength: Infinity,
+			maxContentLength: Infinity,
+		})
+
+		return true
+	}
+}
+
+/**
+ * Copy the archive into a local (or network-mounted) directory
+ */
+export class LocalDirectoryBackend implements UploadBackend {
+	readonly name = 'directory'
+
+	constructor(private readonly directory: string) {}
+
+	async upload(filePath: string, relativePath: string): Promise<boolean> {
+		const targetPath = path.join(this.directory, relativePath)
+		await fs.promises.mkdir(path.dirname(targetPath), { recursive: true })
+		// Copy to a temp name first, so readers never see a partial archive
+		const tempPath = `${targetPath}.partial`
+		await fs.promises.copyFile(filePath, tempPath)
+		await fs.promises.rename(tempPath, targetPath)
+		return true
+	}
+}
+
+/**
+ * Create the backend selected in the settings
+ * Returns undefined (and logs why) if the selected backend is not configured
+ */
+export function getUploadBackend(): UploadBackend | undefined {
+	const config = getConfig()
+	const backendType = config.get<UploadBackendType>('upload.backend', 'presigned')
+	const endpoint = config.get<string>('upload.endpoint', '').trim()
+
+	switch (backendType) {
+		case 'presigned': {
+			const gatewayUrl = endpoint || CROWD_CODE_API_GATEWAY_URL?.trim()
+			if (!gatewayUrl) {
+				logToOutput('Skipping upload: API URL not configured', 'info')
+				return undefined
+			}
+			return new PresignedUrlBackend(gatewayUrl, getUploadMetadata())
+		}
+		case 'http': {
+			if (!endpoint) {
+				logToOutput('Skipping upload: crowdCode.upload.endpoint not configured', 'info')
+				return undefined
+			}
+			const method = config.get<'PUT' | 'POST'>('upload.httpMethod', 'PUT')
+			const headers = config.get<Record<string, string>>('upload.headers', {})
+			return new HttpBackend(endpoint, method, headers, getUploadMetadata())
+		}
+		case 'directory': {
+			const directory = config.get<string>('upload.directory', '').trim()
+			if (!directory) {
+				logToOutput('Skipping upload: crowdCode.upload.directory not configured', 'info')
+				return undefined
+			}
+			return new LocalDirectoryBackend(directory)
+		}
+		default:
+			logToOutput(`Skipping upload: unknown upload backend ${backendType}`, 'error')
+			return undefined
+	}
+}
+
+/**
+ * Upload a file with the configured backend
+ * Returns true if upload succeeded, false otherwise
+ */
+export async function uploadFile(filePath: string, relativePath: string): Promise<boolean> {
+	if (!hasConsent()) {
+		logToOutput('Skipping upload: no consent', 'info')
+		return false
+	}
+
+	const backend = getUploadBackend()
+	if (!backend) {
+		return false
+	}
+
+	try {
+		const succeeded = await backend.upload(filePath, relativePath)
+		if (succeeded) {
+			logToOutput(`Successfully uploaded (${backend.name}): ${relativePath}`, 'info')
+		}
+		return succeeded
+	} catch (error: unknown) {
+		if (axios.isAxiosError(error)) {
+			if (error.response) {
+				logToOutput(`Error uploading ${relativePath}: ${error.response.status} - ${error.response.data}`, 'error')
+			} else if (error.request) {
+				logToOutput(`Error uploading ${relativePath}: No response received`, 'error')
+			} else {
+				logToOutput(`Error uploading ${relativePath}: ${error.message}`, 'error')
+			}
+		} else {
+			logToOutput(`Error uploading ${relativePath}: ${error}`, 'error')
+		}
+		return false
+	}
+}
@@ -0,0 +1,386 @@
+/**
+ * Upload Queue Module
+ * Durable on-disk queue of finished recording parts with retry, backoff and resume across restarts
+ *
+ * The queue directory in global storage is shared by all VS Code windows. Each part `<id>.tar.gz` has its own
+ * `<id>.json` entry, written before the part is moved in and afterwards only updated by the window holding the
+ * part's `<id>.lock` claim (touched while its upload runs), so windows never overwrite each other's entries or
+ * upload the same part twice
+ */
+
+import * as vscode from 'vscode'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as crypto from 'node:crypto'
+import { hasConsent } from './consent'
+import { logToOutput } from './utilities'
+
+const QUEUE_DIR_NAME = 'upload-queue'
+const PART_SUFFIX = '.tar.gz'
+const ENTRY_SUFFIX = '.json'
+const LOCK_SUFFIX = '.lock'
+const QUEUE_CHECK_INTERVAL_MS = 60 * 1000 // Check for due uploads every minute
+const BASE_BACKOFF_MS = 30 * 1000
+const MAX_BACKOFF_MS = 60 * 60 * 1000
+// Claims of windows that crashed or hung mid-upload are taken over after this
+const STALE_LOCK_MS = 15 * 60 * 1000
+// Claims are touched while their upload runs, so slow uploads never look stale
+const LOCK_REFRESH_INTERVAL_MS = 60 * 1000
+// Entries are written before their part is moved in, entries without part are only dropped after this
+const ORPHAN_ENTRY_GRACE_MS = 60 * 1000
+
+export interface QueuedUpload {
+	id: string
+	// File name inside the queue directory
+	fileName: string
+	// Path reported to the upload backend (relative to the export path)
+	relativePath: string
+	createdAt: number
+	attempts: number
+	nextAttemptAt: number
+	lastError?: string
+}
+
+export interface UploadQueueStatus {
+	pending: number
+	failing: number
+	nextAttemptAt: number | null
+}
+
+export type UploadFunction = (filePath: string, relativePath: string) => Promise<boolean>
+
+let queueDir: string | null = null
+// Entries as last read from disk, for status display
+let entries: QueuedUpload[] = []
+let uploadFunction: UploadFunction | null = null
+let onStatusChangeCallback: ((status: UploadQueueStatus) => void) | null = null
+let checkIntervalId: NodeJS.Timeout | null = null
+let processing = false
+// Contents of the lock files written by this window, by lock path
+const claimTokens = new Map<string, string>()
+
+/**
+ * Exponential backoff: 30s, 1m, 2m, ... capped at 1h
+ */
+export function getBackoffMs(attempts: number): number {
+	return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS)
+}
+
+function getEntryPath(dir: string, id: string): string {
+	return path.join(dir, `${id}${ENTRY_SUFFIX}`)
+}
+
+/**
+ * Persist an entry (write to a temp file first so a crash never corrupts it)
+ */
+async function writeEntry(dir: string, entry: QueuedUpload): Promise<void> {
+	const entryPath = getEntryPath(dir, entry.id)
+	const tempPath = `${entryPath}.${process.pid}.tmp`
+	await fs.promises.writeFile(tempPath, JSON.stringify(entry, null, 2))
+	await fs.promises.rename(tempPath, entryPath)
+}
+
+async function readEntry(dir: string, id: string): Promise<QueuedUpload | null> {
+	try {
+		return JSON.parse(await fs.promises.readFile(getEntryPath(dir, id), 'utf-8'))
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Read the entries of a queue directory, dropping entries whose part is gone
+ */
+export async function readQueueEntries(dir: string): Promise<QueuedUpload[]> {
+	const result: QueuedUpload[] = []
+	for (const fileName of await fs.promises.readdir(dir)) {
+		if (!fileName.endsWith(ENTRY_SUFFIX)) {continue}
+		const entry = await readEntry(dir, path.basename(fileName, ENTRY_SUFFIX))
+		if (!entry) {continue}
+
+		if (fs.existsSync(path.join(dir, entry.fileName))) {
+			result.push(entry)
+		} else if (Date.now() - entry.createdAt > ORPHAN_ENTRY_GRACE_MS) {
+			// Uploaded by another window, or its part was never moved in
+			await fs.promises.rm(path.join(dir, fileName), { force: true })
+		}
+	}
+	return result.sort((a, b) => a.createdAt - b.createdAt)
+}
+
+function getLockPath(dir: string, id: string): string {
+	return path.join(dir, `${id}${LOCK_SUFFIX}`)
+}
+
+async function readLock(lockPath: string): Promise<string | null> {
+	try {
+		return await fs.promises.readFile(lockPath, 'utf-8')
+	} catch {
+		return null
+	}
+}
+
+async function writeLock(lockPath: string): Promise<boolean> {
+	const token = `${process.pid}-${crypto.randomBytes(8).toString('hex')}`
+	try {
+		await fs.promises.writeFile(lockPath, token, { flag: 'wx' })
+	} catch {
+		return false
+	}
+	claimTokens.set(lockPath, token)
+	return true
+}
+
+/**
+ * Remove a stale lock, false if another window took the part over first
+ * The lock is moved aside under a unique name, which only one window can do for the same file. If the moved file is
+ * not the stale lock that was read (another window replaced it with its own claim in between), it is put back
+ */
+async function removeStaleLock(lockPath: string, staleToken: string): Promise<boolean> {
+	const asidePath = `${lockPath}.${process.pid}-${crypto.randomBytes(4).toString('hex')}.stale`
+	try {
+		await fs.promises.rename(lockPath, asidePath)
+	} catch {
+		return false
+	}
+
+	if (await readLock(asidePath) === staleToken) {
+		await fs.promises.rm(asidePath, { force: true })
+		return true
+	}
+	try {
+		await fs.promises.link(asidePath, lockPath)
+	} catch {
+		// Yet another window claimed the part meanwhile, the part is claimed either way
+	}
+	await fs.promises.rm(asidePath, { force: true })
+	return false
+}
+
+/**
+ * Claim a part for upload, false if another window is uploading it
+ */
+export async function claimQueueEntry(dir: string, id: string): Promise<boolean> {
+	const lockPath = getLockPath(dir, id)
+	if (await writeLock(lockPath)) {
+		return true
+	}
+
+	// Held by another window, unless it is stale
+	try {
+		const { mtimeMs } = await fs.promises.stat(lockPath)
+		const staleToken = await readLock(lockPath)
+		if (Date.now() - mtimeMs < STALE_LOCK_MS || staleToken === null) {
+			return false
+		}
+		if (!await removeStaleLock(lockPath, staleToken)) {
+			return false
+		}
+	} catch {
+		return false
+	}
+	return writeLock(lockPath)
+}
+
+/**
+ * Touch the lock of a claimed part while its upload runs, false if this window no longer holds it
+ */
+export async function refreshQueueClaim(dir: string, id: string): Promise<boolean> {
+	const lockPath = getLockPath(dir, id)
+	const token = claimTokens.get(lockPath)
+	if (!token || await readLock(lockPath) !== token) {
+		return false
+	}
+	const now = new Date()
+	await fs.promises.utimes(lockPath, now, now)
+	return true
+}
+
+/**
+ * Release a claimed part, leaving a lock another window took over in place
+ */
+export async function releaseQueueEntry(dir: string, id: string): Promise<void> {
+	const lockPath = getLockPath(dir, id)
+	const token = claimTokens.get(lockPath)
+	claimTokens.delete(lockPath)
+	if (token && await readLock(lockPath) === token) {
+		await fs.promises.rm(lockPath, { force: true })
+	}
+}
+
+async function refreshEntries(): Promise<void> {
+	if (!queueDir) {return}
+	entries = await readQueueEntries(queueDir)
+	notifyStatusChange()
+}
+
+function notifyStatusChange(): void {
+	onStatusChangeCallback?.(getUploadQueueStatus())
+}
+
+/**
+ * Get a summary of the queue for display
+ */
+export function getUploadQueueStatus(): UploadQueueStatus {
+	const nextAttemptAt = entries.length > 0
+		? Math.min(...entries.map(entry => entry.nextAttemptAt))
+		: null
+	return {
+		pending: entries.length,
+		failing: entries.filter(entry => entry.attempts > 0).length,
+		nextAttemptAt,
+	}
+}
+
+/**
+ * Add a finished part to the queue
+ * The file is moved into the queue directory, so it survives the session folder being removed
+ */
+export async function enqueueUpload(filePath: string, relativePath: string): Promise<void> {
+	if (!queueDir) {
+		throw new Error('Upload queue not initialized')
+	}
+
+	const id = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`
+	const fileName = `${id}${PART_SUFFIX}`
+	const queuedPath = path.join(queueDir, fileName)
+
+	// The entry goes first, so a crash never leaves a part without its upload path
+	await writeEntry(queueDir, {
+		id,
+		fileName,
+		relativePath,
+		createdAt: Date.now(),
+		attempts: 0,
+		nextAttemptAt: 0,
+	})
+
+	if (path.resolve(filePath) !== path.resolve(queuedPath)) {
+		try {
+			await fs.promises.rename(filePath, queuedPath)
+		} catch {
+			// Rename fails across devices, fall back to copy
+			await fs.promises.copyFile(filePath, queuedPath)
+			await fs.promises.unlink(filePath)
+		}
+	}
+
+	// The part is queued, failing to read the queue back only delays the status display
+	try {
+		await refreshEntries()
+	} catch (err) {
+		logToOutput(`Failed to read upload queue: ${err}`, 'error')
+	}
+	logToOutput(`Queued upload ${relativePath} (${entries.length} pending)`, 'info')
+
+	runUploadQueue()
+}
+
+/**
+ * Upload a claimed part, re-reading its entry since another window may have updated or uploaded it
+ */
+async function uploadEntry(dir: string, id: string, force: boolean, upload: UploadFunction): Promise<void> {
+	const entry = await readEntry(dir, id)
+	const filePath = entry ? path.join(dir, entry.fileName) : null
+	if (!entry || !filePath || !fs.existsSync(filePath)) {return}
+	if (!force && entry.nextAttemptAt > Date.now()) {return}
+
+	let succeeded = false
+	try {
+		succeeded = await upload(filePath, entry.relativePath)
+	} catch (err) {
+		entry.lastError = String(err)
+	}
+
+	if (succeeded) {
+		await fs.promises.rm(filePath, { force: true })
+		await fs.promises.rm(getEntryPath(dir, id), { force: true })
+		logToOutput(`Uploaded queued part ${entry.relativePath}`, 'info')
+		return
+	}
+
+	entry.attempts++
+	entry.nextAttemptAt = Date.now() + getBackoffMs(entry.attempts)
+	await writeEntry(dir, entry)
+	logToOutput(
+		`Upload failed for ${entry.relativePath} (attempt ${entry.attempts}), retrying at ${new Date(entry.nextAttemptAt).toLocaleTimeString()}`,
+		'info'
+	)
+}
+
+/**
+ * Upload all due parts, oldest first
+ * With force, parts waiting for their backoff are retried immediately
+ */
+export async function processUploadQueue(force = false): Promise<void> {
+	const dir = queueDir
+	const upload = uploadFunction
+	if (processing || !dir || !upload) {return}
+	// Without consent parts stay queued locally and attempts are not counted
+	if (!hasConsent()) {return}
+
+	processing = true
+	try {
+		await refreshEntries()
+		const due = entries.filter(entry => force || entry.nextAttemptAt <= Date.now())
+		for (const entry of due) {
+			if (!await claimQueueEntry(dir, entry.id)) {continue}
+			const refreshIntervalId = setInterval(() => {
+				refreshQueueClaim(dir, entry.id).catch((err) => logToOutput(`Failed to refresh upload claim: ${err}`, 'error'))
+			}, LOCK_REFRESH_INTERVAL_MS)
+			try {
+				await uploadEntry(dir, entry.id, force, upload)
+			} finally {
+				clearInterval(refreshIntervalId)
+				await releaseQueueEntry(dir, entry.id)
+			}
+			await refreshEntries()
+		}
+	} finally {
+		processing = false
+	}
+}
+
+/**
+ * Process the queue in the background, logging failures (e.g. a full disk) instead of rejecting
+ */
+function runUploadQueue(): void {
+	processUploadQueue().catch((err) => logToOutput(`Failed to process upload queue: ${err}`, 'error'))
+}
+
+/**
+ * Initialize the upload queue and resume parts left over from previous sessions
+ */
+export async function initializeUploadQueue(
+	context: vscode.ExtensionContext,
+	upload: UploadFunction,
+	onStatusChange?: (status: UploadQueueStatus) => void
+): Promise<void> {
+	uploadFunction = upload
+	onStatusChangeCallback = onStatusChange ?? null
+
+	queueDir = path.join(context.globalStorageUri.fsPath, QUEUE_DIR_NAME)
+	await fs.promises.mkdir(queueDir, { recursive: true })
+	await refreshEntries()
+
+	if (entries.length > 0) {
+		logToOutput(`Resuming upload queue (${entries.length} pending)`, 'info')
+	}
+
+	if (!checkIntervalId) {
+		checkIntervalId = setInterval(runUploadQueue, QUEUE_CHECK_INTERVAL_MS)
+	}
+
+	runUploadQueue()
+}
+
+/**
+ * Cleanup the upload queue (queued parts stay on disk for the next session)
+ */
+export function cleanupUploadQueue(): void {
+	if (checkIntervalId) {
+		clearInterval(checkIntervalId)
+		checkIntervalId = null
+	}
+	onStatusChangeCallback = null
+}
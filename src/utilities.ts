@@ -385,3 +385,26 @@ export async function addToGitignore(): Promise<boolean> {
 		return false
 	}
 }
+
+/**
+ * Finds the innermost of the given (possibly nested) workspace folders that contains a file.
+ * @param folders - The workspace folders to search.
+ * @param filePath - The absolute path of the file.
+ * @returns The deepest folder containing the file, or undefined if none does.
+ */
+export function findInnermostFolder(
+	folders: Iterable<vscode.WorkspaceFolder>,
+	filePath: string
+): vscode.WorkspaceFolder | undefined {
+	let innermost: vscode.WorkspaceFolder | undefined
+	for (const folder of folders) {
+		const relativePath = path.relative(folder.uri.fsPath, filePath)
+		if (relativePath === '..' || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath)) {
+			continue
+		}
+		if (!innermost || folder.uri.fsPath.length > innermost.uri.fsPath.length) {
+			innermost = folder
+		}
+	}
+	return innermost
+}